@@ -1,5 +1,5 @@
-import { Injectable, Logger, Optional } from '@nestjs/common';
-import { EventBusService, CacheService } from '@katarsaad/core';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { EventBusService, CacheService, EVENT_OUTBOX, EventOutbox } from '@katarsaad/core';
 import { MetricsService } from '@katarsaad/monitoring';
 
 export interface AuditLog {
@@ -33,27 +33,36 @@ export class AuditService {
   constructor(
     @Optional() private eventBus: EventBusService,
     @Optional() private cacheService: CacheService,
-    @Optional() private readonly metricsService: MetricsService
+    @Optional() private readonly metricsService: MetricsService,
+    @Optional() @Inject(EVENT_OUTBOX) private readonly outbox?: EventOutbox
   ) {
     this.initializeMetrics();
   }
 
-  async log(auditData: AuditLog): Promise<void> {
+  /**
+   * Records an audit entry. Pass the transaction client of the audited write
+   * as `tx` so the `AuditLogCreated` event is stored in the outbox with it.
+   */
+  async log(auditData: AuditLog, tx?: unknown): Promise<void> {
     try {
       // Mock database operation for now
       const log = { isSuccess: true, value: { id: this.generateId() } };
 
       if (log.isSuccess) {
-        if (this.eventBus && typeof this.eventBus.publish === 'function') {
-          this.eventBus.publish({
-            id: this.generateId(),
-            type: 'AuditLogCreated',
-            aggregateId: (log.value as any).id,
-            aggregateType: 'AuditLog',
-            version: 1,
-            occurredOn: new Date(),
-            data: auditData
-          });
+        const event = {
+          id: this.generateId(),
+          type: 'AuditLogCreated',
+          aggregateId: (log.value as any).id,
+          aggregateType: 'AuditLog',
+          version: 1,
+          occurredOn: new Date(),
+          data: auditData
+        };
+
+        if (this.outbox) {
+          await this.outbox.add(event, tx);
+        } else if (this.eventBus && typeof this.eventBus.publish === 'function') {
+          this.eventBus.publish(event);
         }
 
         this.metricsService?.incrementCounter('audit_logs_created', 1, {
@@ -8,7 +8,7 @@ import { InfrastructureModule } from "@katarsaad/infrastructure";
 
 @Global()
 @Module({
-  imports: [MonitoringModule.forRoot(), InfrastructureModule],
+  imports: [MonitoringModule, InfrastructureModule],
   providers: [BackupService, BackupSchedulerService, BackupVerificationService],
   exports: [BackupService, BackupSchedulerService, BackupVerificationService],
 })
@@ -1,6 +1,7 @@
 export interface BackupConfig {
   strategy: 'full' | 'incremental' | 'differential';
   schedule: string; // cron expression
+  timezone?: string; // IANA zone the schedule is evaluated in
   retention: RetentionPolicy;
   compression: boolean;
   encryption: boolean;
@@ -2,10 +2,11 @@ import { Injectable } from '@nestjs/common';
 import { BackupConfig } from '../interfaces/backup.interface';
 import { BackupService } from './backup.service';
 import { MetricsService } from '@katarsaad/monitoring';
+import { CronJob } from '@katarsaad/core';
 
 @Injectable()
 export class BackupSchedulerService {
-  private scheduledJobs = new Map<string, NodeJS.Timeout>();
+  private scheduledJobs = new Map<string, CronJob>();
 
   constructor(
     private backupService: BackupService,
@@ -15,10 +16,7 @@ export class BackupSchedulerService {
   scheduleBackup(name: string, config: BackupConfig): void {
     this.cancelScheduledBackup(name);
 
-    // Mock cron scheduling - replace with actual cron library
-    const interval = this.parseCronToInterval(config.schedule);
-    
-    const job = setInterval(async () => {
+    const job = new CronJob(config.schedule, async () => {
       try {
         await this.backupService.createBackup({
           encrypt: config.encryption,
@@ -28,7 +26,8 @@ export class BackupSchedulerService {
       } catch (error) {
         this.metrics.incrementCounter('scheduled_backup_failed', 1, { name });
       }
-    }, interval);
+    }, { timezone: config.timezone });
+    job.start();
 
     this.scheduledJobs.set(name, job);
     this.metrics.incrementCounter('backup_scheduled', 1, { name });
@@ -37,7 +36,7 @@ export class BackupSchedulerService {
   cancelScheduledBackup(name: string): void {
     const job = this.scheduledJobs.get(name);
     if (job) {
-      clearInterval(job);
+      job.stop();
       this.scheduledJobs.delete(name);
       this.metrics.incrementCounter('backup_unscheduled', 1, { name });
     }
@@ -47,10 +46,8 @@ export class BackupSchedulerService {
     return Array.from(this.scheduledJobs.keys());
   }
 
-  private parseCronToInterval(cron: string): number {
-    // Simple cron parser - replace with proper cron library
-    if (cron === '0 0 * * *') return 24 * 60 * 60 * 1000; // daily
-    if (cron === '0 0 * * 0') return 7 * 24 * 60 * 60 * 1000; // weekly
-    return 60 * 60 * 1000; // default hourly
+  getNextRuns(name: string, count: number = 5): Date[] {
+    const job = this.scheduledJobs.get(name);
+    return job ? job.getNextRuns(count) : [];
   }
-}
\ No newline at end of file
+}
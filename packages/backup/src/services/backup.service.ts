@@ -1,6 +1,6 @@
 import { Injectable, Logger, Optional } from '@nestjs/common';
 import { Infrastructure } from '@katarsaad/infrastructure';
-import { MetricsService } from '@katarsaad/monitoring';
+import { MetricsService, PushGatewayService } from '@katarsaad/monitoring';
 import { EncryptionService } from '@katarsaad/security';
 
 export interface BackupOptions {
@@ -26,7 +26,8 @@ export class BackupService {
   constructor(
     @Optional() private database: Infrastructure,
     @Optional() private metricsService: MetricsService,
-    @Optional() private encryptionService: EncryptionService
+    @Optional() private encryptionService: EncryptionService,
+    @Optional() private pushGateway?: PushGatewayService
   ) {
     this.initializeMetrics();
   }
@@ -74,12 +75,14 @@ export class BackupService {
       }
 
       this.logger.log(`Backup completed: ${backupId} (${duration}ms, ${size} bytes)`);
+      await this.pushMetrics();
       return result;
     } catch (error) {
       if (this.metricsService) {
         this.metricsService.incrementCounter('backup_failed', 1);
       }
       this.logger.error(`Backup failed: ${backupId}`, error);
+      await this.pushMetrics();
       throw error;
     }
   }
@@ -145,6 +148,19 @@ export class BackupService {
     return exportData;
   }
 
+  /**
+   * Backup jobs may exit before the next scrape, so their metrics are pushed
+   * when the application is configured with a Pushgateway.
+   */
+  private async pushMetrics(): Promise<void> {
+    if (!this.pushGateway || !this.metricsService) return;
+    try {
+      await this.pushGateway.pushAdd(this.metricsService);
+    } catch (error) {
+      this.logger.warn('Failed to push backup metrics:', error);
+    }
+  }
+
   private generateBackupId(): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const random = Math.random().toString(36).substr(2, 6);
@@ -2,7 +2,10 @@ import { Module, Global, DynamicModule } from '@nestjs/common';
 import { CacheService } from './services/cache.service';
 import { EventBusService } from './services/event-bus.service';
 import { CryptoService } from './services/crypto.service';
+import { EventContractRegistry } from './services/event-contract.registry';
 import { ICacheService } from './interfaces/cache.interface';
+import { DeadLetterStore, EVENT_DEAD_LETTER_STORE } from './interfaces/dead-letter.interface';
+import { EVENT_TRANSPORT, EventTransport } from './interfaces/event-transport.interface';
 
 export interface CoreModuleOptions {
   cache?: {
@@ -10,6 +13,12 @@ export interface CoreModuleOptions {
     maxSize?: number;
     cleanupInterval?: number;
   };
+  eventBus?: {
+    /** Where the bus keeps events its subscribers failed on. In memory by default. */
+    deadLetterStore?: DeadLetterStore;
+    /** Connects the bus to the buses of other processes. */
+    transport?: EventTransport;
+  };
 }
 
 @Global()
@@ -23,17 +32,25 @@ export class CoreModule {
           provide: 'CORE_OPTIONS',
           useValue: options || {},
         },
+        ...(options?.eventBus?.deadLetterStore
+          ? [{ provide: EVENT_DEAD_LETTER_STORE, useValue: options.eventBus.deadLetterStore }]
+          : []),
+        ...(options?.eventBus?.transport
+          ? [{ provide: EVENT_TRANSPORT, useValue: options.eventBus.transport }]
+          : []),
         {
           provide: 'ICacheService',
           useClass: CacheService,
         },
         CacheService,
+        EventContractRegistry,
         EventBusService,
         CryptoService,
       ],
       exports: [
         'ICacheService',
         CacheService,
+        EventContractRegistry,
         EventBusService,
         CryptoService,
       ],
@@ -3,11 +3,35 @@ import { DomainEvent } from './domain-event';
 
 export abstract class AggregateRoot<T> extends Entity<T> {
   private _domainEvents: DomainEvent[] = [];
+  private _version: number;
+
+  /**
+   * Pass the stored `version` when loading an aggregate, so its next
+   * events continue from it.
+   */
+  constructor(props: T, id?: string, version: number = 0) {
+    super(props, id);
+    this._version = version;
+  }
 
   get domainEvents(): DomainEvent[] {
     return [...this._domainEvents];
   }
 
+  /**
+   * Version of the last pulled event, 0 before any.
+   */
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Type recorded on published events; the class name unless overridden.
+   */
+  get aggregateType(): string {
+    return this.constructor.name;
+  }
+
   protected addDomainEvent(event: DomainEvent): void {
     this._domainEvents.push(event);
   }
@@ -16,10 +40,30 @@ export abstract class AggregateRoot<T> extends Entity<T> {
     this._domainEvents = [];
   }
 
+  /**
+   * Returns the pending events and clears them, so each is dispatched once.
+   * They take the versions after `version`, which moves to the last one.
+   */
+  pullDomainEvents(): DomainEvent[] {
+    const events = this._domainEvents;
+    this._domainEvents = [];
+    this._version += events.length;
+    return events;
+  }
+
+  /**
+   * Puts pulled events back ahead of those raised since, for when
+   * dispatching them failed, and moves `version` back before them.
+   */
+  restoreDomainEvents(events: DomainEvent[]): void {
+    this._domainEvents = [...events, ...this._domainEvents];
+    this._version -= events.length;
+  }
+
   protected removeDomainEvent(event: DomainEvent): void {
     const index = this._domainEvents.indexOf(event);
     if (index !== -1) {
       this._domainEvents.splice(index, 1);
     }
   }
-}
\ No newline at end of file
+}
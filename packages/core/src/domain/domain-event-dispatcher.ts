@@ -0,0 +1,59 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { AggregateRoot } from './aggregate-root';
+import { DomainEvent } from './domain-event';
+import { EventBusService } from '../services/event-bus.service';
+import { EventEnvelope } from '../interfaces/event-envelope.interface';
+
+/**
+ * Publishes the pending events of an aggregate on the `EventBusService`.
+ * Repositories call `dispatch` once a persist has succeeded.
+ */
+@Injectable()
+export class DomainEventDispatcher {
+  constructor(@Optional() private readonly eventBus?: EventBusService) {}
+
+  /**
+   * Pulls the aggregate's events and hands their envelopes to `sink`, or
+   * publishes them on the bus when no sink is given. When the sink fails the
+   * events are put back on the aggregate for the next attempt.
+   */
+  async dispatch(
+    aggregate: AggregateRoot<any>,
+    sink?: (events: EventEnvelope[]) => void | Promise<void>
+  ): Promise<EventEnvelope[]> {
+    const version = aggregate.version;
+    const events = aggregate.pullDomainEvents();
+    const envelopes = events.map((event, index) => DomainEventDispatcher.toEnvelope(event, aggregate, version + index + 1));
+    if (envelopes.length === 0) return envelopes;
+
+    if (sink) {
+      try {
+        await sink(envelopes);
+      } catch (error) {
+        aggregate.restoreDomainEvents(events);
+        throw error;
+      }
+    } else {
+      this.eventBus?.publishMany(envelopes);
+    }
+    return envelopes;
+  }
+
+  /**
+   * Maps a `DomainEvent` instance to the bus envelope; its own fields other
+   * than `eventId` and `occurredOn` become `data`. `version` defaults to the
+   * one after the aggregate's.
+   */
+  static toEnvelope(event: DomainEvent, aggregate: AggregateRoot<any>, version: number = aggregate.version + 1): EventEnvelope {
+    const { eventId, occurredOn, ...data } = event as DomainEvent & Record<string, any>;
+    return {
+      id: eventId,
+      type: event.eventType,
+      aggregateId: aggregate.id,
+      aggregateType: aggregate.aggregateType,
+      version,
+      occurredOn,
+      data,
+    };
+  }
+}
@@ -8,4 +8,11 @@ export abstract class DomainEvent {
     this.eventId = uuid();
     this.occurredOn = new Date();
   }
-}
\ No newline at end of file
+
+  /**
+   * Name the event is published under; the class name unless overridden.
+   */
+  get eventType(): string {
+    return this.constructor.name;
+  }
+}
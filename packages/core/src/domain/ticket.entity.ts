@@ -1,4 +1,5 @@
-import { Entity } from './entity';
+import { AggregateRoot } from './aggregate-root';
+import { TicketAssignedEvent, TicketCreatedEvent, TicketStatusChangedEvent } from './ticket.events';
 
 export enum TicketStatus {
   OPEN = 'OPEN',
@@ -29,7 +30,11 @@ export interface TicketProps {
   dueDate?: Date;
 }
 
-export class TicketEntity extends Entity<TicketProps> {
+export class TicketEntity extends AggregateRoot<TicketProps> {
+  get aggregateType(): string {
+    return 'Ticket';
+  }
+
   get title(): string {
     return this.props.title;
   }
@@ -75,18 +80,31 @@ export class TicketEntity extends Entity<TicketProps> {
   }
 
   assign(assigneeId: string): void {
+    const previousAssigneeId = this.props.assigneeId;
+    const previousStatus = this.props.status;
+
     this.props.assigneeId = assigneeId;
     this.props.status = TicketStatus.IN_PROGRESS;
     this.props.updatedAt = new Date();
+
+    this.addDomainEvent(new TicketAssignedEvent(this.id, assigneeId, previousAssigneeId));
+    if (previousStatus !== TicketStatus.IN_PROGRESS) {
+      this.addDomainEvent(new TicketStatusChangedEvent(this.id, previousStatus, TicketStatus.IN_PROGRESS));
+    }
   }
 
   updateStatus(status: TicketStatus): void {
+    const previousStatus = this.props.status;
     this.props.status = status;
     this.props.updatedAt = new Date();
     
     if (status === TicketStatus.RESOLVED) {
       this.props.resolvedAt = new Date();
     }
+
+    if (previousStatus !== status) {
+      this.addDomainEvent(new TicketStatusChangedEvent(this.id, previousStatus, status));
+    }
   }
 
   isOverdue(): boolean {
@@ -110,11 +128,14 @@ export class TicketEntity extends Entity<TicketProps> {
 
   static create(props: Omit<TicketProps, 'id' | 'createdAt' | 'updatedAt' | 'status'>, id?: string): TicketEntity {
     const now = new Date();
-    return new TicketEntity({
+    const ticket = new TicketEntity({
       ...props,
       status: TicketStatus.OPEN,
       createdAt: now,
       updatedAt: now
     }, id);
+
+    ticket.addDomainEvent(new TicketCreatedEvent(ticket.id, props.title, props.priority, props.reporterId));
+    return ticket;
   }
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { DomainEvent } from './domain-event';
+import type { TicketPriority, TicketStatus } from './ticket.entity';
+
+export class TicketCreatedEvent extends DomainEvent {
+  constructor(
+    public readonly ticketId: string,
+    public readonly title: string,
+    public readonly priority: TicketPriority,
+    public readonly reporterId: string
+  ) {
+    super();
+  }
+
+  get eventType(): string {
+    return 'TicketCreated';
+  }
+}
+
+export class TicketAssignedEvent extends DomainEvent {
+  constructor(
+    public readonly ticketId: string,
+    public readonly assigneeId: string,
+    public readonly previousAssigneeId?: string
+  ) {
+    super();
+  }
+
+  get eventType(): string {
+    return 'TicketAssigned';
+  }
+}
+
+export class TicketStatusChangedEvent extends DomainEvent {
+  constructor(
+    public readonly ticketId: string,
+    public readonly from: TicketStatus,
+    public readonly to: TicketStatus
+  ) {
+    super();
+  }
+
+  get eventType(): string {
+    return 'TicketStatusChanged';
+  }
+}
+
+export type TicketCreatedPayload = Pick<TicketCreatedEvent, 'ticketId' | 'title' | 'priority' | 'reporterId'>;
+export type TicketAssignedPayload = Pick<TicketAssignedEvent, 'ticketId' | 'assigneeId' | 'previousAssigneeId'>;
+export type TicketStatusChangedPayload = Pick<TicketStatusChangedEvent, 'ticketId' | 'from' | 'to'>;
+
+declare module '../interfaces/event-contract.interface' {
+  interface EventTypeMap {
+    TicketCreated: TicketCreatedPayload;
+    TicketAssigned: TicketAssignedPayload;
+    TicketStatusChanged: TicketStatusChangedPayload;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Thrown when an event payload does not match the schema registered for
+ * its type.
+ */
+export class EventValidationException extends Error {
+  constructor(
+    public readonly eventType: string,
+    public readonly schemaVersion: number,
+    public readonly errors: string[]
+  ) {
+    super(`Invalid ${eventType} v${schemaVersion} payload: ${errors.join('; ')}`);
+    this.name = 'EventValidationException';
+  }
+}
+
+/**
+ * Thrown when an event is older than its contract and no upcaster exists
+ * for one of the versions in between.
+ */
+export class MissingUpcasterException extends Error {
+  constructor(
+    public readonly eventType: string,
+    public readonly fromVersion: number
+  ) {
+    super(`No upcaster registered for ${eventType} v${fromVersion}`);
+    this.name = 'MissingUpcasterException';
+  }
+}
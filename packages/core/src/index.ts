@@ -3,8 +3,10 @@ export * from './domain/entity';
 export * from './domain/aggregate-root';
 export * from './domain/value-object';
 export * from './domain/domain-event';
+export * from './domain/domain-event-dispatcher';
 export * from './domain/repository';
 export * from './domain/ticket.entity';
+export * from './domain/ticket.events';
 
 // Common exports
 export * from './common/result';
@@ -17,7 +19,19 @@ export * from './services/base.service';
 export * from './services/crypto.service';
 export * from './services/ticket.service';
 export * from './services/prisma-ticket.service';
-export { EventBusService, DomainEvent as EventBusDomainEvent, EventHandler, EventSubscription } from './services/event-bus.service';
+export {
+  EventBusService,
+  DomainEvent as EventBusDomainEvent,
+  EventHandler,
+  EventHandlerFn,
+  EventSubscription,
+  ErrorPolicy,
+  SubscriptionOptions,
+  MIDDLEWARE_SUBSCRIPTION,
+  TRANSPORT_SUBSCRIPTION,
+} from './services/event-bus.service';
+export * from './services/memory-dead-letter.store';
+export * from './services/event-contract.registry';
 export { CacheService, CacheOptions as CacheServiceOptions, CacheStats, CacheEntry } from './services/cache.service';
 
 // DTO exports
@@ -34,6 +48,9 @@ export * from './types/common.types';
 export * from './utils/array.utils';
 export * from './utils/crypto.utils';
 export * from './utils/date.utils';
+export * from './utils/event-envelope.utils';
+export * from './utils/instrumentation.utils';
+export * from './utils/cron.utils';
 export * from './utils/object.utils';
 export * from './utils/string.utils';
 
@@ -63,6 +80,20 @@ export * from './swagger';
 
 // Interface exports
 export * from './interfaces/cache.interface';
+export * from './interfaces/outbox.interface';
+export * from './interfaces/event-envelope.interface';
+export * from './interfaces/dead-letter.interface';
+export * from './interfaces/event-contract.interface';
+export * from './interfaces/event-transport.interface';
+export * from './interfaces/instrumentation.interface';
+
+// Event transports exports
+export * from './transports/memory-event.transport';
+export * from './transports/socket-event.transport';
+export * from './transports/redis-event.transport';
+
+// Exceptions exports
+export * from './exceptions/core.exceptions';
 
 // Module exports
 export * from './core.module';
@@ -0,0 +1,29 @@
+import type { EventEnvelope } from './event-envelope.interface';
+
+export const EVENT_DEAD_LETTER_STORE = 'EVENT_DEAD_LETTER_STORE';
+
+/**
+ * An event a subscriber could not handle. `subscription` is the name of
+ * the subscription, or `$middleware` when a bus middleware failed.
+ */
+export interface DeadLetter {
+  id: string;
+  subscription: string;
+  event: EventEnvelope;
+  error: string;
+  attempts: number;
+  failedAt: Date;
+}
+
+export interface DeadLetterFilter {
+  subscription?: string;
+  eventType?: string;
+}
+
+export interface DeadLetterStore {
+  add(letter: DeadLetter): Promise<void>;
+  /** Oldest first. */
+  list(filter?: DeadLetterFilter): Promise<DeadLetter[]>;
+  get(id: string): Promise<DeadLetter | null>;
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,35 @@
+import type { EventEnvelope } from './event-envelope.interface';
+
+/**
+ * Payload types by event type. Augment it next to the event definitions to
+ * get typed handlers from `EventBusService.subscribe<'EventType'>`:
+ *
+ *   declare module '@katarsaad/core' {
+ *     interface EventTypeMap { OrderPlaced: { orderId: string } }
+ *   }
+ */
+export interface EventTypeMap {}
+
+export type EventType = keyof EventTypeMap & string;
+
+export type TypedEvent<K extends EventType> = EventEnvelope<EventTypeMap[K]> & { type: K };
+
+export interface EventPayloadSchema {
+  /** Returns the validation errors, empty when the payload is valid. */
+  validate(data: unknown): string[];
+}
+
+/**
+ * Upgrades a payload by exactly one schema version.
+ */
+export type EventUpcaster = (data: any, event: EventEnvelope) => any;
+
+export interface EventContract {
+  type: string;
+  /** Version of the payload schema producers write today. */
+  schemaVersion: number;
+  /** Checked on publish and append for events at `schemaVersion`. */
+  schema?: EventPayloadSchema;
+  /** Upcasters keyed by the version they upgrade from, e.g. `1` turns v1 into v2. */
+  upcasters?: Record<number, EventUpcaster>;
+}
@@ -0,0 +1,60 @@
+/**
+ * Tracing metadata carried by every event. `correlationId` is shared by all
+ * events of one business operation and `causationId` is the id of the
+ * event or command that directly caused this one.
+ */
+export interface EventMetadata {
+  correlationId?: string;
+  causationId?: string;
+  userId?: string;
+  /** Service or component that produced the event. */
+  source?: string;
+  [key: string]: any;
+}
+
+/**
+ * Canonical event envelope used by the event bus, the event store and the
+ * outbox. `version` is the aggregate version the event produced and
+ * `schemaVersion` the version of the `data` payload schema.
+ */
+export interface EventEnvelope<T = any> {
+  id: string;
+  type: string;
+  aggregateId: string;
+  aggregateType: string;
+  version: number;
+  /** Defaults to 1 when published without one. */
+  schemaVersion?: number;
+  occurredOn: Date;
+  data: T;
+  metadata?: EventMetadata;
+}
+
+/**
+ * Shape published on the old `@katarsaad/events` bus.
+ */
+export interface LegacyBusEvent {
+  eventId: string;
+  eventType: string;
+  aggregateId: string;
+  version: number;
+  timestamp: Date;
+  data: any;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Shape of the old `DomainEvent` interface of `@katarsaad/events`.
+ */
+export interface LegacyPayloadEvent {
+  id: string;
+  type: string;
+  aggregateId: string;
+  aggregateType: string;
+  version: number;
+  payload: any;
+  metadata: Record<string, any>;
+  timestamp: Date;
+}
+
+export type AnyEvent = EventEnvelope | LegacyBusEvent | LegacyPayloadEvent;
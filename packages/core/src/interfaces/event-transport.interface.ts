@@ -0,0 +1,14 @@
+export const EVENT_TRANSPORT = 'EVENT_TRANSPORT';
+
+/**
+ * Carries serialized bus messages between processes. Drivers only move
+ * strings; every connected `EventBusService` receives every message,
+ * including its own, and filters them itself.
+ */
+export interface EventTransport {
+  connect(): Promise<void>;
+  publish(message: string): Promise<void>;
+  /** Registers the receiver of incoming messages; called once by the bus. */
+  onMessage(handler: (message: string) => void): void;
+  close(): Promise<void>;
+}
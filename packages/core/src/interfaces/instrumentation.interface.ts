@@ -0,0 +1,35 @@
+export const OPERATION_INSTRUMENTER = 'OPERATION_INSTRUMENTER';
+
+export type InstrumentedComponent = 'db' | 'cache' | 'queue' | 'event_bus';
+
+export interface InstrumentedOperation {
+  component: InstrumentedComponent;
+  /** e.g. `findMany`, `get`, `process`, `handle`. */
+  operation: string;
+  /** Model, cache key prefix, queue or event type. Becomes a metric label, so it must stay low-cardinality. */
+  target: string;
+  /** Recorded on the span only. */
+  attributes?: Record<string, any>;
+}
+
+/**
+ * What an operation that resolved still reports, e.g. a failed `Result`.
+ */
+export interface OperationOutcome {
+  error?: string;
+  attributes?: Record<string, any>;
+}
+
+/**
+ * Wraps data-access and messaging operations with spans and metrics.
+ * Implemented by the monitoring package and registered under
+ * `OPERATION_INSTRUMENTER` when instrumentation is enabled; packages run
+ * their operations through it when one is provided.
+ */
+export interface OperationInstrumenter {
+  instrument<T>(
+    operation: InstrumentedOperation,
+    fn: () => Promise<T>,
+    outcome?: (result: T) => OperationOutcome
+  ): Promise<T>;
+}
@@ -0,0 +1,12 @@
+import type { EventEnvelope } from './event-envelope.interface';
+
+export const EVENT_OUTBOX = 'EVENT_OUTBOX';
+
+/**
+ * Stores domain events for later publication. Passing the transaction
+ * client of a write (`tx`) commits the events together with it, so they are
+ * published only if the write succeeds and are not lost after a crash.
+ */
+export interface EventOutbox {
+  add(events: EventEnvelope | EventEnvelope[], tx?: unknown): Promise<void>;
+}
@@ -1,5 +1,7 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import { Result } from '../common/result';
+import { OPERATION_INSTRUMENTER, OperationInstrumenter, OperationOutcome } from '../interfaces/instrumentation.interface';
+import { InstrumentationUtils } from '../utils/instrumentation.utils';
 
 export interface CacheOptions {
   ttl?: number; // Time to live in seconds
@@ -40,87 +42,93 @@ export class CacheService {
   };
   private cleanupInterval?: NodeJS.Timeout;
 
-  constructor() {
+  constructor(@Optional() @Inject(OPERATION_INSTRUMENTER) private readonly instrumenter?: OperationInstrumenter) {
     this.startCleanupInterval();
   }
 
-  async get<T>(key: string): Promise<Result<T | null>> {
-    try {
-      const entry = this.cache.get(key);
-      
-      if (!entry) {
-        this.stats.misses++;
-        this.updateHitRate();
-        return Result.ok(null);
-      }
+  get<T>(key: string): Promise<Result<T | null>> {
+    return this.instrument('get', key, async () => {
+      try {
+        const entry = this.cache.get(key);
+        
+        if (!entry) {
+          this.stats.misses++;
+          this.updateHitRate();
+          return Result.ok(null);
+        }
 
-      if (this.isExpired(entry)) {
-        this.cache.delete(key);
-        this.stats.misses++;
-        this.stats.totalKeys--;
-        this.updateHitRate();
-        return Result.ok(null);
-      }
+        if (this.isExpired(entry)) {
+          this.cache.delete(key);
+          this.stats.misses++;
+          this.stats.totalKeys--;
+          this.updateHitRate();
+          return Result.ok(null);
+        }
 
-      entry.accessCount++;
-      entry.lastAccessed = Date.now();
-      this.stats.hits++;
-      this.updateHitRate();
+        entry.accessCount++;
+        entry.lastAccessed = Date.now();
+        this.stats.hits++;
+        this.updateHitRate();
 
-      return Result.ok(entry.value as T);
-    } catch (error) {
-      this.logger.error(`Error getting cache key ${key}:`, error);
-      return Result.fail(`Cache get failed: ${error}`);
-    }
+        return Result.ok(entry.value as T);
+      } catch (error) {
+        this.logger.error(`Error getting cache key ${key}:`, error);
+        return Result.fail(`Cache get failed: ${error}`);
+      }
+    }, result => ({ attributes: { 'cache.hit': result.value !== null } }));
   }
 
-  async set<T>(key: string, value: T, options: CacheOptions = {}): Promise<Result<void>> {
-    try {
-      const { ttl = 3600, tags = [], compress = false, serialize = true } = options;
-      
-      let processedValue = value;
-      if (serialize && typeof value === 'object') {
-        processedValue = JSON.parse(JSON.stringify(value)) as T;
-      }
+  set<T>(key: string, value: T, options: CacheOptions = {}): Promise<Result<void>> {
+    return this.instrument('set', key, async () => {
+      try {
+        const { ttl = 3600, tags = [], compress = false, serialize = true } = options;
+        
+        let processedValue = value;
+        if (serialize && typeof value === 'object') {
+          processedValue = JSON.parse(JSON.stringify(value)) as T;
+        }
 
-      const entry: CacheEntry<T> = {
-        value: processedValue,
-        expiresAt: Date.now() + (ttl * 1000),
-        tags,
-        createdAt: Date.now(),
-        accessCount: 0,
-        lastAccessed: Date.now(),
-      };
-
-      const wasNew = !this.cache.has(key);
-      this.cache.set(key, entry);
-      
-      if (wasNew) {
-        this.stats.totalKeys++;
-      }
-      this.stats.sets++;
+        const entry: CacheEntry<T> = {
+          value: processedValue,
+          expiresAt: Date.now() + (ttl * 1000),
+          tags,
+          createdAt: Date.now(),
+          accessCount: 0,
+          lastAccessed: Date.now(),
+        };
+
+        const wasNew = !this.cache.has(key);
+        this.cache.set(key, entry);
+        
+        if (wasNew) {
+          this.stats.totalKeys++;
+        }
+        this.stats.sets++;
 
-      this.logger.debug(`Cache set: ${key} (TTL: ${ttl}s, Tags: ${tags.join(', ')})`);
-      return Result.ok();
-    } catch (error) {
-      this.logger.error(`Error setting cache key ${key}:`, error);
-      return Result.fail(`Cache set failed: ${error}`);
-    }
+        this.logger.debug(`Cache set: ${key} (TTL: ${ttl}s, Tags: ${tags.join(', ')})`);
+        return Result.ok();
+      } catch (error) {
+        this.logger.error(`Error setting cache key ${key}:`, error);
+        return Result.fail(`Cache set failed: ${error}`);
+      }
+    });
   }
 
-  async delete(key: string): Promise<Result<boolean>> {
-    try {
-      const existed = this.cache.delete(key);
-      if (existed) {
-        this.stats.deletes++;
-        this.stats.totalKeys--;
-        this.logger.debug(`Cache deleted: ${key}`);
+  delete(key: string): Promise<Result<boolean>> {
+    return this.instrument('delete', key, async () => {
+      try {
+        const existed = this.cache.delete(key);
+        if (existed) {
+          this.stats.deletes++;
+          this.stats.totalKeys--;
+          this.logger.debug(`Cache deleted: ${key}`);
+        }
+        return Result.ok(existed);
+      } catch (error) {
+        this.logger.error(`Error deleting cache key ${key}:`, error);
+        return Result.fail(`Cache delete failed: ${error}`);
       }
-      return Result.ok(existed);
-    } catch (error) {
-      this.logger.error(`Error deleting cache key ${key}:`, error);
-      return Result.fail(`Cache delete failed: ${error}`);
-    }
+    });
   }
 
   async has(key: string): Promise<Result<boolean>> {
@@ -295,6 +303,23 @@ export class CacheService {
     return this.cache.size;
   }
 
+  /**
+   * Failed results count as errors, since cache methods do not throw.
+   */
+  private instrument<T>(
+    operation: string,
+    key: string,
+    fn: () => Promise<Result<T>>,
+    outcome?: (result: Result<T>) => OperationOutcome
+  ): Promise<Result<T>> {
+    if (!this.instrumenter) return fn();
+    return this.instrumenter.instrument(
+      { component: 'cache', operation, target: InstrumentationUtils.cacheTarget(key) },
+      fn,
+      result => (result.isFailure ? { error: result.error } : outcome?.(result) ?? {})
+    );
+  }
+
   private isExpired(entry: CacheEntry): boolean {
     return Date.now() > entry.expiresAt;
   }
@@ -1,101 +1,191 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Subject, Observable, filter, map } from 'rxjs';
-
-export interface DomainEvent {
-  id: string;
-  type: string;
-  aggregateId: string;
-  aggregateType: string;
-  version: number;
-  occurredOn: Date;
-  data: any;
-  metadata?: Record<string, any>;
-}
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { Subject, Observable, Subscription, filter, map } from 'rxjs';
+import { v4 as uuid } from 'uuid';
+import { AnyEvent, EventEnvelope } from '../interfaces/event-envelope.interface';
+import { DeadLetter, DeadLetterFilter, DeadLetterStore, EVENT_DEAD_LETTER_STORE } from '../interfaces/dead-letter.interface';
+import { EventType, TypedEvent } from '../interfaces/event-contract.interface';
+import { EVENT_TRANSPORT, EventTransport } from '../interfaces/event-transport.interface';
+import { OPERATION_INSTRUMENTER, OperationInstrumenter } from '../interfaces/instrumentation.interface';
+import { EventEnvelopeUtils } from '../utils/event-envelope.utils';
+import { MemoryDeadLetterStore } from './memory-dead-letter.store';
+import { EventContractRegistry } from './event-contract.registry';
+
+/**
+ * @deprecated Use `EventEnvelope`.
+ */
+export type DomainEvent<T = any> = EventEnvelope<T>;
 
 export interface EventHandler<T extends DomainEvent = DomainEvent> {
   handle(event: T): Promise<void> | void;
 }
 
+export type EventHandlerFn<T extends DomainEvent = DomainEvent> = (event: T) => Promise<void> | void;
+
 export interface EventSubscription {
+  readonly name: string;
   unsubscribe(): void;
 }
 
+/**
+ * What happens to an event once its handler has used up its attempts:
+ * - `dead-letter` stores it for inspection and replay
+ * - `stop` stores it and cancels the subscription, dropping events still queued for it
+ * - `ignore` only logs the failure
+ */
+export type ErrorPolicy = 'dead-letter' | 'stop' | 'ignore';
+
+export interface SubscriptionOptions {
+  /** Unique name, used to find the subscription when replaying dead letters. */
+  name?: string;
+  /** Defaults to `dead-letter`. */
+  onError?: ErrorPolicy;
+  /** Attempts per event including the first one. Defaults to 1. */
+  maxAttempts?: number;
+  /** Milliseconds before the first retry. Defaults to 100. */
+  retryDelay?: number;
+  /** Factor applied to the delay after every retry. Defaults to 2. */
+  backoffMultiplier?: number;
+  /** Upper bound for the delay between retries. Defaults to 30000. */
+  maxRetryDelay?: number;
+}
+
+interface Subscriber {
+  name: string;
+  handler: EventHandler<any>;
+  options: Required<Omit<SubscriptionOptions, 'name'>>;
+  /** Tail of the delivery chain of every aggregate with events in flight. */
+  queues: Map<string, Promise<boolean>>;
+  subscription?: Subscription;
+  stopped: boolean;
+}
+
+export const MIDDLEWARE_SUBSCRIPTION = '$middleware';
+export const TRANSPORT_SUBSCRIPTION = '$transport';
+
+interface TransportMessage {
+  /** `nodeId` of the publishing bus. */
+  origin: string;
+  event: DomainEvent;
+}
+
+const DEFAULT_SUBSCRIPTION_OPTIONS: Subscriber['options'] = {
+  onError: 'dead-letter',
+  maxAttempts: 1,
+  retryDelay: 100,
+  backoffMultiplier: 2,
+  maxRetryDelay: 30000,
+};
+
+/**
+ * The in-process event bus shared by all packages. Events published in one
+ * of the legacy shapes are converted to `EventEnvelope` first, so
+ * subscribers always receive the canonical envelope. Events of a type
+ * registered in `EventContractRegistry` are upcast to the current schema
+ * version and validated before they are published.
+ *
+ * Events of the same aggregate reach each subscriber in publish order and
+ * one at a time; events of different aggregates are handled concurrently.
+ *
+ * With an `EventTransport` registered under `EVENT_TRANSPORT`, published
+ * events are also sent to the buses of other processes, whose subscribers
+ * receive them like local ones. Middlewares only run in the publishing
+ * process.
+ *
+ * Handler calls run through the `OPERATION_INSTRUMENTER` when one is
+ * registered.
+ */
 @Injectable()
-export class EventBusService {
+export class EventBusService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(EventBusService.name);
   private readonly eventStream = new Subject<DomainEvent>();
-  private readonly handlers = new Map<string, EventHandler[]>();
+  private readonly subscribers = new Map<string, Subscriber>();
   private readonly middlewares: Array<(event: DomainEvent) => Promise<DomainEvent | null>> = [];
+  private readonly publishQueues = new Map<string, Promise<void>>();
+  private readonly deadLetterStore: DeadLetterStore;
+  private subscriptionCount = 0;
+  /** Identifies this bus on the transport. */
+  readonly nodeId = uuid();
+
+  constructor(
+    @Optional() @Inject(EVENT_DEAD_LETTER_STORE) deadLetterStore?: DeadLetterStore,
+    @Optional() private readonly contracts?: EventContractRegistry,
+    @Optional() @Inject(EVENT_TRANSPORT) private readonly transport?: EventTransport,
+    @Optional() @Inject(OPERATION_INSTRUMENTER) private readonly instrumenter?: OperationInstrumenter
+  ) {
+    this.deadLetterStore = deadLetterStore || new MemoryDeadLetterStore();
+    this.transport?.onMessage(message => this.receive(message));
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.transport?.connect();
+  }
 
-  publish(event: DomainEvent): void {
+  async onModuleDestroy(): Promise<void> {
+    await this.transport?.close();
+  }
+
+  /**
+   * Throws `EventValidationException` when the payload breaks the schema of
+   * its registered type.
+   */
+  publish(input: DomainEvent | AnyEvent): void {
+    const event = this.prepare(input);
     this.logger.debug(`Publishing event: ${event.type}`, { eventId: event.id });
-    
-    // Apply middlewares
-    this.applyMiddlewares(event)
-      .then(processedEvent => {
-        if (processedEvent) {
-          this.eventStream.next(processedEvent);
-        }
-      })
-      .catch(error => {
+
+    // Middlewares may be slow, so chain per aggregate to keep the publish order
+    this.enqueue(this.publishQueues, event.aggregateId, async () => {
+      let processedEvent: DomainEvent | null;
+      try {
+        processedEvent = await this.applyMiddlewares(event);
+      } catch (error) {
         this.logger.error(`Error processing event ${event.id}:`, error);
-      });
+        await this.deadLetter(MIDDLEWARE_SUBSCRIPTION, event, error, 1);
+        return;
+      }
+      if (processedEvent) {
+        this.eventStream.next(processedEvent);
+        await this.forward(processedEvent);
+      }
+    });
   }
 
-  publishMany(events: DomainEvent[]): void {
+  publishMany(events: Array<DomainEvent | AnyEvent>): void {
     events.forEach(event => this.publish(event));
   }
 
+  subscribe<K extends EventType>(
+    eventType: K,
+    handlerOrFn: EventHandler<TypedEvent<K>> | EventHandlerFn<TypedEvent<K>>,
+    options?: SubscriptionOptions
+  ): EventSubscription;
+  subscribe<T extends DomainEvent = DomainEvent>(
+    eventType: string,
+    handlerOrFn: EventHandler<T> | EventHandlerFn<T>,
+    options?: SubscriptionOptions
+  ): EventSubscription;
   subscribe<T extends DomainEvent>(
     eventType: string,
-    handler: EventHandler<T>
+    handlerOrFn: EventHandler<T> | EventHandlerFn<T>,
+    options: SubscriptionOptions = {}
   ): EventSubscription {
-    if (!this.handlers.has(eventType)) {
-      this.handlers.set(eventType, []);
-    }
-    
-    this.handlers.get(eventType)!.push(handler as EventHandler);
-    
-    const subscription = this.eventStream
-      .pipe(
+    return this.addSubscriber(
+      this.eventStream.pipe(
         filter(event => event.type === eventType),
         map(event => event as T)
-      )
-      .subscribe(async event => {
-        try {
-          await handler.handle(event);
-          this.logger.debug(`Event handled: ${event.type}`, { eventId: event.id });
-        } catch (error) {
-          this.logger.error(`Error handling event ${event.id}:`, error);
-        }
-      });
-
-    return {
-      unsubscribe: () => {
-        subscription.unsubscribe();
-        const handlers = this.handlers.get(eventType);
-        if (handlers) {
-          const index = handlers.indexOf(handler as EventHandler);
-          if (index > -1) {
-            handlers.splice(index, 1);
-          }
-        }
-      }
-    };
+      ),
+      handlerOrFn,
+      options.name || `${eventType}#${++this.subscriptionCount}`,
+      options
+    );
   }
 
-  subscribeToAll(handler: EventHandler): EventSubscription {
-    const subscription = this.eventStream.subscribe(async event => {
-      try {
-        await handler.handle(event);
-      } catch (error) {
-        this.logger.error(`Error in global handler for event ${event.id}:`, error);
-      }
-    });
-
-    return {
-      unsubscribe: () => subscription.unsubscribe()
-    };
+  subscribeToAll(handlerOrFn: EventHandler | EventHandlerFn, options: SubscriptionOptions = {}): EventSubscription {
+    return this.addSubscriber(
+      this.eventStream,
+      handlerOrFn,
+      options.name || `*#${++this.subscriptionCount}`,
+      options
+    );
   }
 
   addMiddleware(middleware: (event: DomainEvent) => Promise<DomainEvent | null>): void {
@@ -113,20 +203,257 @@ export class EventBusService {
     );
   }
 
+  async getDeadLetters(filter?: DeadLetterFilter): Promise<DeadLetter[]> {
+    return this.deadLetterStore.list(filter);
+  }
+
+  async removeDeadLetter(id: string): Promise<void> {
+    await this.deadLetterStore.remove(id);
+  }
+
+  /**
+   * Hands a dead-lettered event to its subscription again, with the same
+   * error policy, republishes it when a middleware rejected it, or resends
+   * it when the transport failed. Returns whether it was handled; a failure
+   * creates a new dead letter.
+   */
+  async replayDeadLetter(id: string): Promise<boolean> {
+    const letter = await this.deadLetterStore.get(id);
+    if (!letter) {
+      throw new Error(`Dead letter ${id} not found`);
+    }
+
+    if (letter.subscription === MIDDLEWARE_SUBSCRIPTION) {
+      await this.deadLetterStore.remove(id);
+      this.publish(letter.event);
+      return true;
+    }
+    if (letter.subscription === TRANSPORT_SUBSCRIPTION) {
+      await this.deadLetterStore.remove(id);
+      return this.forward(letter.event);
+    }
+
+    const subscriber = this.subscribers.get(letter.subscription);
+    if (!subscriber) {
+      throw new Error(`Subscription ${letter.subscription} of dead letter ${id} is not active`);
+    }
+
+    await this.deadLetterStore.remove(id);
+    return this.enqueue(subscriber.queues, letter.event.aggregateId, () => this.deliver(subscriber, letter.event));
+  }
+
+  /**
+   * Replays matching dead letters oldest first and returns how many were
+   * handled.
+   */
+  async replayDeadLetters(filter?: DeadLetterFilter): Promise<number> {
+    let handled = 0;
+    for (const letter of await this.deadLetterStore.list(filter)) {
+      if (await this.replayDeadLetter(letter.id)) handled++;
+    }
+    return handled;
+  }
+
+  /**
+   * Resolves once every event published so far has been handled or
+   * dead-lettered.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.publishQueues.values());
+    for (const subscriber of this.subscribers.values()) {
+      await Promise.all(subscriber.queues.values());
+    }
+  }
+
+  private addSubscriber<T extends DomainEvent>(
+    source: Observable<T>,
+    handlerOrFn: EventHandler<T> | EventHandlerFn<T>,
+    name: string,
+    options: SubscriptionOptions
+  ): EventSubscription {
+    if (this.subscribers.has(name)) {
+      throw new Error(`Subscription ${name} already exists`);
+    }
+
+    const subscriber: Subscriber = {
+      name,
+      handler: this.toHandler(handlerOrFn),
+      options: { ...DEFAULT_SUBSCRIPTION_OPTIONS, ...this.definedOptions(options) },
+      queues: new Map(),
+      stopped: false,
+    };
+    this.subscribers.set(name, subscriber);
+
+    subscriber.subscription = source.subscribe(event => {
+      this.enqueue(subscriber.queues, event.aggregateId, () => this.deliver(subscriber, event));
+    });
+
+    return {
+      name,
+      unsubscribe: () => this.removeSubscriber(subscriber),
+    };
+  }
+
+  private removeSubscriber(subscriber: Subscriber): void {
+    subscriber.stopped = true;
+    subscriber.subscription?.unsubscribe();
+    if (this.subscribers.get(subscriber.name) === subscriber) {
+      this.subscribers.delete(subscriber.name);
+    }
+  }
+
+  /**
+   * Runs the handler with retries and applies the error policy once the
+   * attempts are used up. Never rejects.
+   */
+  private async deliver(subscriber: Subscriber, event: DomainEvent): Promise<boolean> {
+    const { options } = subscriber;
+
+    for (let attempt = 1; !subscriber.stopped; attempt++) {
+      try {
+        await this.handle(subscriber, event, attempt);
+        this.logger.debug(`Event handled: ${event.type}`, { eventId: event.id, subscription: subscriber.name });
+        return true;
+      } catch (error) {
+        if (attempt < options.maxAttempts) {
+          this.logger.warn(`Subscription ${subscriber.name} failed on event ${event.id} (attempt ${attempt}/${options.maxAttempts}), retrying`);
+          await this.sleep(this.retryDelay(options, attempt));
+          continue;
+        }
+
+        this.logger.error(`Error handling event ${event.id} in subscription ${subscriber.name}:`, error);
+        if (options.onError !== 'ignore') {
+          await this.deadLetter(subscriber.name, event, error, attempt);
+        }
+        if (options.onError === 'stop') {
+          this.logger.warn(`Subscription ${subscriber.name} stopped after a failure`);
+          this.removeSubscriber(subscriber);
+        }
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private async handle(subscriber: Subscriber, event: DomainEvent, attempt: number): Promise<void> {
+    if (!this.instrumenter) {
+      await subscriber.handler.handle(event);
+      return;
+    }
+
+    await this.instrumenter.instrument(
+      {
+        component: 'event_bus',
+        operation: 'handle',
+        target: event.type,
+        attributes: { 'event.id': event.id, 'event.subscription': subscriber.name, 'event.attempt': attempt },
+      },
+      async () => subscriber.handler.handle(event)
+    );
+  }
+
+  private async forward(event: DomainEvent): Promise<boolean> {
+    if (!this.transport) return true;
+
+    const message: TransportMessage = { origin: this.nodeId, event };
+    try {
+      await this.transport.publish(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      this.logger.error(`Error sending event ${event.id} to the transport:`, error);
+      await this.deadLetter(TRANSPORT_SUBSCRIPTION, event, error, 1);
+      return false;
+    }
+  }
+
+  private receive(raw: string): void {
+    let message: TransportMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.logger.warn('Dropping malformed transport message');
+      return;
+    }
+    if (message.origin === this.nodeId || !message.event) return;
+
+    const received = { ...message.event, occurredOn: new Date(message.event.occurredOn) };
+    const event = this.contracts ? this.contracts.upcast(received) : received;
+    this.enqueue(this.publishQueues, event.aggregateId, async () => {
+      this.eventStream.next(event);
+    });
+  }
+
+  private prepare(input: DomainEvent | AnyEvent): DomainEvent {
+    if (!this.contracts) {
+      return EventEnvelopeUtils.normalize(input);
+    }
+    const event = this.contracts.upcast(this.contracts.normalize(input));
+    this.contracts.validate(event);
+    return event;
+  }
+
+  private async deadLetter(subscription: string, event: DomainEvent, error: unknown, attempts: number): Promise<void> {
+    try {
+      await this.deadLetterStore.add({
+        id: `dlq_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        subscription,
+        event,
+        error: error instanceof Error ? error.message : String(error),
+        attempts,
+        failedAt: new Date(),
+      });
+    } catch (storeError) {
+      this.logger.error(`Failed to dead-letter event ${event.id}:`, storeError);
+    }
+  }
+
+  /**
+   * Runs `task` after the previous task queued under `key`.
+   */
+  private enqueue<R>(queues: Map<string, Promise<R>>, key: string, task: () => Promise<R>): Promise<R> {
+    const previous = queues.get(key);
+    const next = previous ? previous.then(task, task) : task();
+    queues.set(key, next);
+    const cleanup = () => {
+      if (queues.get(key) === next) queues.delete(key);
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  private retryDelay(options: Subscriber['options'], attempt: number): number {
+    return Math.min(options.retryDelay * Math.pow(options.backoffMultiplier, attempt - 1), options.maxRetryDelay);
+  }
+
+  private definedOptions(options: SubscriptionOptions): Partial<Subscriber['options']> {
+    const { name, ...rest } = options;
+    return Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
   private async applyMiddlewares(event: DomainEvent): Promise<DomainEvent | null> {
     let processedEvent: DomainEvent | null = event;
-    
+
     for (const middleware of this.middlewares) {
       if (processedEvent) {
         processedEvent = await middleware(processedEvent);
       }
     }
-    
+
     return processedEvent;
   }
 
+  private toHandler<T extends DomainEvent>(handler: EventHandler<T> | EventHandlerFn<T>): EventHandler<T> {
+    return typeof handler === 'function' ? { handle: handler } : handler;
+  }
+
   clear(): void {
-    this.handlers.clear();
+    for (const subscriber of Array.from(this.subscribers.values())) {
+      this.removeSubscriber(subscriber);
+    }
     this.middlewares.length = 0;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { validateSync, ValidationError } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { AnyEvent, EventEnvelope } from '../interfaces/event-envelope.interface';
+import { EventContract, EventPayloadSchema } from '../interfaces/event-contract.interface';
+import { EventValidationException, MissingUpcasterException } from '../exceptions/core.exceptions';
+import { EventEnvelopeUtils } from '../utils/event-envelope.utils';
+
+/**
+ * Event types with their payload schema and version. Events of a
+ * registered type published without a schema version get the current one;
+ * older events are upcast one version at a time when they are read back.
+ */
+@Injectable()
+export class EventContractRegistry {
+  private readonly contracts = new Map<string, EventContract>();
+
+  register(contract: EventContract): void {
+    for (let version = 1; version < contract.schemaVersion; version++) {
+      if (!contract.upcasters?.[version]) {
+        throw new MissingUpcasterException(contract.type, version);
+      }
+    }
+    this.contracts.set(contract.type, contract);
+  }
+
+  get(type: string): EventContract | undefined {
+    return this.contracts.get(type);
+  }
+
+  getSchemaVersion(type: string): number | undefined {
+    return this.contracts.get(type)?.schemaVersion;
+  }
+
+  /**
+   * Normalizes an event, stamping the current schema version of its type
+   * when it has none.
+   */
+  normalize(event: AnyEvent): EventEnvelope {
+    return EventEnvelopeUtils.normalize(event, type => this.getSchemaVersion(type));
+  }
+
+  /**
+   * Brings an event to the current schema version of its type. Events of
+   * unregistered types, and events newer than the contract, are returned
+   * unchanged.
+   */
+  upcast<T extends EventEnvelope>(event: T): T {
+    const contract = this.contracts.get(event.type);
+    let version = event.schemaVersion ?? 1;
+    if (!contract || version >= contract.schemaVersion) return event;
+
+    let data = event.data;
+    for (; version < contract.schemaVersion; version++) {
+      const upcaster = contract.upcasters?.[version];
+      if (!upcaster) {
+        throw new MissingUpcasterException(event.type, version);
+      }
+      data = upcaster(data, event);
+    }
+    return { ...event, data, schemaVersion: version };
+  }
+
+  /**
+   * Throws `EventValidationException` when the payload does not match the
+   * schema of its type. Only events at the current version are checked.
+   */
+  validate(event: Pick<EventEnvelope, 'type' | 'schemaVersion' | 'data'>): void {
+    const contract = this.contracts.get(event.type);
+    if (!contract?.schema || (event.schemaVersion ?? 1) !== contract.schemaVersion) return;
+
+    const errors = contract.schema.validate(event.data);
+    if (errors.length > 0) {
+      throw new EventValidationException(event.type, contract.schemaVersion, errors);
+    }
+  }
+
+  /**
+   * Schema backed by a class-validator decorated class.
+   */
+  static classSchema(type: new (...args: any[]) => object): EventPayloadSchema {
+    return {
+      validate: data => {
+        if (typeof data !== 'object' || data === null) {
+          return ['payload must be an object'];
+        }
+        return this.flattenErrors(validateSync(plainToInstance(type, data)));
+      },
+    };
+  }
+
+  private static flattenErrors(errors: ValidationError[]): string[] {
+    return errors.flatMap(error => [
+      ...Object.values(error.constraints || {}),
+      ...this.flattenErrors(error.children || []),
+    ]);
+  }
+}
@@ -0,0 +1,27 @@
+import { DeadLetter, DeadLetterFilter, DeadLetterStore } from '../interfaces/dead-letter.interface';
+
+/**
+ * Default `DeadLetterStore`; entries are lost on restart.
+ */
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  private readonly letters = new Map<string, DeadLetter>();
+
+  async add(letter: DeadLetter): Promise<void> {
+    this.letters.set(letter.id, letter);
+  }
+
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+    return Array.from(this.letters.values()).filter(letter =>
+      (!filter.subscription || letter.subscription === filter.subscription) &&
+      (!filter.eventType || letter.event.type === filter.eventType)
+    );
+  }
+
+  async get(id: string): Promise<DeadLetter | null> {
+    return this.letters.get(id) || null;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.letters.delete(id);
+  }
+}
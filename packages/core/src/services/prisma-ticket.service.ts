@@ -1,5 +1,7 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Optional } from '@nestjs/common';
 import { TicketService } from './ticket.service';
+import { EventBusService } from './event-bus.service';
+import { EVENT_OUTBOX, EventOutbox } from '../interfaces/outbox.interface';
 import { TicketEntity, TicketFilter, TicketStats, Result } from '../index';
 
 export interface IPrismaClient {
@@ -12,17 +14,26 @@ export interface IPrismaClient {
     count(args: any): Promise<number>;
     groupBy(args: any): Promise<any>;
   };
+  $transaction?<T>(work: (tx: any) => Promise<T>): Promise<T>;
 }
 
 @Injectable()
 export class PrismaTicketService extends TicketService {
-  constructor(private readonly prisma: IPrismaClient) {
-    super('PrismaTicketService');
+  constructor(
+    private readonly prisma: IPrismaClient,
+    @Optional() eventBus?: EventBusService,
+    @Optional() @Inject(EVENT_OUTBOX) outbox?: EventOutbox
+  ) {
+    super('PrismaTicketService', eventBus, outbox);
   }
 
-  protected async persistTicket(ticket: TicketEntity): Promise<Result<TicketEntity>> {
+  protected async transaction<T>(work: (tx?: unknown) => Promise<T>): Promise<T> {
+    return this.prisma.$transaction ? this.prisma.$transaction(tx => work(tx)) : work();
+  }
+
+  protected async persistTicket(ticket: TicketEntity, tx?: unknown): Promise<Result<TicketEntity>> {
     try {
-      const data = await this.prisma.ticket.create({
+      const data = await this.client(tx).ticket.create({
         data: {
           id: ticket.id,
           title: ticket.title,
@@ -70,9 +81,9 @@ export class PrismaTicketService extends TicketService {
     }
   }
 
-  protected async updateTicket(ticket: TicketEntity): Promise<Result<TicketEntity>> {
+  protected async updateTicket(ticket: TicketEntity, tx?: unknown): Promise<Result<TicketEntity>> {
     try {
-      const data = await this.prisma.ticket.update({
+      const data = await this.client(tx).ticket.update({
         where: { id: ticket.id },
         data: {
           title: ticket.title,
@@ -153,6 +164,10 @@ export class PrismaTicketService extends TicketService {
     }
   }
 
+  private client(tx?: unknown): IPrismaClient {
+    return (tx as IPrismaClient | undefined) || this.prisma;
+  }
+
   private mapToEntity(data: any): TicketEntity {
     return new TicketEntity({
       title: data.title,
@@ -1,5 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { BaseService } from './base.service';
+import { EventBusService } from './event-bus.service';
+import { DomainEventDispatcher } from '../domain/domain-event-dispatcher';
+import { EventOutbox } from '../interfaces/outbox.interface';
 import { Result } from '../common/result';
 import { TicketEntity, TicketStatus, TicketPriority, TicketProps } from '../domain/ticket.entity';
 
@@ -31,11 +34,18 @@ export interface CreateTicketData {
 
 @Injectable()
 export abstract class TicketService extends BaseService {
-  // Abstract methods to be implemented by infrastructure layer
-  protected abstract persistTicket(ticket: TicketEntity): Promise<Result<TicketEntity>>;
+  protected readonly eventDispatcher: DomainEventDispatcher;
+
+  constructor(serviceName: string, eventBus?: EventBusService, private readonly outbox?: EventOutbox) {
+    super(serviceName);
+    this.eventDispatcher = new DomainEventDispatcher(eventBus);
+  }
+
+  // Abstract methods to be implemented by infrastructure layer; `tx` is the transaction client from `transaction`
+  protected abstract persistTicket(ticket: TicketEntity, tx?: unknown): Promise<Result<TicketEntity>>;
   protected abstract findTicketById(id: string): Promise<Result<TicketEntity | null>>;
   protected abstract findTickets(filter?: TicketFilter, pagination?: { page: number; limit: number }): Promise<Result<{ data: TicketEntity[]; total: number }>>;
-  protected abstract updateTicket(ticket: TicketEntity): Promise<Result<TicketEntity>>;
+  protected abstract updateTicket(ticket: TicketEntity, tx?: unknown): Promise<Result<TicketEntity>>;
   protected abstract deleteTicket(id: string): Promise<Result<void>>;
   protected abstract getTicketStatistics(filter?: TicketFilter): Promise<Result<TicketStats>>;
   protected abstract searchTickets(query: string, options?: { page?: number; limit?: number }): Promise<Result<{ data: TicketEntity[]; total: number }>>;
@@ -51,7 +61,7 @@ export abstract class TicketService extends BaseService {
         dueDate: data.dueDate
       });
 
-      const result = await this.persistTicket(ticket);
+      const result = await this.saveWithEvents(ticket, tx => this.persistTicket(ticket, tx));
       
       if (result.isSuccess) {
         console.log(`Ticket created: ${ticket.id}`);
@@ -84,7 +94,7 @@ export abstract class TicketService extends BaseService {
       const ticket = ticketResult.value;
       ticket.assign(assigneeId);
 
-      const result = await this.updateTicket(ticket);
+      const result = await this.saveWithEvents(ticket, tx => this.updateTicket(ticket, tx));
       
       if (result.isSuccess) {
         console.log(`Ticket ${ticketId} assigned to ${assigneeId} by ${assignedBy}`);
@@ -113,7 +123,7 @@ export abstract class TicketService extends BaseService {
 
       ticket.updateStatus(newStatus);
 
-      const result = await this.updateTicket(ticket);
+      const result = await this.saveWithEvents(ticket, tx => this.updateTicket(ticket, tx));
       
       if (result.isSuccess) {
         console.log(`Ticket ${ticketId} status updated to ${newStatus} by ${userId}`);
@@ -171,4 +181,34 @@ export abstract class TicketService extends BaseService {
       return Result.fail(`Failed to search tickets: ${error.message}`);
     }
   }
+
+  /**
+   * Runs `work` in a database transaction. Drivers without transactions run
+   * it directly.
+   */
+  protected async transaction<T>(work: (tx?: unknown) => Promise<T>): Promise<T> {
+    return work();
+  }
+
+  /**
+   * Writes the ticket and, with an outbox, stores its domain events in the
+   * same transaction. Without one they are published once the write succeeds.
+   */
+  private async saveWithEvents(
+    ticket: TicketEntity,
+    write: (tx?: unknown) => Promise<Result<TicketEntity>>
+  ): Promise<Result<TicketEntity>> {
+    const outbox = this.outbox;
+    if (!outbox) {
+      const result = await write();
+      if (result.isSuccess) await this.eventDispatcher.dispatch(ticket);
+      return result;
+    }
+
+    return this.transaction(async tx => {
+      const result = await write(tx);
+      if (result.isSuccess) await this.eventDispatcher.dispatch(ticket, events => outbox.add(events, tx));
+      return result;
+    });
+  }
 }
\ No newline at end of file
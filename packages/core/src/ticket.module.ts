@@ -1,6 +1,7 @@
 import { Module, DynamicModule } from '@nestjs/common';
 import { PrismaTicketService, IPrismaClient } from './services/prisma-ticket.service';
 import { TicketService } from './services/ticket.service';
+import { EventBusService } from './services/event-bus.service';
 
 export interface TicketModuleOptions {
   global?: boolean;
@@ -20,8 +21,8 @@ export class TicketModule {
         },
         {
           provide: TicketService,
-          useFactory: (prisma: IPrismaClient) => new PrismaTicketService(prisma),
-          inject: ['PRISMA_CLIENT']
+          useFactory: (prisma: IPrismaClient, eventBus?: EventBusService) => new PrismaTicketService(prisma, eventBus),
+          inject: ['PRISMA_CLIENT', { token: EventBusService, optional: true }]
         }
       );
     }
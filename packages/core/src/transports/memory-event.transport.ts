@@ -0,0 +1,53 @@
+import { EventTransport } from '../interfaces/event-transport.interface';
+
+/**
+ * Shared medium of `MemoryEventTransport`s. Buses whose transports use the
+ * same network behave like separate processes on one broker.
+ */
+export class MemoryEventNetwork {
+  private readonly members = new Set<MemoryEventTransport>();
+
+  join(member: MemoryEventTransport): void {
+    this.members.add(member);
+  }
+
+  leave(member: MemoryEventTransport): void {
+    this.members.delete(member);
+  }
+
+  broadcast(message: string): void {
+    // Delivered asynchronously like a real broker
+    for (const member of this.members) {
+      queueMicrotask(() => member.deliver(message));
+    }
+  }
+}
+
+/**
+ * In-memory loopback transport for tests.
+ */
+export class MemoryEventTransport implements EventTransport {
+  private handler?: (message: string) => void;
+
+  constructor(private readonly network: MemoryEventNetwork = new MemoryEventNetwork()) {}
+
+  async connect(): Promise<void> {
+    this.network.join(this);
+  }
+
+  async publish(message: string): Promise<void> {
+    this.network.broadcast(message);
+  }
+
+  onMessage(handler: (message: string) => void): void {
+    this.handler = handler;
+  }
+
+  async close(): Promise<void> {
+    this.network.leave(this);
+  }
+
+  deliver(message: string): void {
+    this.handler?.(message);
+  }
+}
@@ -0,0 +1,46 @@
+import { EventTransport } from '../interfaces/event-transport.interface';
+
+/**
+ * The part of a node-redis v4 client the transport uses.
+ */
+export interface IRedisPubSubClient {
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(channel: string, listener: (message: string, channel: string) => void): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+}
+
+/**
+ * Transport over Redis pub/sub, or any server speaking its protocol.
+ * Redis needs a dedicated connection for subscribing, so pass a connected
+ * client and a connected duplicate of it; both stay owned by the caller.
+ */
+export class RedisEventTransport implements EventTransport {
+  private handler?: (message: string) => void;
+  private subscribed = false;
+
+  constructor(
+    private readonly publisher: IRedisPubSubClient,
+    private readonly subscriber: IRedisPubSubClient,
+    private readonly channel: string = 'events'
+  ) {}
+
+  async connect(): Promise<void> {
+    if (this.subscribed) return;
+    await this.subscriber.subscribe(this.channel, message => this.handler?.(message));
+    this.subscribed = true;
+  }
+
+  async publish(message: string): Promise<void> {
+    await this.publisher.publish(this.channel, message);
+  }
+
+  onMessage(handler: (message: string) => void): void {
+    this.handler = handler;
+  }
+
+  async close(): Promise<void> {
+    if (!this.subscribed) return;
+    this.subscribed = false;
+    await this.subscriber.unsubscribe(this.channel);
+  }
+}
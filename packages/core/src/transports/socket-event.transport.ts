@@ -0,0 +1,219 @@
+import * as net from 'net';
+import { EventTransport } from '../interfaces/event-transport.interface';
+import { Logger } from '../common/logger';
+
+/**
+ * A Unix socket `path`, or a TCP `host` and `port`.
+ */
+export interface SocketEndpoint {
+  path?: string;
+  host?: string;
+  port?: number;
+}
+
+export interface SocketEventTransportOptions extends SocketEndpoint {
+  /** Milliseconds between reconnection attempts. Defaults to 1000. */
+  reconnectDelay?: number;
+  /** Messages kept while disconnected; publishing fails beyond it. Defaults to 10000. */
+  maxBufferedMessages?: number;
+}
+
+/**
+ * Splits a stream of newline-delimited messages, keeping a partial last
+ * line until the rest arrives.
+ */
+class LineReader {
+  private buffer = '';
+
+  constructor(private readonly onLine: (line: string) => void) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 1);
+      if (line) this.onLine(line);
+    }
+  }
+
+  reset(): void {
+    this.buffer = '';
+  }
+}
+
+/**
+ * Minimal broker for `SocketEventTransport`: every line a client sends is
+ * forwarded to all connected clients. Run it inside one of the services or
+ * as its own process; it keeps nothing for clients that are offline.
+ */
+export class SocketEventHub {
+  private server?: net.Server;
+  private readonly clients = new Set<net.Socket>();
+
+  constructor(private readonly endpoint: SocketEndpoint) {}
+
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = net.createServer(socket => this.accept(socket));
+      server.once('error', reject);
+      const onListening = () => {
+        server.off('error', reject);
+        resolve();
+      };
+      if (this.endpoint.path) {
+        server.listen(this.endpoint.path, onListening);
+      } else {
+        server.listen(this.endpoint.port ?? 0, this.endpoint.host, onListening);
+      }
+      this.server = server;
+    });
+  }
+
+  /**
+   * The bound address, useful with port 0.
+   */
+  address(): string | net.AddressInfo | null {
+    return this.server?.address() ?? null;
+  }
+
+  get connections(): number {
+    return this.clients.size;
+  }
+
+  close(): Promise<void> {
+    this.clients.forEach(client => client.destroy());
+    this.clients.clear();
+    const server = this.server;
+    this.server = undefined;
+    return new Promise(resolve => (server ? server.close(() => resolve()) : resolve()));
+  }
+
+  private accept(socket: net.Socket): void {
+    const reader = new LineReader(line => this.broadcast(line));
+    this.clients.add(socket);
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => reader.push(chunk));
+    socket.on('close', () => this.clients.delete(socket));
+    socket.on('error', () => socket.destroy());
+  }
+
+  private broadcast(line: string): void {
+    for (const client of this.clients) {
+      client.write(`${line}\n`);
+    }
+  }
+}
+
+/**
+ * Transport over a TCP or Unix socket connection to a `SocketEventHub`.
+ * Reconnects after a lost connection, or a failed first `connect`, and
+ * buffers messages meanwhile; `connect` resolves either way, so an
+ * unreachable hub does not stop the app from starting. Events published by
+ * other processes during the outage are not received.
+ */
+export class SocketEventTransport implements EventTransport {
+  private readonly logger = new Logger(SocketEventTransport.name);
+  private socket?: net.Socket;
+  private connected = false;
+  private closed = false;
+  private reconnectTimer?: NodeJS.Timeout;
+  private readonly pending: string[] = [];
+  private readonly reader = new LineReader(line => this.handler?.(line));
+  private handler?: (message: string) => void;
+
+  constructor(private readonly options: SocketEventTransportOptions) {}
+
+  async connect(): Promise<void> {
+    this.closed = false;
+    if (this.connected) return;
+    clearTimeout(this.reconnectTimer);
+    try {
+      await this.open();
+    } catch (error) {
+      // The failed socket has scheduled a retry; publishing buffers meanwhile
+      this.logger.warn(`Event transport could not connect, retrying: ${(error as Error).message}`);
+    }
+  }
+
+  publish(message: string): Promise<void> {
+    if (!this.connected || !this.socket) {
+      if (this.pending.length >= (this.options.maxBufferedMessages ?? 10000)) {
+        return Promise.reject(new Error('Event transport is disconnected and its buffer is full'));
+      }
+      this.pending.push(message);
+      return Promise.resolve();
+    }
+    return this.write(this.socket, message);
+  }
+
+  onMessage(handler: (message: string) => void): void {
+    this.handler = handler;
+  }
+
+  close(): Promise<void> {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    const socket = this.socket;
+    if (!socket || socket.destroyed) return Promise.resolve();
+
+    return new Promise(resolve => {
+      socket.once('close', () => resolve());
+      socket.end();
+    });
+  }
+
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.path
+        ? net.createConnection(this.options.path)
+        : net.createConnection(this.options.port ?? 0, this.options.host);
+      this.socket = socket;
+      socket.setEncoding('utf8');
+
+      socket.once('connect', () => {
+        this.connected = true;
+        this.reader.reset();
+        this.flushPending(socket);
+        resolve();
+      });
+      socket.on('data', (chunk: string) => this.reader.push(chunk));
+      socket.on('error', error => {
+        if (!this.connected) reject(error);
+      });
+      socket.on('close', () => {
+        this.connected = false;
+        if (!this.closed && this.socket === socket) {
+          this.reconnectTimer = setTimeout(
+            // A failed attempt closes its socket, which schedules the next one
+            () => this.open().catch(error => this.logger.debug(`Event transport reconnect failed: ${error.message}`)),
+            this.options.reconnectDelay ?? 1000
+          );
+          this.reconnectTimer.unref();
+        }
+      });
+    });
+  }
+
+  /**
+   * Sends the messages buffered while disconnected. Failed writes go back to
+   * the front of the buffer, in order, for the next connection.
+   */
+  private flushPending(socket: net.Socket): void {
+    let failed = 0;
+    for (const message of this.pending.splice(0)) {
+      this.write(socket, message).catch(error => {
+        if (failed === 0) {
+          this.logger.warn(`Failed to send buffered events, keeping them for the next connection: ${error.message}`);
+        }
+        this.pending.splice(failed++, 0, message);
+      });
+    }
+  }
+
+  private write(socket: net.Socket, message: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      socket.write(`${message}\n`, error => (error ? reject(error) : resolve()));
+    });
+  }
+}
@@ -0,0 +1,348 @@
+import { Logger } from '../common/logger';
+
+export interface CronOptions {
+  /** IANA time zone such as `Europe/Paris`; defaults to the process local time. */
+  timezone?: string;
+}
+
+interface CronField {
+  min: number;
+  max: number;
+  aliases?: string[];
+}
+
+const SECOND: CronField = { min: 0, max: 59 };
+const MINUTE: CronField = { min: 0, max: 59 };
+const HOUR: CronField = { min: 0, max: 23 };
+const DAY_OF_MONTH: CronField = { min: 1, max: 31 };
+const MONTH: CronField = {
+  min: 1,
+  max: 12,
+  aliases: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+};
+const DAY_OF_WEEK: CronField = {
+  min: 0,
+  max: 7,
+  aliases: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+};
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Give up when no matching time exists within this many years (e.g. `0 0 30 2 *`)
+const MAX_SEARCH_YEARS = 8;
+// setTimeout overflows above 2^31 - 1 ms
+const MAX_TIMER_DELAY = 2147483647;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parsed cron expression supporting 5-field (minute precision) and 6-field
+ * (leading seconds) syntax with ranges, steps, lists, month/day names and
+ * `@daily`-style macros. When both day-of-month and day-of-week are
+ * restricted, a time matches if either does, as in Vixie cron.
+ */
+export class CronExpression {
+  private constructor(
+    readonly source: string,
+    private readonly seconds: Set<number>,
+    private readonly minutes: Set<number>,
+    private readonly hours: Set<number>,
+    private readonly daysOfMonth: Set<number>,
+    private readonly months: Set<number>,
+    private readonly daysOfWeek: Set<number>,
+    private readonly domRestricted: boolean,
+    private readonly dowRestricted: boolean,
+    private readonly timezone?: string
+  ) {}
+
+  static parse(expression: string, options: CronOptions = {}): CronExpression {
+    const source = expression.trim();
+    const expanded = MACROS[source.toLowerCase()] || source;
+    const parts = expanded.split(/\s+/);
+
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 or 6 fields, got ${parts.length}`);
+    }
+    if (options.timezone) {
+      CronExpression.assertTimezone(options.timezone);
+    }
+
+    const [second, minute, hour, dom, month, dow] = parts.length === 6 ? parts : ['0', ...parts];
+
+    const daysOfWeek = CronExpression.parseField(dow, DAY_OF_WEEK, expression);
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.delete(7);
+      daysOfWeek.add(0);
+    }
+
+    return new CronExpression(
+      source,
+      CronExpression.parseField(second, SECOND, expression),
+      CronExpression.parseField(minute, MINUTE, expression),
+      CronExpression.parseField(hour, HOUR, expression),
+      CronExpression.parseField(dom, DAY_OF_MONTH, expression),
+      CronExpression.parseField(month, MONTH, expression),
+      daysOfWeek,
+      !CronExpression.isWildcard(dom),
+      !CronExpression.isWildcard(dow),
+      options.timezone
+    );
+  }
+
+  static isValid(expression: string, options: CronOptions = {}): boolean {
+    try {
+      CronExpression.parse(expression, options);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Returns the first fire time strictly after `after`.
+   */
+  next(after: Date = new Date()): Date {
+    let wall = this.toWallTime(Math.floor(after.getTime() / 1000) * 1000) + 1000;
+
+    // A wall time can map before `after` across a DST fall-back, so keep searching
+    for (;;) {
+      const candidate = this.findWallTime(wall);
+      const instant = this.fromWallTime(candidate);
+      if (instant > after.getTime()) {
+        return new Date(instant);
+      }
+      wall = candidate + 1000;
+    }
+  }
+
+  nextRuns(count: number, after: Date = new Date()): Date[] {
+    const runs: Date[] = [];
+    let cursor = after;
+    for (let i = 0; i < count; i++) {
+      cursor = this.next(cursor);
+      runs.push(cursor);
+    }
+    return runs;
+  }
+
+  /**
+   * Searches forward from a wall-clock time encoded as UTC milliseconds.
+   */
+  private findWallTime(from: number): number {
+    const date = new Date(from);
+    const limitYear = date.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (date.getUTCFullYear() <= limitYear) {
+      if (!this.months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+      if (!this.seconds.has(date.getUTCSeconds())) {
+        date.setUTCSeconds(date.getUTCSeconds() + 1, 0);
+        continue;
+      }
+      return date.getTime();
+    }
+
+    throw new Error(`Cron expression "${this.source}" has no fire time within ${MAX_SEARCH_YEARS} years`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const domMatch = this.daysOfMonth.has(date.getUTCDate());
+    const dowMatch = this.daysOfWeek.has(date.getUTCDay());
+
+    if (this.domRestricted && this.dowRestricted) {
+      return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+  }
+
+  private toWallTime(instant: number): number {
+    return instant + this.offsetAt(instant);
+  }
+
+  /**
+   * Ambiguous wall times (DST fall-back) resolve to their first occurrence;
+   * skipped ones (DST spring-forward) move forward by the size of the gap.
+   */
+  private fromWallTime(wall: number): number {
+    // Offsets change at most once a day, so these are the ones before and after any transition near `wall`
+    const offsets = [this.offsetAt(wall - DAY_MS), this.offsetAt(wall + DAY_MS)];
+
+    const valid = offsets.filter(offset => this.toWallTime(wall - offset) === wall);
+    if (valid.length > 0) {
+      return wall - Math.max(...valid);
+    }
+    return wall - Math.min(...offsets);
+  }
+
+  /**
+   * Offset of the configured time zone from UTC, in milliseconds, at an instant.
+   */
+  private offsetAt(instant: number): number {
+    if (!this.timezone) {
+      return -new Date(instant).getTimezoneOffset() * 60 * 1000;
+    }
+
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(new Date(instant));
+
+    const value = (type: string) => Number(parts.find(part => part.type === type)!.value);
+    const wall = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+    return wall - Math.floor(instant / 1000) * 1000;
+  }
+
+  private static parseField(field: string, spec: CronField, expression: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const item of field.split(',')) {
+      const [rangePart, stepPart] = item.split('/');
+      const step = stepPart === undefined ? 1 : Number(stepPart);
+
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid cron expression "${expression}": bad step in "${item}"`);
+      }
+
+      let start: number;
+      let end: number;
+
+      if (rangePart === '*' || rangePart === '?') {
+        start = spec.min;
+        end = spec === DAY_OF_WEEK ? 6 : spec.max;
+      } else if (rangePart.includes('-')) {
+        const [from, to] = rangePart.split('-');
+        start = CronExpression.parseValue(from, spec, expression);
+        end = CronExpression.parseValue(to, spec, expression);
+      } else {
+        start = CronExpression.parseValue(rangePart, spec, expression);
+        // `5/15` means "from 5 every 15"
+        end = stepPart === undefined ? start : spec.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid cron expression "${expression}": range "${rangePart}" is reversed`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private static parseValue(token: string, spec: CronField, expression: string): number {
+    const alias = spec.aliases?.indexOf(token.toUpperCase()) ?? -1;
+    const value = alias >= 0 ? alias + (spec === MONTH ? 1 : 0) : Number(token);
+
+    if (token === '' || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+      throw new Error(`Invalid cron expression "${expression}": "${token}" is out of range ${spec.min}-${spec.max}`);
+    }
+    return value;
+  }
+
+  private static isWildcard(field: string): boolean {
+    return field === '*' || field === '?';
+  }
+
+  private static assertTimezone(timezone: string): void {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new Error(`Invalid time zone "${timezone}"`);
+    }
+  }
+}
+
+/**
+ * Runs a callback at every fire time of a cron expression until stopped.
+ */
+export class CronJob {
+  readonly expression: CronExpression;
+  private readonly logger = new Logger(CronJob.name);
+  private timer?: NodeJS.Timeout;
+  private nextRun?: Date;
+
+  constructor(
+    expression: string | CronExpression,
+    private readonly onTick: () => void | Promise<void>,
+    options: CronOptions = {}
+  ) {
+    this.expression = typeof expression === 'string' ? CronExpression.parse(expression, options) : expression;
+  }
+
+  start(): void {
+    this.stop();
+    this.arm(this.expression.next());
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.nextRun = undefined;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  getNextRun(): Date | undefined {
+    return this.nextRun;
+  }
+
+  getNextRuns(count: number): Date[] {
+    if (!this.nextRun) return this.expression.nextRuns(count);
+    return [this.nextRun, ...this.expression.nextRuns(count - 1, this.nextRun)].slice(0, count);
+  }
+
+  private arm(fireAt: Date): void {
+    this.nextRun = fireAt;
+    const delay = Math.max(0, fireAt.getTime() - Date.now());
+
+    this.timer = setTimeout(() => {
+      if (delay > MAX_TIMER_DELAY) {
+        this.arm(fireAt);
+        return;
+      }
+      this.arm(this.expression.next(fireAt));
+      Promise.resolve()
+        .then(() => this.onTick())
+        .catch(error =>
+          this.logger.error(`Cron job "${this.expression.source}" failed: ${error instanceof Error ? error.message : String(error)}`, {
+            stack: error instanceof Error ? error.stack : undefined,
+          })
+        );
+    }, Math.min(delay, MAX_TIMER_DELAY));
+  }
+}
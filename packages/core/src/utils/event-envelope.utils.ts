@@ -0,0 +1,123 @@
+import { v4 as uuid } from 'uuid';
+import {
+  AnyEvent,
+  EventEnvelope,
+  EventMetadata,
+  LegacyBusEvent,
+  LegacyPayloadEvent,
+} from '../interfaces/event-envelope.interface';
+
+export const DEFAULT_SCHEMA_VERSION = 1;
+
+export interface CreateEventOptions<T = any> {
+  type: string;
+  aggregateId: string;
+  aggregateType?: string;
+  data: T;
+  version?: number;
+  schemaVersion?: number;
+  metadata?: EventMetadata;
+}
+
+export class EventEnvelopeUtils {
+  /**
+   * Builds an envelope. When `cause` is given the new event joins its
+   * correlation and records it as the causation.
+   */
+  static create<T>(options: CreateEventOptions<T>, cause?: EventEnvelope): EventEnvelope<T> {
+    const id = uuid();
+    return {
+      id,
+      type: options.type,
+      aggregateId: options.aggregateId,
+      aggregateType: options.aggregateType || '',
+      version: options.version ?? 1,
+      schemaVersion: options.schemaVersion ?? DEFAULT_SCHEMA_VERSION,
+      occurredOn: new Date(),
+      data: options.data,
+      metadata: cause
+        ? { ...options.metadata, ...this.causedBy(cause) }
+        : { ...options.metadata, correlationId: options.metadata?.correlationId || id },
+    };
+  }
+
+  /**
+   * Metadata linking an event to the one that caused it.
+   */
+  static causedBy(cause: EventEnvelope): EventMetadata {
+    return {
+      correlationId: cause.metadata?.correlationId || cause.id,
+      causationId: cause.id,
+    };
+  }
+
+  /**
+   * Converts any supported event shape to the canonical envelope and fills
+   * in the schema version and a correlation id when missing. A missing
+   * schema version comes from `schemaVersionOf`, else defaults to 1.
+   */
+  static normalize(event: AnyEvent, schemaVersionOf?: (type: string) => number | undefined): EventEnvelope {
+    let envelope: EventEnvelope;
+
+    if (this.isLegacyBusEvent(event)) {
+      envelope = {
+        id: event.eventId,
+        type: event.eventType,
+        aggregateId: event.aggregateId,
+        aggregateType: event.metadata?.aggregateType || '',
+        version: event.version,
+        occurredOn: new Date(event.timestamp),
+        data: event.data,
+        metadata: event.metadata,
+      };
+    } else if (this.isLegacyPayloadEvent(event)) {
+      const { version: schemaVersion, ...metadata } = event.metadata || {};
+      envelope = {
+        id: event.id,
+        type: event.type,
+        aggregateId: event.aggregateId,
+        aggregateType: event.aggregateType,
+        version: event.version,
+        schemaVersion: Number(schemaVersion) || undefined,
+        occurredOn: new Date(event.timestamp),
+        data: event.payload,
+        metadata,
+      };
+    } else {
+      envelope = event;
+    }
+
+    if (envelope.schemaVersion !== undefined && envelope.metadata?.correlationId) {
+      return envelope;
+    }
+    return {
+      ...envelope,
+      schemaVersion: envelope.schemaVersion ?? schemaVersionOf?.(envelope.type) ?? DEFAULT_SCHEMA_VERSION,
+      metadata: { ...envelope.metadata, correlationId: envelope.metadata?.correlationId || envelope.id },
+    };
+  }
+
+  /**
+   * Converts an envelope to the shape of the old `@katarsaad/events` bus,
+   * for consumers that have not migrated yet.
+   */
+  static toLegacyBusEvent(event: EventEnvelope): LegacyBusEvent {
+    return {
+      eventId: event.id,
+      eventType: event.type,
+      aggregateId: event.aggregateId,
+      version: event.version,
+      timestamp: event.occurredOn,
+      data: event.data,
+      metadata: { ...event.metadata, aggregateType: event.aggregateType },
+    };
+  }
+
+  static isLegacyBusEvent(event: AnyEvent): event is LegacyBusEvent {
+    return 'eventType' in event && 'eventId' in event;
+  }
+
+  static isLegacyPayloadEvent(event: AnyEvent): event is LegacyPayloadEvent {
+    return 'payload' in event && !('data' in event);
+  }
+}
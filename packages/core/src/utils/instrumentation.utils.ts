@@ -0,0 +1,35 @@
+import { InstrumentedOperation, OperationInstrumenter } from '../interfaces/instrumentation.interface';
+
+export class InstrumentationUtils {
+  /**
+   * The metric target of a cache key: its prefix up to the first `:`, so
+   * `user:42` and `user:43` are counted together.
+   */
+  static cacheTarget(key: string): string {
+    const index = key.indexOf(':');
+    return index > 0 ? key.slice(0, index) : 'default';
+  }
+
+  /**
+   * Returns a proxy running every method call of `target` through the
+   * instrumenter, or `target` itself without one. Methods must return
+   * promises or thenables.
+   */
+  static instrumentMethods<T extends object>(
+    target: T,
+    describe: (method: string) => InstrumentedOperation,
+    instrumenter?: OperationInstrumenter
+  ): T {
+    if (!instrumenter) return target;
+
+    return new Proxy(target, {
+      get(object, property, receiver) {
+        const value = Reflect.get(object, property, receiver);
+        if (typeof value !== 'function' || typeof property !== 'string') return value;
+
+        return (...args: any[]) =>
+          instrumenter.instrument(describe(property), async () => value.apply(object, args));
+      },
+    });
+  }
+}
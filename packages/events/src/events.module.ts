@@ -1,25 +1,54 @@
-import { Module, Global } from '@nestjs/common';
-import { EventBusService } from './services/event-bus.service';
+import { Module, Global, DynamicModule } from '@nestjs/common';
 import { MessageQueueService } from './services/message-queue.service';
 import { EventStoreService } from './services/event-store.service';
 import { EventReplayService } from './services/event-replay.service';
+import { ProjectionService } from './services/projection.service';
+import { SagaService } from './services/saga.service';
+import { EVENT_STORE_DRIVER, EventStoreDriver } from './interfaces/event-store.interface';
 import { MonitoringModule } from '@katarsaad/monitoring';
 import { CoreModule } from '@katarsaad/core';
 
+export interface EventsModuleOptions {
+  eventStore?: EventStoreDriver;
+}
+
 @Global()
 @Module({
   imports: [MonitoringModule, CoreModule],
   providers: [
-    EventBusService,
     MessageQueueService,
     EventStoreService,
     EventReplayService,
+    ProjectionService,
+    SagaService,
   ],
   exports: [
-    EventBusService,
     MessageQueueService,
     EventStoreService,
     EventReplayService,
+    ProjectionService,
+    SagaService,
   ],
 })
-export class EventsModule {}
\ No newline at end of file
+export class EventsModule {
+  static forRoot(options: EventsModuleOptions = {}): DynamicModule {
+    return {
+      module: EventsModule,
+      providers: [
+        ...(options.eventStore ? [{ provide: EVENT_STORE_DRIVER, useValue: options.eventStore }] : []),
+        MessageQueueService,
+        EventStoreService,
+        EventReplayService,
+        ProjectionService,
+        SagaService,
+      ],
+      exports: [
+        MessageQueueService,
+        EventStoreService,
+        EventReplayService,
+        ProjectionService,
+        SagaService,
+      ],
+    };
+  }
+}
\ No newline at end of file
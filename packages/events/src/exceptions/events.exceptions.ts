@@ -0,0 +1,24 @@
+/**
+ * Thrown when appending to a stream whose current version differs from the
+ * version the writer expected, i.e. someone else wrote to it first.
+ */
+export class WrongExpectedVersionException extends Error {
+  constructor(
+    public readonly streamId: string,
+    public readonly expectedVersion: number | string,
+    public readonly actualVersion: number
+  ) {
+    super(`Wrong expected version for stream ${streamId}: expected ${expectedVersion}, actual ${actualVersion}`);
+    this.name = 'WrongExpectedVersionException';
+  }
+}
+
+/**
+ * Thrown when appending an event whose id is already recorded.
+ */
+export class DuplicateEventException extends Error {
+  constructor(public readonly eventId: string) {
+    super(`Event ${eventId} has already been recorded`);
+    this.name = 'DuplicateEventException';
+  }
+}
@@ -3,6 +3,19 @@ export * from './services/event-bus.service';
 export * from './services/message-queue.service';
 export * from './services/event-store.service';
 export * from './services/event-replay.service';
+export * from './services/projection.service';
+export * from './services/saga.service';
+export * from './services/timer-saga.scheduler';
+
+// Event store drivers
+export * from './stores/memory-event.store';
+export * from './stores/file-event.store';
+export * from './stores/prisma-event.store';
+
+// Message brokers
+
+// Exceptions
+export * from './exceptions/events.exceptions';
 
 // Decorators exports
 export * from './decorators/event-listener.decorator';
@@ -11,4 +24,43 @@ export * from './decorators/event-listener.decorator';
 export * from './events.module';
 
 // Types
-export type { DomainEvent, EventMetadata, EventHandler } from './interfaces/event.interface';
\ No newline at end of file
+export type { DomainEvent, EventEnvelope, EventMetadata, EventHandler } from './interfaces/event.interface';
+export { EVENT_STORE_DRIVER } from './interfaces/event-store.interface';
+export type {
+  EventStoreDriver,
+  EventData,
+  RecordedEvent,
+  StreamMetadata,
+  ExpectedVersion,
+  ReadDirection,
+} from './interfaces/event-store.interface';
+export type {
+  ProjectionDefinition,
+  ProjectionHandler,
+  ProjectionState,
+  ProjectionStatus,
+} from './interfaces/projection.interface';
+export { MESSAGE_BROKER } from './interfaces/message-broker.interface';
+export type {
+  MessageBroker,
+  Message,
+  Delivery,
+  MessageHandler,
+  MessageConsumer,
+  PublishOptions,
+  ConsumeOptions,
+  ReceiveOptions,
+} from './interfaces/message-broker.interface';
+export { SAGA_SCHEDULER } from './interfaces/saga.interface';
+export type {
+  SagaDefinition,
+  SagaContext,
+  SagaInstance,
+  SagaStatus,
+  SagaCommand,
+  SagaCommandHandler,
+  SagaEventHandler,
+  SagaTimeoutHandler,
+  SagaTimeout,
+  SagaScheduler,
+} from './interfaces/saga.interface';
\ No newline at end of file
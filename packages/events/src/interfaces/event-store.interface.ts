@@ -0,0 +1,59 @@
+import type { EventEnvelope, EventMetadata } from '@katarsaad/core';
+
+export const EVENT_STORE_DRIVER = 'EVENT_STORE_DRIVER';
+
+/**
+ * Version a stream must be at for an append to succeed: a version number,
+ * `'no-stream'` (same as 0) or `'any'` to skip the check.
+ */
+export type ExpectedVersion = number | 'any' | 'no-stream';
+
+export interface EventData {
+  id?: string;
+  type: string;
+  aggregateType?: string;
+  schemaVersion?: number;
+  /** Defaults to the time of the append. */
+  occurredOn?: Date;
+  data: any;
+  metadata?: EventMetadata;
+}
+
+/**
+ * An event as persisted. `version` is its 1-based position in the stream
+ * and `position` its 1-based position across all streams.
+ */
+export interface RecordedEvent extends EventEnvelope {
+  streamId: string;
+  position: number;
+}
+
+export interface StreamMetadata {
+  /** Events older than this many milliseconds are hidden from reads. */
+  maxAge?: number;
+  /** Only the latest `maxCount` events of the stream are readable. */
+  maxCount?: number;
+  /** Events with a lower version are hidden from reads. */
+  truncateBefore?: number;
+  /** Set when the stream was soft-deleted. */
+  deletedAt?: Date;
+  custom?: Record<string, any>;
+}
+
+export type ReadDirection = 'forward' | 'backward';
+
+export interface EventStoreDriver {
+  /**
+   * Atomically checks the stream version and appends the events, assigning
+   * their versions and positions. Throws `WrongExpectedVersionException` on
+   * a mismatch and `DuplicateEventException` when an event id is taken.
+   */
+  append(streamId: string, events: Omit<RecordedEvent, 'version' | 'position'>[], expectedVersion: number | 'any'): Promise<RecordedEvent[]>;
+  /** Reads from `fromVersion` inclusive in the given direction. */
+  readStream(streamId: string, fromVersion: number, direction: ReadDirection, limit?: number): Promise<RecordedEvent[]>;
+  /** Reads from `fromPosition` inclusive in the given direction. */
+  readAll(fromPosition: number, direction: ReadDirection, limit?: number): Promise<RecordedEvent[]>;
+  getStreamVersion(streamId: string): Promise<number>;
+  getMetadata(streamId: string): Promise<StreamMetadata | null>;
+  setMetadata(streamId: string, metadata: StreamMetadata): Promise<void>;
+}
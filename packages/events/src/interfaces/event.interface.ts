@@ -1,22 +1,12 @@
-export interface DomainEvent {
-  id: string;
-  type: string;
-  aggregateId: string;
-  aggregateType: string;
-  version: number;
-  payload: any;
-  metadata: EventMetadata;
-  timestamp: Date;
-}
+import type { EventEnvelope, EventMetadata } from '@katarsaad/core';
 
-export interface EventMetadata {
-  userId?: string;
-  correlationId?: string;
-  causationId?: string;
-  source: string;
-  version: string;
-}
+/**
+ * @deprecated Use `EventEnvelope` from `@katarsaad/core`.
+ */
+export type DomainEvent<T = any> = EventEnvelope<T>;
+
+export type { EventEnvelope, EventMetadata };
 
 export interface EventHandler<T = any> {
   handle(event: T): Promise<void>;
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+export const MESSAGE_BROKER = 'MESSAGE_BROKER';
+
+export interface PublishOptions {
+  priority?: number;
+  /** Milliseconds before the message becomes visible to consumers. */
+  delay?: number;
+  headers?: Record<string, string>;
+  /** Deliveries allowed before the message is dead-lettered. Defaults to 3. */
+  maxDeliveries?: number;
+}
+
+export interface Message<T = any> {
+  id: string;
+  topic: string;
+  group: string;
+  payload: T;
+  headers: Record<string, string>;
+  deliveryCount: number;
+  publishedAt: Date;
+  priority: number;
+  /** Deliveries allowed before the message is dead-lettered. */
+  maxDeliveries: number;
+}
+
+export interface Delivery<T = any> extends Message<T> {
+  /** Marks the message as processed. */
+  ack(): Promise<void>;
+  /**
+   * Marks the delivery as failed. The message is redelivered with backoff
+   * until `maxDeliveries` is reached, or dead-lettered right away when
+   * `deadLetter` is set.
+   */
+  nack(options?: { error?: unknown; deadLetter?: boolean }): Promise<void>;
+  /** Returns the message to the group without counting the delivery. */
+  requeue(delay?: number): Promise<void>;
+}
+
+export type MessageHandler<T = any> = (delivery: Delivery<T>) => Promise<void> | void;
+
+export interface ConsumeOptions {
+  concurrency?: number;
+  /**
+   * Milliseconds a delivery stays invisible to other consumers. When it
+   * elapses without an ack the delivery counts as failed.
+   */
+  visibilityTimeout?: number;
+  /** Ack when the handler resolves and nack when it throws. Defaults to true. */
+  autoAck?: boolean;
+}
+
+export interface ReceiveOptions {
+  max?: number;
+  visibilityTimeout?: number;
+}
+
+export interface MessageConsumer {
+  stop(): void;
+}
+
+/**
+ * Publish/consume messaging with consumer groups: every group receives each
+ * message published to a topic, and within a group each message goes to a
+ * single consumer.
+ */
+export interface MessageBroker {
+  publish<T>(topic: string, payload: T, options?: PublishOptions): Promise<string>;
+  createConsumerGroup(topic: string, group: string): void;
+  consume<T>(topic: string, group: string, handler: MessageHandler<T>, options?: ConsumeOptions): MessageConsumer;
+  receive<T>(topic: string, group: string, options?: ReceiveOptions): Promise<Delivery<T>[]>;
+  getBacklog(topic: string, group: string): Promise<number>;
+  getDeadLetters<T>(topic: string, group: string): Promise<Message<T>[]>;
+  redrive(topic: string, group: string): Promise<number>;
+}
@@ -0,0 +1,27 @@
+import type { RecordedEvent } from './event-store.interface';
+
+export type ProjectionHandler = (event: RecordedEvent) => Promise<void> | void;
+
+export interface ProjectionDefinition {
+  name: string;
+  /** Handlers keyed by event type; other events only move the checkpoint. */
+  handlers: Record<string, ProjectionHandler>;
+  /** Clears the read model before a rebuild from position 0. */
+  reset?(): Promise<void> | void;
+  /** Events handled between checkpoint writes. Defaults to 100. */
+  checkpointEvery?: number;
+}
+
+export type ProjectionState = 'stopped' | 'catching-up' | 'live' | 'faulted';
+
+export interface ProjectionStatus {
+  name: string;
+  state: ProjectionState;
+  /** Global position of the last event handled. */
+  position: number;
+  /** Positions between the last handled event and the head of the store. */
+  lag: number;
+  lastProcessedAt?: Date;
+  errorCount: number;
+  lastError?: string;
+}
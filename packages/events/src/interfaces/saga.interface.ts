@@ -0,0 +1,78 @@
+import type { EventEnvelope } from '@katarsaad/core';
+
+export const SAGA_SCHEDULER = 'SAGA_SCHEDULER';
+
+export interface SagaCommand<T = any> {
+  type: string;
+  payload?: T;
+}
+
+export type SagaCommandHandler<T = any, R = any> = (command: SagaCommand<T>) => Promise<R> | R;
+
+export type SagaStatus = 'running' | 'completed' | 'compensating' | 'compensated' | 'failed';
+
+export interface SagaInstance<S = any> {
+  sagaType: string;
+  /** Correlation key shared by all events of the flow, e.g. a ticket id. */
+  sagaId: string;
+  status: SagaStatus;
+  state: S;
+  /** Commands undoing the completed steps, run last to first on failure. */
+  compensations: SagaCommand[];
+  /** Ids of pending timeouts by name. */
+  timeouts: Record<string, string>;
+  startedAt: Date;
+  updatedAt: Date;
+  error?: string;
+}
+
+export interface SagaContext<S = any> {
+  readonly sagaId: string;
+  state: S;
+  /** Runs a command through its registered handler and returns its result. */
+  send<R = any>(command: SagaCommand): Promise<R>;
+  /** Records a command that undoes the current step if a later one fails. */
+  compensateWith(command: SagaCommand): void;
+  /** Publishes an event caused by the one being handled. */
+  publish(type: string, data: any): void;
+  /** (Re)schedules the named timeout `delay` milliseconds from now. */
+  schedule(name: string, delay: number, data?: any): Promise<void>;
+  cancelTimeout(name: string): Promise<void>;
+  /** Ends the saga once the step returns; pending timeouts are cancelled. */
+  complete(): void;
+}
+
+export type SagaEventHandler<S = any> = (event: EventEnvelope, context: SagaContext<S>) => Promise<void> | void;
+
+export type SagaTimeoutHandler<S = any> = (data: any, context: SagaContext<S>) => Promise<void> | void;
+
+export interface SagaDefinition<S = any> {
+  name: string;
+  /** Event types that start a new instance when none exists for the key. */
+  startedBy: string[];
+  /** Correlation key of the instance an event belongs to; undefined to ignore the event. */
+  correlate(event: EventEnvelope): string | undefined;
+  initialState(event: EventEnvelope): S;
+  /** Steps keyed by event type, including the types in `startedBy`. */
+  handlers: Record<string, SagaEventHandler<S>>;
+  /** Steps keyed by timeout name. */
+  timeouts?: Record<string, SagaTimeoutHandler<S>>;
+}
+
+export interface SagaTimeout {
+  sagaType: string;
+  sagaId: string;
+  name: string;
+  data?: any;
+}
+
+/**
+ * Delivers saga timeouts once they are due. The queue package provides a
+ * persistent implementation under `SAGA_SCHEDULER`.
+ */
+export interface SagaScheduler {
+  /** Returns an id that can be passed to `cancel`. */
+  schedule(timeout: SagaTimeout, delay: number): Promise<string>;
+  cancel(timeoutId: string): Promise<void>;
+  onDue(handler: (timeout: SagaTimeout, timeoutId: string) => Promise<void>): void;
+}
@@ -0,0 +1,41 @@
+import { MetricsService } from '@katarsaad/monitoring';
+import { EventReplayService } from './event-replay.service';
+import { EventStoreService } from './event-store.service';
+
+describe('EventReplayService', () => {
+  let eventStore: EventStoreService;
+  let replay: EventReplayService;
+
+  beforeEach(() => {
+    const metrics = new MetricsService();
+    eventStore = new EventStoreService(undefined, metrics);
+    replay = new EventReplayService(eventStore, metrics);
+    replay.registerAggregate<{ n: number }>('Counter', {
+      initialState: () => ({ n: 0 }),
+      reducers: { Incremented: state => ({ n: state.n + 1 }) },
+      snapshotEvery: 2,
+    });
+  });
+
+  it('does not let changes to a rehydrated state leak into its snapshot', async () => {
+    await eventStore.appendToStream('counter-1', [
+      { type: 'Incremented', data: {} },
+      { type: 'Incremented', data: {} },
+    ]);
+
+    const first = await replay.rehydrate<{ n: number }>('Counter', 'counter-1');
+    first.state.n = 999;
+
+    const second = await replay.rehydrate<{ n: number }>('Counter', 'counter-1');
+    expect(second).toEqual({ state: { n: 2 }, version: 2 });
+  });
+
+  it('does not let changes to a loaded snapshot leak into the store', async () => {
+    await replay.saveSnapshot('Counter', 'counter-1', { state: { n: 5 }, version: 5 });
+
+    const snapshot = await replay.getSnapshot<{ n: number }>('counter-1');
+    snapshot!.state.n = 999;
+
+    expect((await replay.getSnapshot<{ n: number }>('counter-1'))!.state).toEqual({ n: 5 });
+  });
+});
@@ -1,25 +1,100 @@
 import { Injectable } from '@nestjs/common';
-import { DomainEvent as IDomainEvent } from '../interfaces/event.interface';
 import { EventStoreService } from './event-store.service';
 import { MetricsService } from '@katarsaad/monitoring';
+import { RecordedEvent } from '../interfaces/event-store.interface';
 
+export type AggregateReducer<S> = (state: S, event: RecordedEvent) => S;
+
+export interface AggregateDefinition<S = any> {
+  initialState(aggregateId: string): S;
+  /** Reducers keyed by event type; events without one leave the state unchanged. */
+  reducers: Record<string, AggregateReducer<S>>;
+  /** Store a snapshot once this many events were replayed past the last one. */
+  snapshotEvery?: number;
+}
+
+export interface AggregateState<S = any> {
+  state: S;
+  /** Version of the last event folded into `state`, 0 for a new aggregate. */
+  version: number;
+}
+
+export interface AggregateSnapshot<S = any> extends AggregateState<S> {
+  aggregateType: string;
+  createdAt: Date;
+}
+
+const SNAPSHOT_EVENT_TYPE = 'Snapshot';
+
+/**
+ * Rebuilds aggregate state from the event store with registered reducers.
+ * Snapshots live in a `$snapshot-<streamId>` system stream next to the
+ * aggregate's own stream and only the latest one is kept.
+ */
 @Injectable()
 export class EventReplayService {
+  private readonly aggregates = new Map<string, AggregateDefinition>();
+
   constructor(
     private eventStore: EventStoreService,
     private metrics: MetricsService
   ) {}
 
-  async replayEvents(streamId: string, fromVersion = 0): Promise<any> {
+  registerAggregate<S>(aggregateType: string, definition: AggregateDefinition<S>): void {
+    this.aggregates.set(aggregateType, definition);
+  }
+
+  /**
+   * Loads an aggregate as of `toVersion`, or its latest version, starting
+   * from the newest usable snapshot.
+   */
+  async rehydrate<S = any>(aggregateType: string, streamId: string, toVersion?: number): Promise<AggregateState<S>> {
+    const definition = this.getDefinition<S>(aggregateType);
+
     try {
-      const events = await this.eventStore.getEvents(streamId);
-      const state = await this.reconstructState(events);
-      
-      this.metrics.incrementCounter('event_replay', 1, { 
-        streamId,
-        eventCount: events.length.toString()
+      const snapshot = definition.snapshotEvery ? await this.getSnapshot<S>(streamId) : null;
+      const usable = snapshot && snapshot.aggregateType === aggregateType && (toVersion === undefined || snapshot.version <= toVersion)
+        ? snapshot
+        : null;
+
+      const start: AggregateState<S> = usable
+        ? { state: usable.state, version: usable.version }
+        : { state: definition.initialState(streamId), version: 0 };
+      const events = await this.readRange(streamId, start.version, toVersion);
+      const result = this.fold(definition, start, events);
+
+      if (definition.snapshotEvery && toVersion === undefined && result.version - start.version >= definition.snapshotEvery) {
+        await this.saveSnapshot(aggregateType, streamId, result);
+      }
+
+      this.metrics.incrementCounter('event_replay', 1, {
+        aggregateType,
+        fromSnapshot: usable ? 'true' : 'false',
+      });
+
+      return result;
+    } catch (error) {
+      this.metrics.incrementCounter('event_replay_failed', 1);
+      throw error;
+    }
+  }
+
+  /**
+   * Folds the events of a stream after `fromVersion` up to `toVersion`
+   * inclusive into a fresh initial state, without using snapshots.
+   */
+  async replayEvents<S = any>(aggregateType: string, streamId: string, fromVersion = 0, toVersion?: number): Promise<S> {
+    const definition = this.getDefinition<S>(aggregateType);
+
+    try {
+      const events = await this.readRange(streamId, fromVersion, toVersion);
+      const { state } = this.fold(definition, { state: definition.initialState(streamId), version: fromVersion }, events);
+
+      this.metrics.incrementCounter('event_replay', 1, {
+        aggregateType,
+        fromSnapshot: 'false',
       });
-      
+
       return state;
     } catch (error) {
       this.metrics.incrementCounter('event_replay_failed', 1);
@@ -27,14 +102,20 @@ export class EventReplayService {
     }
   }
 
-  async replayAllEvents(fromPosition = 0): Promise<any[]> {
+  /**
+   * Returns the events of all streams after `fromPosition` up to
+   * `toPosition` inclusive, in global order.
+   */
+  async replayAllEvents(fromPosition = 0, toPosition?: number): Promise<RecordedEvent[]> {
     try {
-      const events = await this.eventStore.getAllEvents();
-      
+      const count = toPosition !== undefined ? Math.max(0, toPosition - fromPosition) : undefined;
+      const events = (await this.eventStore.readAllForward(fromPosition + 1, count))
+        .filter(event => toPosition === undefined || event.position <= toPosition);
+
       this.metrics.incrementCounter('event_replay_all', 1, {
         eventCount: events.length.toString()
       });
-      
+
       return events;
     } catch (error) {
       this.metrics.incrementCounter('event_replay_all_failed', 1);
@@ -42,28 +123,66 @@ export class EventReplayService {
     }
   }
 
-  private async reconstructState(events: any[]): Promise<any> {
-    const state: any = {};
-    
+  async saveSnapshot<S>(aggregateType: string, streamId: string, aggregate: AggregateState<S>): Promise<void> {
+    const snapshotStream = this.snapshotStreamId(streamId);
+
+    if ((await this.eventStore.getStreamVersion(snapshotStream)) === 0) {
+      await this.eventStore.setStreamMetadata(snapshotStream, { maxCount: 1 });
+    }
+    // Stored as a plain copy so later changes to the state do not leak into the store
+    await this.eventStore.appendToStream(snapshotStream, [{
+      type: SNAPSHOT_EVENT_TYPE,
+      data: { aggregateType, state: this.copy(aggregate.state), version: aggregate.version },
+    }]);
+
+    this.metrics.incrementCounter('event_snapshot_saved', 1, { aggregateType });
+  }
+
+  async getSnapshot<S = any>(streamId: string): Promise<AggregateSnapshot<S> | null> {
+    const [latest] = await this.eventStore.readStreamBackward(this.snapshotStreamId(streamId), undefined, 1);
+    if (!latest) return null;
+
+    return {
+      aggregateType: latest.data.aggregateType,
+      state: this.copy(latest.data.state),
+      version: latest.data.version,
+      createdAt: latest.occurredOn,
+    };
+  }
+
+  private async readRange(streamId: string, afterVersion: number, toVersion?: number): Promise<RecordedEvent[]> {
+    if (toVersion !== undefined && toVersion <= afterVersion) return [];
+
+    const count = toVersion !== undefined ? toVersion - afterVersion : undefined;
+    const events = await this.eventStore.readStreamForward(streamId, afterVersion + 1, count);
+    return events.filter(event => toVersion === undefined || event.version <= toVersion);
+  }
+
+  private fold<S>(definition: AggregateDefinition<S>, start: AggregateState<S>, events: RecordedEvent[]): AggregateState<S> {
+    let { state, version } = start;
     for (const event of events) {
-      switch (event.type) {
-        case 'UserCreated':
-          state.id = event.aggregateId;
-          state.email = event.payload.email;
-          state.name = event.payload.name;
-          state.createdAt = event.timestamp;
-          break;
-        case 'UserUpdated':
-          Object.assign(state, event.payload);
-          state.updatedAt = event.timestamp;
-          break;
-        case 'UserDeleted':
-          state.deletedAt = event.timestamp;
-          state.isDeleted = true;
-          break;
+      const reducer = definition.reducers[event.type];
+      if (reducer) {
+        state = reducer(state, event);
       }
+      version = event.version;
     }
-    
-    return state;
+    return { state, version };
+  }
+
+  private getDefinition<S>(aggregateType: string): AggregateDefinition<S> {
+    const definition = this.aggregates.get(aggregateType);
+    if (!definition) {
+      throw new Error(`No aggregate registered for type ${aggregateType}`);
+    }
+    return definition;
+  }
+
+  private copy<S>(state: S): S {
+    return state === undefined ? state : JSON.parse(JSON.stringify(state));
+  }
+
+  private snapshotStreamId(streamId: string): string {
+    return `$snapshot-${streamId}`;
   }
-}
\ No newline at end of file
+}
@@ -1,23 +1,273 @@
-import { Injectable } from '@nestjs/common';
-import { DomainEvent } from './event-bus.service';
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { MetricsService } from '@katarsaad/monitoring';
+import { AnyEvent, EventBusService, EventContractRegistry, EventEnvelopeUtils } from '@katarsaad/core';
+import { DomainEvent } from '../interfaces/event.interface';
+import {
+  EVENT_STORE_DRIVER,
+  EventData,
+  EventStoreDriver,
+  ExpectedVersion,
+  RecordedEvent,
+  StreamMetadata,
+} from '../interfaces/event-store.interface';
+import { MemoryEventStore } from '../stores/memory-event.store';
+import { DuplicateEventException, WrongExpectedVersionException } from '../exceptions/events.exceptions';
 
+const READ_PAGE_SIZE = 500;
+const SYSTEM_STREAM_PREFIX = '$';
+
+export interface AppendResult {
+  /** Version of the stream after the append; pass it as the next expected version. */
+  nextExpectedVersion: number;
+  /** Global position of the last appended event. */
+  position: number;
+}
+
+/**
+ * Append-only event store. Every stream is versioned so writers can use
+ * optimistic concurrency, and every event also gets a global position that
+ * orders all streams. Events are persisted through the driver registered
+ * under `EVENT_STORE_DRIVER`, in memory by default.
+ *
+ * With an `EventContractRegistry`, appended events are validated against
+ * their contract and events read back are upcast to its current version.
+ *
+ * With an `EventBusService`, every event published in this process,
+ * including those relayed from the outbox, is appended to its aggregate's
+ * stream before subscribers see it, so projections can read it. An event
+ * published again under the same id is recorded once.
+ */
 @Injectable()
 export class EventStoreService {
-  private events: DomainEvent[] = [];
+  private readonly driver: EventStoreDriver;
 
-  async saveEvent(event: DomainEvent): Promise<void> {
-    this.events.push(event);
+  constructor(
+    @Optional() @Inject(EVENT_STORE_DRIVER) driver?: EventStoreDriver,
+    @Optional() private readonly metricsService?: MetricsService,
+    @Optional() private readonly contracts?: EventContractRegistry,
+    @Optional() eventBus?: EventBusService
+  ) {
+    this.driver = driver || new MemoryEventStore();
+    this.metricsService?.createCounter('event_store_appended', 'Events appended to the event store');
+    this.metricsService?.createCounter('event_store_conflicts', 'Appends rejected by an expected version check');
+    eventBus?.addMiddleware(event => this.record(event));
+  }
+
+  /**
+   * Appends events to a stream, failing with `WrongExpectedVersionException`
+   * when the stream is not at `expectedVersion` and with
+   * `DuplicateEventException` when an event id is already recorded.
+   * Appending to a soft-deleted stream brings it back with versions
+   * continuing after the old ones.
+   */
+  async appendToStream(
+    streamId: string,
+    events: EventData[],
+    expectedVersion: ExpectedVersion = 'any'
+  ): Promise<AppendResult> {
+    const expected = expectedVersion === 'no-stream' ? 0 : expectedVersion;
+    const appendedAt = new Date();
+    const stored: Omit<RecordedEvent, 'version' | 'position'>[] = events.map(event => ({
+      id: event.id || this.generateEventId(),
+      type: event.type,
+      aggregateId: streamId,
+      aggregateType: event.aggregateType || '',
+      schemaVersion: event.schemaVersion ?? this.contracts?.getSchemaVersion(event.type) ?? 1,
+      streamId,
+      occurredOn: event.occurredOn || appendedAt,
+      data: event.data,
+      metadata: event.metadata,
+    }));
+    stored.forEach(event => this.contracts?.validate(event));
+
+    let recorded: RecordedEvent[];
+    try {
+      recorded = await this.driver.append(streamId, stored, expected);
+    } catch (error) {
+      if (error instanceof WrongExpectedVersionException) {
+        this.metricsService?.incrementCounter('event_store_conflicts', 1);
+      }
+      throw error;
+    }
+
+    const metadata = await this.driver.getMetadata(streamId);
+    if (metadata?.deletedAt && recorded.length > 0) {
+      const { deletedAt, ...rest } = metadata;
+      await this.driver.setMetadata(streamId, rest);
+    }
+
+    this.metricsService?.incrementCounter('event_store_appended', recorded.length);
+
+    const last = recorded[recorded.length - 1];
+    return {
+      nextExpectedVersion: last ? last.version : await this.driver.getStreamVersion(streamId),
+      position: last ? last.position : 0,
+    };
+  }
+
+  async readStreamForward(streamId: string, fromVersion: number = 1, count?: number): Promise<RecordedEvent[]> {
+    const metadata = await this.driver.getMetadata(streamId);
+    const start = Math.max(fromVersion, await this.firstVisibleVersion(streamId, metadata));
+
+    // Expired events sit at the head of the stream, so only limit once they are dropped
+    if (metadata?.maxAge === undefined) {
+      return this.upcast(await this.driver.readStream(streamId, start, 'forward', count));
+    }
+    const events = await this.driver.readStream(streamId, start, 'forward');
+    return this.upcast(this.applyMaxAge(events, metadata).slice(0, count));
+  }
+
+  /**
+   * Reads a stream newest first, starting at `fromVersion` or at the end.
+   */
+  async readStreamBackward(streamId: string, fromVersion?: number, count?: number): Promise<RecordedEvent[]> {
+    const metadata = await this.driver.getMetadata(streamId);
+    const start = fromVersion ?? (await this.driver.getStreamVersion(streamId));
+    const firstVisible = await this.firstVisibleVersion(streamId, metadata);
+
+    const events = await this.driver.readStream(streamId, start, 'backward', count);
+    return this.upcast(this.applyMaxAge(events.filter(event => event.version >= firstVisible), metadata));
+  }
+
+  /**
+   * Reads every stream in global order from `fromPosition` inclusive.
+   * Events hidden by their stream's metadata and events of `$`-prefixed
+   * system streams are skipped.
+   */
+  async readAllForward(fromPosition: number = 1, count?: number): Promise<RecordedEvent[]> {
+    return this.upcast(await this.readAll(fromPosition, 'forward', count));
+  }
+
+  async readAllBackward(fromPosition: number = Number.MAX_SAFE_INTEGER, count?: number): Promise<RecordedEvent[]> {
+    return this.upcast(await this.readAll(fromPosition, 'backward', count));
+  }
+
+  /**
+   * Current version of a stream, 0 when it has no events.
+   */
+  async getStreamVersion(streamId: string): Promise<number> {
+    return this.driver.getStreamVersion(streamId);
+  }
+
+  async getStreamMetadata(streamId: string): Promise<StreamMetadata> {
+    return (await this.driver.getMetadata(streamId)) || {};
+  }
+
+  async setStreamMetadata(streamId: string, metadata: StreamMetadata): Promise<void> {
+    await this.driver.setMetadata(streamId, metadata);
+  }
+
+  /**
+   * Soft-deletes a stream: its events stay in the log but are hidden from
+   * reads. Honours `expectedVersion` like an append.
+   */
+  async deleteStream(streamId: string, expectedVersion: ExpectedVersion = 'any'): Promise<void> {
+    // An empty append runs the same version check atomically
+    await this.driver.append(streamId, [], expectedVersion === 'no-stream' ? 0 : expectedVersion);
+
+    const version = await this.driver.getStreamVersion(streamId);
+    const metadata = await this.getStreamMetadata(streamId);
+    await this.driver.setMetadata(streamId, { ...metadata, truncateBefore: version + 1, deletedAt: new Date() });
+  }
+
+  async isStreamDeleted(streamId: string): Promise<boolean> {
+    const metadata = await this.driver.getMetadata(streamId);
+    return !!metadata?.deletedAt;
+  }
+
+  /**
+   * @deprecated Use `appendToStream`, which checks the expected version.
+   */
+  async saveEvent(input: DomainEvent | AnyEvent): Promise<void> {
+    const event = this.contracts ? this.contracts.normalize(input) : EventEnvelopeUtils.normalize(input);
+    await this.appendToStream(event.aggregateId, [{
+      id: event.id,
+      type: event.type,
+      aggregateType: event.aggregateType,
+      schemaVersion: event.schemaVersion,
+      occurredOn: event.occurredOn,
+      data: event.data,
+      metadata: event.metadata,
+    }]);
   }
 
   async getEvents(aggregateId: string): Promise<DomainEvent[]> {
-    return this.events.filter(event => event.aggregateId === aggregateId);
+    return this.readStreamForward(aggregateId);
   }
 
   async getEventsByType(eventType: string): Promise<DomainEvent[]> {
-    return this.events.filter(event => event.eventType === eventType);
+    const events = await this.readAllForward();
+    return events.filter(event => event.type === eventType);
   }
 
   async getAllEvents(): Promise<DomainEvent[]> {
-    return [...this.events];
+    return this.readAllForward();
+  }
+
+  /**
+   * Bus middleware; a failed append dead-letters the event, so it is not
+   * delivered until it has been recorded.
+   */
+  private async record(event: DomainEvent): Promise<DomainEvent> {
+    try {
+      await this.saveEvent(event);
+    } catch (error) {
+      if (!(error instanceof DuplicateEventException)) throw error;
+    }
+    return event;
+  }
+
+  private async readAll(fromPosition: number, direction: 'forward' | 'backward', count?: number): Promise<RecordedEvent[]> {
+    const visibility = new Map<string, (event: RecordedEvent) => boolean>();
+    const result: RecordedEvent[] = [];
+    let cursor = fromPosition;
+
+    for (;;) {
+      const page = await this.driver.readAll(cursor, direction, READ_PAGE_SIZE);
+
+      for (const event of page) {
+        if (event.streamId.startsWith(SYSTEM_STREAM_PREFIX)) continue;
+
+        if (!visibility.has(event.streamId)) {
+          const metadata = await this.driver.getMetadata(event.streamId);
+          const firstVisible = await this.firstVisibleVersion(event.streamId, metadata);
+          visibility.set(event.streamId, candidate =>
+            candidate.version >= firstVisible && this.applyMaxAge([candidate], metadata).length > 0
+          );
+        }
+        if (!visibility.get(event.streamId)!(event)) continue;
+
+        result.push(event);
+        if (result.length === count) return result;
+      }
+
+      if (page.length < READ_PAGE_SIZE) return result;
+      cursor = page[page.length - 1].position + (direction === 'forward' ? 1 : -1);
+    }
+  }
+
+  private async firstVisibleVersion(streamId: string, metadata: StreamMetadata | null): Promise<number> {
+    let first = metadata?.truncateBefore || 1;
+    if (metadata?.maxCount !== undefined) {
+      const version = await this.driver.getStreamVersion(streamId);
+      first = Math.max(first, version - metadata.maxCount + 1);
+    }
+    return first;
+  }
+
+  private applyMaxAge(events: RecordedEvent[], metadata: StreamMetadata | null): RecordedEvent[] {
+    if (metadata?.maxAge === undefined) return events;
+
+    const cutoff = Date.now() - metadata.maxAge;
+    return events.filter(event => event.occurredOn.getTime() >= cutoff);
+  }
+
+  private upcast(events: RecordedEvent[]): RecordedEvent[] {
+    const { contracts } = this;
+    return contracts ? events.map(event => contracts.upcast(event)) : events;
+  }
+
+  private generateEventId(): string {
+    return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
-}
\ No newline at end of file
+}
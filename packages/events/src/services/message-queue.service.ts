@@ -1,4 +1,15 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, OnModuleDestroy, Optional } from '@nestjs/common';
+import {
+  ConsumeOptions,
+  Delivery,
+  MESSAGE_BROKER,
+  Message,
+  MessageBroker,
+  MessageConsumer,
+  MessageHandler,
+  PublishOptions,
+  ReceiveOptions,
+} from '../interfaces/message-broker.interface';
 
 export interface QueueMessage {
   id: string;
@@ -9,37 +20,103 @@ export interface QueueMessage {
   maxRetries: number;
 }
 
+const DEFAULT_GROUP = 'default';
+
+/**
+ * Messaging entry point of the events package. It delegates to the broker
+ * registered under `MESSAGE_BROKER` (provided by `QueueModule`), so events
+ * and background jobs share one implementation. Without one, it falls back
+ * to the queue package's broker over an in-memory queue.
+ */
 @Injectable()
-export class MessageQueueService {
-  private queues = new Map<string, QueueMessage[]>();
+export class MessageQueueService implements MessageBroker, OnModuleDestroy {
+  private fallback?: { broker: MessageBroker; queue: { close(): Promise<void> } };
 
-  async enqueue(queueName: string, message: Omit<QueueMessage, 'id' | 'timestamp' | 'retryCount'>): Promise<void> {
-    if (!this.queues.has(queueName)) {
-      this.queues.set(queueName, []);
-    }
+  constructor(
+    @Optional() @Inject(MESSAGE_BROKER) private readonly broker?: MessageBroker
+  ) {}
 
-    const queue = this.queues.get(queueName)!;
-    const queueMessage: QueueMessage = {
-      ...message,
-      id: this.generateId(),
-      timestamp: new Date(),
-      retryCount: 0,
-    };
+  async onModuleDestroy(): Promise<void> {
+    await this.fallback?.queue.close();
+  }
+
+  publish<T>(topic: string, payload: T, options?: PublishOptions): Promise<string> {
+    return this.getBroker().publish(topic, payload, options);
+  }
+
+  createConsumerGroup(topic: string, group: string): void {
+    this.getBroker().createConsumerGroup(topic, group);
+  }
+
+  consume<T>(topic: string, group: string, handler: MessageHandler<T>, options?: ConsumeOptions): MessageConsumer {
+    return this.getBroker().consume(topic, group, handler, options);
+  }
+
+  receive<T>(topic: string, group: string, options?: ReceiveOptions): Promise<Delivery<T>[]> {
+    return this.getBroker().receive<T>(topic, group, options);
+  }
 
-    queue.push(queueMessage);
-    queue.sort((a, b) => b.priority - a.priority);
+  getBacklog(topic: string, group: string): Promise<number> {
+    return this.getBroker().getBacklog(topic, group);
   }
 
+  getDeadLetters<T>(topic: string, group: string): Promise<Message<T>[]> {
+    return this.getBroker().getDeadLetters<T>(topic, group);
+  }
+
+  redrive(topic: string, group: string): Promise<number> {
+    return this.getBroker().redrive(topic, group);
+  }
+
+  /**
+   * @deprecated Use `publish`.
+   */
+  async enqueue(queueName: string, message: Omit<QueueMessage, 'id' | 'timestamp' | 'retryCount'>): Promise<void> {
+    await this.publish(queueName, message.payload, {
+      priority: message.priority,
+      maxDeliveries: message.maxRetries + 1,
+    });
+  }
+
+  /**
+   * @deprecated Use `receive` or `consume`, which acknowledge explicitly.
+   */
   async dequeue(queueName: string): Promise<QueueMessage | null> {
-    const queue = this.queues.get(queueName);
-    return queue?.shift() || null;
+    const [delivery] = await this.receive(queueName, DEFAULT_GROUP, { max: 1 });
+    if (!delivery) return null;
+
+    await delivery.ack();
+    return {
+      id: delivery.id,
+      payload: delivery.payload,
+      priority: delivery.priority,
+      timestamp: delivery.publishedAt,
+      retryCount: delivery.deliveryCount - 1,
+      maxRetries: delivery.maxDeliveries - 1,
+    };
   }
 
+  /**
+   * @deprecated Use `getBacklog`.
+   */
   async getQueueSize(queueName: string): Promise<number> {
-    return this.queues.get(queueName)?.length || 0;
+    return this.getBacklog(queueName, DEFAULT_GROUP);
   }
 
-  private generateId(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
+  private getBroker(): MessageBroker {
+    if (this.broker) return this.broker;
+
+    if (!this.fallback) {
+      // Loaded lazily because the queue package itself depends on this one
+      let queuePackage: any;
+      try {
+        queuePackage = require('@katarsaad/queue');
+      } catch (error) {
+        throw new Error('No message broker registered under MESSAGE_BROKER; import QueueModule to provide one');
+      }
+      const queue = new queuePackage.QueueService(undefined, undefined, new queuePackage.MemoryQueueStore());
+      this.fallback = { broker: new queuePackage.MessageBrokerService(queue), queue };
+    }
+    return this.fallback.broker;
   }
-}
\ No newline at end of file
+}
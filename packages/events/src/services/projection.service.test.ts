@@ -0,0 +1,58 @@
+import { EventBusService } from '@katarsaad/core';
+import { EventStoreService } from './event-store.service';
+import { ProjectionService } from './projection.service';
+import { RecordedEvent } from '../interfaces/event-store.interface';
+
+function ticketCreated(id: string) {
+  return {
+    id,
+    type: 'TicketCreated',
+    aggregateId: 'ticket-1',
+    aggregateType: 'Ticket',
+    version: 1,
+    occurredOn: new Date(),
+    data: { title: 'Printer on fire' },
+  };
+}
+
+describe('ProjectionService', () => {
+  let eventBus: EventBusService;
+  let eventStore: EventStoreService;
+  let projections: ProjectionService;
+  let handled: RecordedEvent[];
+
+  beforeEach(async () => {
+    eventBus = new EventBusService();
+    eventStore = new EventStoreService(undefined, undefined, undefined, eventBus);
+    projections = new ProjectionService(eventStore, eventBus);
+    handled = [];
+    projections.register({
+      name: 'tickets',
+      handlers: { TicketCreated: event => { handled.push(event); } },
+    });
+    await projections.start('tickets');
+  });
+
+  afterEach(() => projections.stopAll());
+
+  it('projects events published on the bus', async () => {
+    eventBus.publish(ticketCreated('evt-1'));
+
+    await waitFor(() => handled.length > 0);
+    expect(handled.map(event => [event.id, event.streamId])).toEqual([['evt-1', 'ticket-1']]);
+  });
+
+  it('records an event published twice under the same id once', async () => {
+    eventBus.publish(ticketCreated('evt-1'));
+    eventBus.publish(ticketCreated('evt-1'));
+
+    await waitFor(() => handled.length > 0);
+    expect(await eventStore.getEvents('ticket-1')).toHaveLength(1);
+  });
+});
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 50 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
@@ -0,0 +1,260 @@
+import { Injectable, Logger, OnModuleDestroy, Optional } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { MetricsService } from '@katarsaad/monitoring';
+import { EventBusService } from './event-bus.service';
+import { EventStoreService } from './event-store.service';
+import { ProjectionDefinition, ProjectionState, ProjectionStatus } from '../interfaces/projection.interface';
+
+interface RegisteredProjection {
+  definition: ProjectionDefinition;
+  state: ProjectionState;
+  position?: number;
+  sinceCheckpoint: number;
+  running?: Promise<void>;
+  rerun: boolean;
+  lastProcessedAt?: Date;
+  errorCount: number;
+  lastError?: string;
+}
+
+const BATCH_SIZE = 100;
+const DEFAULT_CHECKPOINT_EVERY = 100;
+
+/**
+ * Builds read models from the event store. A started projection catches up
+ * from its checkpoint, then goes live: every event published on the
+ * `EventBusService`, which `EventStoreService` records before delivering,
+ * wakes it up to read what was appended since. Handlers
+ * run at least once per event, so they must tolerate replays after a crash.
+ * Checkpoints are kept in the metadata of a `$projection-<name>` stream.
+ */
+@Injectable()
+export class ProjectionService implements OnModuleDestroy {
+  private readonly logger = new Logger(ProjectionService.name);
+  private readonly projections = new Map<string, RegisteredProjection>();
+  private busSubscription?: Subscription;
+
+  constructor(
+    private readonly eventStore: EventStoreService,
+    @Optional() private readonly eventBus?: EventBusService,
+    @Optional() private readonly metricsService?: MetricsService
+  ) {
+    this.metricsService?.createCounter('projection_events_handled', 'Events handled by projections');
+    this.metricsService?.createCounter('projection_errors', 'Projection handler failures');
+  }
+
+  onModuleDestroy(): Promise<void> {
+    return this.stopAll();
+  }
+
+  register(definition: ProjectionDefinition): void {
+    if (this.projections.has(definition.name)) {
+      throw new Error(`Projection ${definition.name} is already registered`);
+    }
+    this.projections.set(definition.name, {
+      definition,
+      state: 'stopped',
+      sinceCheckpoint: 0,
+      rerun: false,
+      errorCount: 0,
+    });
+  }
+
+  /**
+   * Starts a projection, or resumes a faulted one from its checkpoint.
+   */
+  async start(name: string): Promise<void> {
+    const projection = this.getProjection(name);
+    if (projection.state === 'catching-up' || projection.state === 'live') return;
+
+    projection.state = 'catching-up';
+    projection.lastError = undefined;
+    this.subscribeToBus();
+    await this.run(projection);
+  }
+
+  async startAll(): Promise<void> {
+    await Promise.all(Array.from(this.projections.keys()).map(name => this.start(name)));
+  }
+
+  /**
+   * Stops a projection after the batch in progress and saves its checkpoint.
+   */
+  async stop(name: string): Promise<void> {
+    const projection = this.getProjection(name);
+    if (projection.state !== 'faulted') {
+      projection.state = 'stopped';
+    }
+    await projection.running;
+    if (projection.sinceCheckpoint > 0) {
+      await this.saveCheckpoint(projection);
+    }
+
+    if (Array.from(this.projections.values()).every(candidate => candidate.state === 'stopped' || candidate.state === 'faulted')) {
+      this.busSubscription?.unsubscribe();
+      this.busSubscription = undefined;
+    }
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all(Array.from(this.projections.keys()).map(name => this.stop(name)));
+  }
+
+  /**
+   * Clears the read model through `reset` and replays the whole store.
+   */
+  async rebuild(name: string): Promise<void> {
+    const projection = this.getProjection(name);
+    const wasRunning = projection.state === 'catching-up' || projection.state === 'live';
+
+    await this.stop(name);
+    projection.state = 'stopped';
+    projection.lastError = undefined;
+    await projection.definition.reset?.();
+    projection.position = 0;
+    projection.sinceCheckpoint = 0;
+    projection.errorCount = 0;
+    await this.saveCheckpoint(projection);
+
+    if (wasRunning) {
+      await this.start(name);
+    }
+  }
+
+  async getStatus(name: string): Promise<ProjectionStatus> {
+    const projection = this.getProjection(name);
+    const position = await this.loadPosition(projection);
+    const [head] = await this.eventStore.readAllBackward(undefined, 1);
+
+    return {
+      name,
+      state: projection.state,
+      position,
+      lag: Math.max(0, (head?.position || 0) - position),
+      lastProcessedAt: projection.lastProcessedAt,
+      errorCount: projection.errorCount,
+      lastError: projection.lastError,
+    };
+  }
+
+  async getStatuses(): Promise<ProjectionStatus[]> {
+    return Promise.all(Array.from(this.projections.keys()).map(name => this.getStatus(name)));
+  }
+
+  /**
+   * Drains the store into the projection. A wake-up while a run is in
+   * progress makes it read again instead of starting a second run.
+   */
+  private run(projection: RegisteredProjection): Promise<void> {
+    if (projection.running) {
+      projection.rerun = true;
+      return projection.running;
+    }
+
+    projection.running = (async () => {
+      try {
+        do {
+          projection.rerun = false;
+          await this.catchUp(projection);
+        } while (projection.rerun && this.isActive(projection));
+      } finally {
+        projection.running = undefined;
+      }
+    })();
+    return projection.running;
+  }
+
+  private async catchUp(projection: RegisteredProjection): Promise<void> {
+    const { definition } = projection;
+    const checkpointEvery = definition.checkpointEvery || DEFAULT_CHECKPOINT_EVERY;
+    let position = await this.loadPosition(projection);
+
+    while (this.isActive(projection)) {
+      const events = await this.eventStore.readAllForward(position + 1, BATCH_SIZE);
+
+      for (const event of events) {
+        if (!this.isActive(projection)) break;
+
+        const handler = definition.handlers[event.type];
+        if (handler) {
+          try {
+            await handler(event);
+          } catch (error) {
+            projection.state = 'faulted';
+            projection.errorCount++;
+            projection.lastError = error instanceof Error ? error.message : String(error);
+            this.metricsService?.incrementCounter('projection_errors', 1, { projection: definition.name });
+            this.logger.error(`Projection ${definition.name} failed at position ${event.position}:`, error);
+            await this.saveCheckpoint(projection);
+            return;
+          }
+          this.metricsService?.incrementCounter('projection_events_handled', 1, { projection: definition.name });
+        }
+
+        position = event.position;
+        projection.position = position;
+        projection.lastProcessedAt = new Date();
+        if (++projection.sinceCheckpoint >= checkpointEvery) {
+          await this.saveCheckpoint(projection);
+        }
+      }
+
+      if (events.length < BATCH_SIZE) {
+        if (projection.sinceCheckpoint > 0) {
+          await this.saveCheckpoint(projection);
+        }
+        if (projection.state === 'catching-up') {
+          projection.state = 'live';
+        }
+        return;
+      }
+    }
+  }
+
+  private subscribeToBus(): void {
+    if (this.busSubscription || !this.eventBus) return;
+
+    this.busSubscription = this.eventBus.getEventStream().subscribe(() => {
+      for (const projection of this.projections.values()) {
+        if (this.isActive(projection)) {
+          this.run(projection).catch(error =>
+            this.logger.error(`Projection ${projection.definition.name} stopped unexpectedly:`, error)
+          );
+        }
+      }
+    });
+  }
+
+  private async loadPosition(projection: RegisteredProjection): Promise<number> {
+    if (projection.position === undefined) {
+      const metadata = await this.eventStore.getStreamMetadata(this.checkpointStreamId(projection));
+      projection.position = metadata.custom?.position || 0;
+    }
+    return projection.position!;
+  }
+
+  private async saveCheckpoint(projection: RegisteredProjection): Promise<void> {
+    if (projection.position === undefined) return;
+
+    projection.sinceCheckpoint = 0;
+    await this.eventStore.setStreamMetadata(this.checkpointStreamId(projection), {
+      custom: { position: projection.position },
+    });
+  }
+
+  private isActive(projection: RegisteredProjection): boolean {
+    return projection.state === 'catching-up' || projection.state === 'live';
+  }
+
+  private getProjection(name: string): RegisteredProjection {
+    const projection = this.projections.get(name);
+    if (!projection) {
+      throw new Error(`Projection ${name} is not registered`);
+    }
+    return projection;
+  }
+
+  private checkpointStreamId(projection: RegisteredProjection): string {
+    return `$projection-${projection.definition.name}`;
+  }
+}
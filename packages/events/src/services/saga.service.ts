@@ -0,0 +1,298 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, Optional } from '@nestjs/common';
+import { EventEnvelope, EventEnvelopeUtils, EventSubscription } from '@katarsaad/core';
+import { MetricsService } from '@katarsaad/monitoring';
+import { EventBusService } from './event-bus.service';
+import { EventStoreService } from './event-store.service';
+import { TimerSagaScheduler } from './timer-saga.scheduler';
+import {
+  SAGA_SCHEDULER,
+  SagaCommand,
+  SagaCommandHandler,
+  SagaContext,
+  SagaDefinition,
+  SagaInstance,
+  SagaScheduler,
+  SagaTimeout,
+} from '../interfaces/saga.interface';
+
+interface LoadedSaga {
+  instance: SagaInstance;
+  /** Version of the saga's state stream, for the optimistic concurrency check. */
+  version: number;
+}
+
+const SAGA_STATE_EVENT_TYPE = 'SagaState';
+
+/**
+ * Runs process managers: long-running flows that react to events on the
+ * `EventBusService`, send commands and schedule timeouts. The state of every
+ * instance is kept in a `$saga-<name>-<sagaId>` stream of the event store.
+ * When a step throws, the compensations recorded by earlier steps are sent
+ * last to first.
+ *
+ * Steps of one instance never run concurrently in a process, but a step may
+ * run again after a crash, so command handlers must be idempotent.
+ */
+@Injectable()
+export class SagaService implements OnModuleDestroy {
+  private readonly logger = new Logger(SagaService.name);
+  private readonly sagas = new Map<string, SagaDefinition>();
+  private readonly commandHandlers = new Map<string, SagaCommandHandler>();
+  private readonly subscriptions: EventSubscription[] = [];
+  private readonly locks = new Map<string, Promise<void>>();
+  private readonly scheduler: SagaScheduler;
+
+  constructor(
+    private readonly eventStore: EventStoreService,
+    private readonly eventBus: EventBusService,
+    @Optional() @Inject(SAGA_SCHEDULER) scheduler?: SagaScheduler,
+    @Optional() private readonly metricsService?: MetricsService
+  ) {
+    this.scheduler = scheduler || new TimerSagaScheduler();
+    this.scheduler.onDue((timeout, timeoutId) =>
+      this.handleTimeout(timeout, timeoutId).catch(error => {
+        this.logger.error(`Saga ${timeout.sagaType} ${timeout.sagaId}: timeout ${timeout.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+        this.metricsService?.incrementCounter('saga_failed', 1, { saga: timeout.sagaType });
+        // Rethrown so persistent schedulers retry the timeout
+        throw error;
+      })
+    );
+
+    this.metricsService?.createCounter('saga_started', 'Saga instances started');
+    this.metricsService?.createCounter('saga_completed', 'Saga instances completed');
+    this.metricsService?.createCounter('saga_compensated', 'Saga instances rolled back by their compensations');
+    this.metricsService?.createCounter('saga_failed', 'Saga instances whose compensation or timeout handling failed');
+  }
+
+  onModuleDestroy(): void {
+    this.subscriptions.forEach(subscription => subscription.unsubscribe());
+    this.subscriptions.length = 0;
+    if (this.scheduler instanceof TimerSagaScheduler) {
+      this.scheduler.clear();
+    }
+  }
+
+  register<S>(definition: SagaDefinition<S>): void {
+    if (this.sagas.has(definition.name)) {
+      throw new Error(`Saga ${definition.name} is already registered`);
+    }
+    this.sagas.set(definition.name, definition);
+
+    const eventTypes = new Set([...definition.startedBy, ...Object.keys(definition.handlers)]);
+    for (const eventType of eventTypes) {
+      this.subscriptions.push(this.eventBus.subscribe(
+        eventType,
+        event => this.handleEvent(definition, event),
+        { name: `saga:${definition.name}:${eventType}`, maxAttempts: 3 }
+      ));
+    }
+  }
+
+  registerCommandHandler<T = any, R = any>(commandType: string, handler: SagaCommandHandler<T, R>): void {
+    this.commandHandlers.set(commandType, handler);
+  }
+
+  async getSaga<S = any>(sagaType: string, sagaId: string): Promise<SagaInstance<S> | null> {
+    const loaded = await this.load(sagaType, sagaId);
+    return loaded ? (loaded.instance as SagaInstance<S>) : null;
+  }
+
+  private async handleEvent(definition: SagaDefinition, event: EventEnvelope): Promise<void> {
+    const sagaId = definition.correlate(event);
+    if (!sagaId) return;
+
+    await this.withLock(definition.name, sagaId, async () => {
+      let loaded = await this.load(definition.name, sagaId);
+
+      if (!loaded) {
+        if (!definition.startedBy.includes(event.type)) return;
+        const now = new Date();
+        loaded = {
+          instance: {
+            sagaType: definition.name,
+            sagaId,
+            status: 'running',
+            state: definition.initialState(event),
+            compensations: [],
+            timeouts: {},
+            startedAt: now,
+            updatedAt: now,
+          },
+          version: 0,
+        };
+        this.metricsService?.incrementCounter('saga_started', 1, { saga: definition.name });
+      } else if (loaded.instance.status !== 'running') {
+        return;
+      }
+
+      const handler = definition.handlers[event.type];
+      await this.runStep(definition, loaded, handler && (context => handler(event, context)), event);
+    });
+  }
+
+  private async handleTimeout(timeout: SagaTimeout, timeoutId: string): Promise<void> {
+    const definition = this.sagas.get(timeout.sagaType);
+    if (!definition) return;
+
+    await this.withLock(definition.name, timeout.sagaId, async () => {
+      const loaded = await this.load(definition.name, timeout.sagaId);
+      // Ignore timeouts that were rescheduled or cancelled after they fired
+      if (!loaded || loaded.instance.status !== 'running' || loaded.instance.timeouts[timeout.name] !== timeoutId) return;
+
+      delete loaded.instance.timeouts[timeout.name];
+      const handler = definition.timeouts?.[timeout.name];
+      await this.runStep(definition, loaded, handler && (context => handler(timeout.data, context)));
+    });
+  }
+
+  private async runStep(
+    definition: SagaDefinition,
+    loaded: LoadedSaga,
+    step: ((context: SagaContext) => Promise<void> | void) | undefined,
+    cause?: EventEnvelope
+  ): Promise<void> {
+    const { instance } = loaded;
+    const published: EventEnvelope[] = [];
+    let completed = false;
+
+    const context: SagaContext = {
+      sagaId: instance.sagaId,
+      get state() {
+        return instance.state;
+      },
+      set state(value) {
+        instance.state = value;
+      },
+      send: command => this.send(command),
+      compensateWith: command => {
+        instance.compensations.push(command);
+      },
+      publish: (type, data) => {
+        published.push(EventEnvelopeUtils.create(
+          { type, aggregateId: instance.sagaId, aggregateType: definition.name, data },
+          cause
+        ));
+      },
+      schedule: async (name, delay, data) => {
+        await this.cancelTimeout(instance, name);
+        instance.timeouts[name] = await this.scheduler.schedule(
+          { sagaType: definition.name, sagaId: instance.sagaId, name, data },
+          delay
+        );
+      },
+      cancelTimeout: name => this.cancelTimeout(instance, name),
+      complete: () => {
+        completed = true;
+      },
+    };
+
+    let succeeded = true;
+    try {
+      await step?.(context);
+      if (completed) {
+        instance.status = 'completed';
+        await this.cancelAllTimeouts(instance);
+        this.metricsService?.incrementCounter('saga_completed', 1, { saga: definition.name });
+      }
+    } catch (error) {
+      succeeded = false;
+      instance.error = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Saga ${definition.name} ${instance.sagaId} failed, compensating: ${instance.error}`);
+      await this.compensate(instance);
+    }
+
+    instance.updatedAt = new Date();
+    await this.save(instance, loaded.version);
+
+    if (succeeded) {
+      this.eventBus.publishMany(published);
+    }
+  }
+
+  private async compensate(instance: SagaInstance): Promise<void> {
+    instance.status = 'compensating';
+    await this.cancelAllTimeouts(instance);
+
+    while (instance.compensations.length > 0) {
+      const command = instance.compensations[instance.compensations.length - 1];
+      try {
+        await this.send(command);
+      } catch (error) {
+        instance.status = 'failed';
+        instance.error = `Compensation ${command.type} failed: ${error instanceof Error ? error.message : String(error)}`;
+        this.logger.error(`Saga ${instance.sagaType} ${instance.sagaId}: ${instance.error}`);
+        this.metricsService?.incrementCounter('saga_failed', 1, { saga: instance.sagaType });
+        return;
+      }
+      instance.compensations.pop();
+    }
+
+    instance.status = 'compensated';
+    this.metricsService?.incrementCounter('saga_compensated', 1, { saga: instance.sagaType });
+  }
+
+  private async send<R>(command: SagaCommand): Promise<R> {
+    const handler = this.commandHandlers.get(command.type);
+    if (!handler) {
+      throw new Error(`No handler registered for command ${command.type}`);
+    }
+    return handler(command);
+  }
+
+  private async cancelTimeout(instance: SagaInstance, name: string): Promise<void> {
+    const timeoutId = instance.timeouts[name];
+    if (timeoutId === undefined) return;
+
+    delete instance.timeouts[name];
+    await this.scheduler.cancel(timeoutId);
+  }
+
+  private async cancelAllTimeouts(instance: SagaInstance): Promise<void> {
+    for (const name of Object.keys(instance.timeouts)) {
+      await this.cancelTimeout(instance, name);
+    }
+  }
+
+  private async load(sagaType: string, sagaId: string): Promise<LoadedSaga | null> {
+    const [latest] = await this.eventStore.readStreamBackward(this.streamId(sagaType, sagaId), undefined, 1);
+    if (!latest) return null;
+
+    return {
+      instance: {
+        ...latest.data,
+        startedAt: new Date(latest.data.startedAt),
+        updatedAt: new Date(latest.data.updatedAt),
+      },
+      version: latest.version,
+    };
+  }
+
+  private async save(instance: SagaInstance, expectedVersion: number): Promise<void> {
+    const streamId = this.streamId(instance.sagaType, instance.sagaId);
+    if (expectedVersion === 0) {
+      await this.eventStore.setStreamMetadata(streamId, { maxCount: 1 });
+    }
+    // Stored as a plain copy so later changes to the instance do not leak into the store
+    await this.eventStore.appendToStream(
+      streamId,
+      [{ type: SAGA_STATE_EVENT_TYPE, data: JSON.parse(JSON.stringify(instance)) }],
+      expectedVersion
+    );
+  }
+
+  private async withLock(sagaType: string, sagaId: string, work: () => Promise<void>): Promise<void> {
+    const key = this.streamId(sagaType, sagaId);
+    const previous = this.locks.get(key) || Promise.resolve();
+    const current = previous.then(work, work);
+    this.locks.set(key, current);
+    try {
+      await current;
+    } finally {
+      if (this.locks.get(key) === current) this.locks.delete(key);
+    }
+  }
+
+  private streamId(sagaType: string, sagaId: string): string {
+    return `$saga-${sagaType}-${sagaId}`;
+  }
+}
@@ -0,0 +1,35 @@
+import { SagaScheduler, SagaTimeout } from '../interfaces/saga.interface';
+
+/**
+ * In-process `SagaScheduler` used when none is registered. Pending timeouts
+ * are lost on restart.
+ */
+export class TimerSagaScheduler implements SagaScheduler {
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private handler?: (timeout: SagaTimeout, timeoutId: string) => Promise<void>;
+  private sequence = 0;
+
+  async schedule(timeout: SagaTimeout, delay: number): Promise<string> {
+    const id = `timeout_${Date.now()}_${++this.sequence}`;
+    this.timers.set(id, setTimeout(() => {
+      this.timers.delete(id);
+      // SagaService has already logged and counted the failure; in-process timeouts are not retried
+      this.handler?.(timeout, id).catch(() => undefined);
+    }, delay));
+    return id;
+  }
+
+  async cancel(timeoutId: string): Promise<void> {
+    clearTimeout(this.timers.get(timeoutId));
+    this.timers.delete(timeoutId);
+  }
+
+  onDue(handler: (timeout: SagaTimeout, timeoutId: string) => Promise<void>): void {
+    this.handler = handler;
+  }
+
+  clear(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MemoryEventStore } from './memory-event.store';
+import { ReadDirection, RecordedEvent, StreamMetadata } from '../interfaces/event-store.interface';
+
+type LogEntry =
+  | { op: 'append'; events: RecordedEvent[] }
+  | { op: 'metadata'; streamId: string; metadata: StreamMetadata };
+
+/**
+ * Append-only log driver. Each append is written as one JSON line, so a
+ * batch of events is persisted all-or-nothing. Meant for a single process.
+ */
+export class FileEventStore extends MemoryEventStore {
+  private loading?: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async append(
+    streamId: string,
+    events: Omit<RecordedEvent, 'version' | 'position'>[],
+    expectedVersion: number | 'any'
+  ): Promise<RecordedEvent[]> {
+    await this.load();
+    const recorded = await super.append(streamId, events, expectedVersion);
+    if (recorded.length > 0) {
+      await this.write({ op: 'append', events: recorded });
+    }
+    return recorded;
+  }
+
+  async readStream(streamId: string, fromVersion: number, direction: ReadDirection, limit?: number): Promise<RecordedEvent[]> {
+    await this.load();
+    return super.readStream(streamId, fromVersion, direction, limit);
+  }
+
+  async readAll(fromPosition: number, direction: ReadDirection, limit?: number): Promise<RecordedEvent[]> {
+    await this.load();
+    return super.readAll(fromPosition, direction, limit);
+  }
+
+  async getStreamVersion(streamId: string): Promise<number> {
+    await this.load();
+    return super.getStreamVersion(streamId);
+  }
+
+  async getMetadata(streamId: string): Promise<StreamMetadata | null> {
+    await this.load();
+    return super.getMetadata(streamId);
+  }
+
+  async setMetadata(streamId: string, metadata: StreamMetadata): Promise<void> {
+    await this.load();
+    await super.setMetadata(streamId, metadata);
+    await this.write({ op: 'metadata', streamId, metadata });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.replay();
+    }
+    return this.loading;
+  }
+
+  private async replay(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let content = '';
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A torn write from a crash can only affect the last line
+        continue;
+      }
+
+      if (entry.op === 'append') {
+        this.record(entry.events.map(event => ({ ...event, occurredOn: new Date(event.occurredOn) })));
+      } else {
+        const { deletedAt, ...rest } = entry.metadata;
+        this.metadata.set(entry.streamId, { ...rest, ...(deletedAt && { deletedAt: new Date(deletedAt) }) });
+      }
+    }
+  }
+
+  private write(entry: LogEntry): Promise<void> {
+    const next = this.writeChain.then(() =>
+      fs.promises.appendFile(this.filePath, `${JSON.stringify(entry)}\n`)
+    );
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,79 @@
+import { EventStoreDriver, ReadDirection, RecordedEvent, StreamMetadata } from '../interfaces/event-store.interface';
+import { DuplicateEventException, WrongExpectedVersionException } from '../exceptions/events.exceptions';
+
+export class MemoryEventStore implements EventStoreDriver {
+  protected readonly events: RecordedEvent[] = [];
+  protected readonly eventIds = new Set<string>();
+  protected readonly streams = new Map<string, RecordedEvent[]>();
+  protected readonly metadata = new Map<string, StreamMetadata>();
+
+  async append(
+    streamId: string,
+    events: Omit<RecordedEvent, 'version' | 'position'>[],
+    expectedVersion: number | 'any'
+  ): Promise<RecordedEvent[]> {
+    const stream = this.streams.get(streamId) || [];
+    if (expectedVersion !== 'any' && expectedVersion !== stream.length) {
+      throw new WrongExpectedVersionException(streamId, expectedVersion, stream.length);
+    }
+    const duplicate = events.find(event => this.eventIds.has(event.id));
+    if (duplicate) {
+      throw new DuplicateEventException(duplicate.id);
+    }
+
+    const recorded = events.map((event, index) => ({
+      ...event,
+      streamId,
+      version: stream.length + index + 1,
+      position: this.events.length + index + 1,
+    }));
+    this.record(recorded);
+    return recorded.map(event => ({ ...event }));
+  }
+
+  async readStream(streamId: string, fromVersion: number, direction: ReadDirection, limit?: number): Promise<RecordedEvent[]> {
+    const stream = this.streams.get(streamId) || [];
+    // Versions are contiguous, so version n sits at index n - 1
+    return slice(stream, fromVersion - 1, direction, limit);
+  }
+
+  async readAll(fromPosition: number, direction: ReadDirection, limit?: number): Promise<RecordedEvent[]> {
+    return slice(this.events, fromPosition - 1, direction, limit);
+  }
+
+  async getStreamVersion(streamId: string): Promise<number> {
+    return this.streams.get(streamId)?.length || 0;
+  }
+
+  async getMetadata(streamId: string): Promise<StreamMetadata | null> {
+    const metadata = this.metadata.get(streamId);
+    return metadata ? { ...metadata } : null;
+  }
+
+  async setMetadata(streamId: string, metadata: StreamMetadata): Promise<void> {
+    this.metadata.set(streamId, { ...metadata });
+  }
+
+  protected record(events: RecordedEvent[]): void {
+    for (const event of events) {
+      if (!this.streams.has(event.streamId)) {
+        this.streams.set(event.streamId, []);
+      }
+      this.streams.get(event.streamId)!.push(event);
+      this.events.push(event);
+      this.eventIds.add(event.id);
+    }
+  }
+}
+
+function slice(events: RecordedEvent[], fromIndex: number, direction: ReadDirection, limit?: number): RecordedEvent[] {
+  let result: RecordedEvent[];
+  if (direction === 'forward') {
+    const start = Math.max(0, fromIndex);
+    result = events.slice(start, limit !== undefined ? start + limit : undefined);
+  } else {
+    const end = Math.min(events.length, fromIndex + 1);
+    result = events.slice(limit !== undefined ? Math.max(0, end - limit) : 0, Math.max(0, end)).reverse();
+  }
+  return result.map(event => ({ ...event }));
+}
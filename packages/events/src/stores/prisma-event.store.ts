@@ -0,0 +1,166 @@
+import { EventStoreDriver, ReadDirection, RecordedEvent, StreamMetadata } from '../interfaces/event-store.interface';
+import { DuplicateEventException, WrongExpectedVersionException } from '../exceptions/events.exceptions';
+
+export interface IPrismaEventClient {
+  storedEvent: {
+    create(args: any): any;
+    findFirst(args: any): Promise<any>;
+    findMany(args: any): Promise<any[]>;
+  };
+  eventStream: {
+    findUnique(args: any): Promise<any>;
+    upsert(args: any): Promise<any>;
+  };
+  eventSequence: {
+    upsert(args: any): any;
+  };
+  $transaction(operations: any[]): Promise<any[]>;
+}
+
+const UNIQUE_VIOLATION = 'P2002';
+const APPEND_ATTEMPTS = 5;
+const SEQUENCE_NAME = 'all';
+
+/**
+ * SQL driver backed by the `StoredEvent` and `EventStream` Prisma models. The
+ * unique `(streamId, version)` index rejects concurrent appends, so several
+ * processes can write to one table safely, and the unique `eventId` index
+ * rejects an event recorded twice.
+ *
+ * Every append first updates the `EventSequence` row, whose lock is held
+ * until commit. Appends therefore commit one at a time, and an
+ * auto-incremented position is never committed after a higher one, which
+ * readers following `position` would skip.
+ */
+export class PrismaEventStore implements EventStoreDriver {
+  constructor(private readonly prisma: IPrismaEventClient) {}
+
+  async append(
+    streamId: string,
+    events: Omit<RecordedEvent, 'version' | 'position'>[],
+    expectedVersion: number | 'any'
+  ): Promise<RecordedEvent[]> {
+    for (let attempt = 1; ; attempt++) {
+      const version = await this.getStreamVersion(streamId);
+      if (expectedVersion !== 'any' && expectedVersion !== version) {
+        throw new WrongExpectedVersionException(streamId, expectedVersion, version);
+      }
+      if (events.length === 0) return [];
+
+      try {
+        const [, ...rows] = await this.prisma.$transaction([
+          this.prisma.eventSequence.upsert({
+            where: { name: SEQUENCE_NAME },
+            create: { name: SEQUENCE_NAME, position: events.length },
+            update: { position: { increment: events.length } },
+          }),
+          ...events.map((event, index) =>
+            this.prisma.storedEvent.create({ data: this.toRow({ ...event, streamId, version: version + index + 1 }) })
+          ),
+        ]);
+        return rows.map(row => this.toEvent(row));
+      } catch (error: any) {
+        if (error?.code !== UNIQUE_VIOLATION) throw error;
+        if (this.isEventIdViolation(error)) {
+          throw new DuplicateEventException(await this.findRecordedId(events) ?? events[0].id);
+        }
+        // Another writer took the version; only an `any` append may try again
+        if (expectedVersion !== 'any' || attempt >= APPEND_ATTEMPTS) {
+          throw new WrongExpectedVersionException(streamId, expectedVersion, await this.getStreamVersion(streamId));
+        }
+      }
+    }
+  }
+
+  async readStream(streamId: string, fromVersion: number, direction: ReadDirection, limit?: number): Promise<RecordedEvent[]> {
+    const rows = await this.prisma.storedEvent.findMany({
+      where: { streamId, version: direction === 'forward' ? { gte: fromVersion } : { lte: fromVersion } },
+      orderBy: { version: direction === 'forward' ? 'asc' : 'desc' },
+      ...(limit !== undefined && { take: limit }),
+    });
+    return rows.map(row => this.toEvent(row));
+  }
+
+  async readAll(fromPosition: number, direction: ReadDirection, limit?: number): Promise<RecordedEvent[]> {
+    const rows = await this.prisma.storedEvent.findMany({
+      where: { position: direction === 'forward' ? { gte: fromPosition } : { lte: fromPosition } },
+      orderBy: { position: direction === 'forward' ? 'asc' : 'desc' },
+      ...(limit !== undefined && { take: limit }),
+    });
+    return rows.map(row => this.toEvent(row));
+  }
+
+  async getStreamVersion(streamId: string): Promise<number> {
+    const row = await this.prisma.storedEvent.findFirst({
+      where: { streamId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    return row?.version || 0;
+  }
+
+  async getMetadata(streamId: string): Promise<StreamMetadata | null> {
+    const row = await this.prisma.eventStream.findUnique({ where: { streamId } });
+    if (!row) return null;
+
+    const { deletedAt, ...metadata } = JSON.parse(row.metadata);
+    return { ...metadata, ...(deletedAt && { deletedAt: new Date(deletedAt) }) };
+  }
+
+  async setMetadata(streamId: string, metadata: StreamMetadata): Promise<void> {
+    const serialized = JSON.stringify(metadata);
+    await this.prisma.eventStream.upsert({
+      where: { streamId },
+      create: { streamId, metadata: serialized },
+      update: { metadata: serialized },
+    });
+  }
+
+  /**
+   * `meta.target` names the violated index: its fields on most databases,
+   * its name on MySQL.
+   */
+  private isEventIdViolation(error: any): boolean {
+    const target = error.meta?.target;
+    const fields: string[] = Array.isArray(target) ? target : [String(target ?? '')];
+    return fields.some(field => field === 'eventId' || field.includes('event_id'));
+  }
+
+  private async findRecordedId(events: Omit<RecordedEvent, 'version' | 'position'>[]): Promise<string | undefined> {
+    const row = await this.prisma.storedEvent.findFirst({
+      where: { eventId: { in: events.map(event => event.id) } },
+      select: { eventId: true },
+    });
+    return row?.eventId;
+  }
+
+  private toRow(event: Omit<RecordedEvent, 'position'>): Record<string, any> {
+    return {
+      eventId: event.id,
+      streamId: event.streamId,
+      version: event.version,
+      eventType: event.type,
+      aggregateType: event.aggregateType,
+      schemaVersion: event.schemaVersion,
+      data: JSON.stringify(event.data ?? null),
+      metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+      timestamp: event.occurredOn,
+    };
+  }
+
+  private toEvent(row: any): RecordedEvent {
+    return {
+      id: row.eventId,
+      type: row.eventType,
+      aggregateId: row.streamId,
+      aggregateType: row.aggregateType,
+      streamId: row.streamId,
+      version: row.version,
+      schemaVersion: row.schemaVersion,
+      position: row.position,
+      occurredOn: new Date(row.timestamp),
+      data: typeof row.data === 'string' ? JSON.parse(row.data) : row.data,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+    };
+  }
+}
@@ -6,7 +6,7 @@ import { CoreModule } from '@katarsaad/core';
 
 @Global()
 @Module({
-  imports: [MonitoringModule.forRoot(), CoreModule],
+  imports: [MonitoringModule, CoreModule],
   providers: [FeatureFlagsService, FeatureFlagGuard],
   exports: [FeatureFlagsService, FeatureFlagGuard],
 })
@@ -9,7 +9,7 @@ import { CoreModule } from '@katarsaad/core';
 
 @Global()
 @Module({
-  imports: [MonitoringModule.forRoot(), CoreModule],
+  imports: [MonitoringModule, CoreModule],
   providers: [FileStorageService, FileValidationService, LocalFileAdapter, S3Adapter],
   exports: [FileStorageService, FileValidationService, LocalFileAdapter, S3Adapter],
 })
@@ -0,0 +1,41 @@
+import { Controller, Get, HttpStatus, Res, Type } from '@nestjs/common';
+import { Response } from 'express';
+import { HealthService } from '../services/health.service';
+import { HealthReport, HealthStatus } from '../interfaces/health.interface';
+
+/**
+ * Liveness and readiness probes, mounted by `HealthModule.forRoot({ endpoint })`
+ * under the path built by `createHealthController`.
+ * Respond with 503 when the report is down, so orchestrators act on the
+ * status code alone.
+ */
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  async live(@Res({ passthrough: true }) response: Response): Promise<HealthReport> {
+    return this.respond(await this.healthService.checkLiveness(), response);
+  }
+
+  @Get('ready')
+  async ready(@Res({ passthrough: true }) response: Response): Promise<HealthReport> {
+    return this.respond(await this.healthService.checkReadiness(), response);
+  }
+
+  private respond(report: HealthReport, response: Response): HealthReport {
+    response.status(report.status === HealthStatus.DOWN ? HttpStatus.SERVICE_UNAVAILABLE : HttpStatus.OK);
+    return report;
+  }
+}
+
+/**
+ * Probes served under `path`. Each call decorates a new class, so two
+ * applications in one process can mount them at different paths.
+ */
+export function createHealthController(path: string = 'health'): Type<HealthController> {
+  @Controller(path)
+  class PathHealthController extends HealthController {}
+
+  return PathHealthController;
+}
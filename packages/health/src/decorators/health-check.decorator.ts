@@ -4,10 +4,19 @@ export const HEALTH_CHECK_KEY = 'health_check';
 
 export interface HealthCheckOptions {
   name: string;
+  /** Milliseconds before the check counts as down. Defaults to the module's `timeout`. */
   timeout?: number;
+  /** Milliseconds a result is reused. Defaults to the module's `cacheTtl`. */
   interval?: number;
+  /** A critical check going down takes the report down; others only degrade it. Defaults to true. */
   critical?: boolean;
+  /** Also run by the liveness probe, so it must not depend on other services. Defaults to false. */
+  liveness?: boolean;
 }
 
-export const HealthCheckDecorator = (options: HealthCheckOptions) => 
-  SetMetadata(HEALTH_CHECK_KEY, options);
\ No newline at end of file
+/**
+ * Marks a provider implementing `HealthIndicator`; `HealthService` registers it
+ * under `name` when the application starts.
+ */
+export const HealthCheckDecorator = (options: HealthCheckOptions) =>
+  SetMetadata(HEALTH_CHECK_KEY, options);
@@ -1,13 +1,32 @@
-import { Module, Global } from '@nestjs/common';
+import { Module, Global, DynamicModule } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { HealthService } from './services/health.service';
 import { DependencyHealthService } from './services/dependency-health.service';
+import { createHealthController } from './controllers/health.controller';
+import { HEALTH_OPTIONS, HealthModuleOptions } from './interfaces/health.interface';
 import { MonitoringModule } from '@katarsaad/monitoring';
 import { InfrastructureModule } from '@katarsaad/infrastructure';
 
 @Global()
 @Module({
-  imports: [MonitoringModule.forRoot(), InfrastructureModule],
+  imports: [MonitoringModule, InfrastructureModule, DiscoveryModule],
   providers: [HealthService, DependencyHealthService],
   exports: [HealthService, DependencyHealthService],
 })
-export class HealthModule {}
\ No newline at end of file
+export class HealthModule {
+  static forRoot(options: HealthModuleOptions = {}): DynamicModule {
+    const endpoint = typeof options.endpoint === 'string' ? options.endpoint : undefined;
+
+    return {
+      module: HealthModule,
+      controllers: options.endpoint ? [createHealthController(endpoint)] : [],
+      providers: [
+        {
+          provide: HEALTH_OPTIONS,
+          useValue: options,
+        },
+      ],
+      exports: [HEALTH_OPTIONS],
+    };
+  }
+}
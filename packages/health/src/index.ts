@@ -1,5 +1,11 @@
 export * from './services/health.service';
 export * from './services/dependency-health.service';
+export * from './indicators/memory.indicator';
+export * from './indicators/disk.indicator';
+export * from './indicators/database.indicator';
+export * from './indicators/cache.indicator';
+export * from './indicators/http.indicator';
+export * from './controllers/health.controller';
 export * from './decorators/health-check.decorator';
 export * from './health.module';
-export type { HealthCheck, HealthStatus, HealthIndicator, HealthReport } from './interfaces/health.interface';
\ No newline at end of file
+export * from './interfaces/health.interface';
@@ -0,0 +1,27 @@
+import { CacheService } from '@katarsaad/infrastructure';
+import { HealthCheck, HealthIndicator, HealthStatus } from '../interfaces/health.interface';
+
+/**
+ * Writes, reads back and deletes a key.
+ */
+export class CacheHealthIndicator implements HealthIndicator {
+  readonly name = 'cache';
+
+  constructor(private readonly cache: CacheService) {}
+
+  async check(): Promise<HealthCheck> {
+    const key = `health:${Date.now()}:${Math.random().toString(36).substr(2, 9)}`;
+    const value = Date.now();
+
+    await this.cache.set(key, value, { ttl: 60 });
+    const read = await this.cache.get<number>(key);
+    await this.cache.delete(key);
+
+    return {
+      name: this.name,
+      status: read === value ? HealthStatus.UP : HealthStatus.DOWN,
+      message: read === value ? undefined : 'Value read back differs from the one written',
+      timestamp: new Date(),
+    };
+  }
+}
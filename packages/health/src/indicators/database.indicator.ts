@@ -0,0 +1,16 @@
+import { Infrastructure } from '@katarsaad/infrastructure';
+import { HealthCheck, HealthIndicator, HealthStatus } from '../interfaces/health.interface';
+
+/**
+ * Runs `SELECT 1` through Prisma.
+ */
+export class DatabaseHealthIndicator implements HealthIndicator {
+  readonly name = 'database';
+
+  constructor(private readonly infrastructure: Infrastructure) {}
+
+  async check(): Promise<HealthCheck> {
+    await this.infrastructure.ping();
+    return { name: this.name, status: HealthStatus.UP, timestamp: new Date() };
+  }
+}
@@ -0,0 +1,34 @@
+import { promises as fs } from 'fs';
+import { DiskHealthOptions, HealthCheck, HealthIndicator, HealthStatus } from '../interfaces/health.interface';
+
+/**
+ * Checks the space left on the file system holding `path`.
+ */
+export class DiskHealthIndicator implements HealthIndicator {
+  readonly name = 'disk';
+
+  constructor(private readonly options: DiskHealthOptions = {}) {}
+
+  async check(): Promise<HealthCheck> {
+    const path = this.options.path || process.cwd();
+    const stats = await fs.statfs(path);
+    // Blocks reserved for root are not available to the process
+    const usagePercent = stats.blocks > 0 ? (1 - stats.bavail / stats.blocks) * 100 : 0;
+
+    let status = HealthStatus.UP;
+    if (usagePercent > (this.options.downPercent ?? 95)) status = HealthStatus.DOWN;
+    else if (usagePercent > (this.options.degradedPercent ?? 85)) status = HealthStatus.DEGRADED;
+
+    return {
+      name: this.name,
+      status,
+      timestamp: new Date(),
+      metadata: {
+        path,
+        availableMB: Math.round((stats.bavail * stats.bsize) / 1024 / 1024),
+        totalMB: Math.round((stats.blocks * stats.bsize) / 1024 / 1024),
+        usagePercent: Math.round(usagePercent),
+      },
+    };
+  }
+}
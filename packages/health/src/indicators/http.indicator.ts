@@ -0,0 +1,34 @@
+import { HttpUtils } from '@katarsaad/shared';
+import { HealthCheck, HealthIndicator, HealthStatus, HttpHealthOptions } from '../interfaces/health.interface';
+
+/**
+ * Pings an HTTP dependency with a GET request.
+ */
+export class HttpHealthIndicator implements HealthIndicator {
+  readonly name: string;
+
+  constructor(
+    private readonly options: HttpHealthOptions,
+    private readonly timeout: number = 5000
+  ) {
+    this.name = options.name;
+  }
+
+  async check(): Promise<HealthCheck> {
+    const response = await HttpUtils.request(this.options.url, {
+      method: 'GET',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(this.timeout),
+    });
+    const expected = this.options.expectedStatus;
+    const healthy = expected !== undefined ? response.status === expected : response.status < 400;
+
+    return {
+      name: this.name,
+      status: healthy ? HealthStatus.UP : HealthStatus.DOWN,
+      message: healthy ? undefined : `${this.options.url} responded with ${response.status}`,
+      timestamp: new Date(),
+      metadata: { url: this.options.url, statusCode: response.status },
+    };
+  }
+}
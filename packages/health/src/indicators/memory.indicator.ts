@@ -0,0 +1,32 @@
+import { getHeapStatistics } from 'v8';
+import { HealthCheck, HealthIndicator, HealthStatus, MemoryHealthOptions } from '../interfaces/health.interface';
+
+/**
+ * Compares the heap in use to the V8 heap limit, which unlike the current
+ * heap size does not grow with usage.
+ */
+export class MemoryHealthIndicator implements HealthIndicator {
+  readonly name = 'memory';
+
+  constructor(private readonly options: MemoryHealthOptions = {}) {}
+
+  async check(): Promise<HealthCheck> {
+    const { used_heap_size, heap_size_limit } = getHeapStatistics();
+    const usagePercent = (used_heap_size / heap_size_limit) * 100;
+
+    let status = HealthStatus.UP;
+    if (usagePercent > (this.options.downPercent ?? 90)) status = HealthStatus.DOWN;
+    else if (usagePercent > (this.options.degradedPercent ?? 75)) status = HealthStatus.DEGRADED;
+
+    return {
+      name: this.name,
+      status,
+      timestamp: new Date(),
+      metadata: {
+        heapUsedMB: Math.round(used_heap_size / 1024 / 1024),
+        heapLimitMB: Math.round(heap_size_limit / 1024 / 1024),
+        usagePercent: Math.round(usagePercent),
+      },
+    };
+  }
+}
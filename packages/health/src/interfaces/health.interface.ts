@@ -1,3 +1,5 @@
+export const HEALTH_OPTIONS = 'HEALTH_OPTIONS';
+
 export interface HealthCheck {
   name: string;
   status: HealthStatus;
@@ -5,6 +7,8 @@ export interface HealthCheck {
   duration?: number;
   timestamp: Date;
   metadata?: Record<string, any>;
+  /** Whether the check going down makes the whole report down. */
+  critical?: boolean;
 }
 
 export enum HealthStatus {
@@ -23,4 +27,54 @@ export interface HealthReport {
   checks: HealthCheck[];
   uptime: number;
   timestamp: Date;
-}
\ No newline at end of file
+}
+
+export interface MemoryHealthOptions {
+  /** Percent of the V8 heap limit in use above which memory is degraded. Defaults to 75. */
+  degradedPercent?: number;
+  /** Defaults to 90. */
+  downPercent?: number;
+}
+
+export interface DiskHealthOptions {
+  /** Defaults to the working directory. */
+  path?: string;
+  /** Percent of the file system in use above which disk is degraded. Defaults to 85. */
+  degradedPercent?: number;
+  /** Defaults to 95. */
+  downPercent?: number;
+}
+
+export interface QueueHealthOptions {
+  /** Defaults to every queue of `QueueService`. */
+  queues?: string[];
+  /** Waiting jobs per queue above which the queue is degraded. Defaults to 1000. */
+  maxBacklog?: number;
+}
+
+export interface HttpHealthOptions {
+  name: string;
+  url: string;
+  /** Defaults to any 2xx or 3xx status. */
+  expectedStatus?: number;
+  /** Defaults to true. */
+  critical?: boolean;
+}
+
+export interface HealthModuleOptions {
+  /** Milliseconds before a check counts as down. Defaults to 5000. */
+  timeout?: number;
+  /** Milliseconds results are reused so probes do not hammer dependencies. Defaults to 10000. */
+  cacheTtl?: number;
+  /** Mounts `live` and `ready` probes under `/health`, or the given path. */
+  endpoint?: boolean | string;
+  memory?: false | MemoryHealthOptions;
+  disk?: false | DiskHealthOptions;
+  /** Prisma `SELECT 1` through `Infrastructure`. Defaults to true when it is provided. */
+  database?: boolean;
+  /** Cache round-trip through `Infrastructure`. Defaults to true when it is provided. */
+  cache?: boolean;
+  /** Backlog of the queues of `QueueService`, checked when `QueueModule` is imported. */
+  queue?: false | QueueHealthOptions;
+  http?: HttpHealthOptions[];
+}
@@ -1,26 +1,34 @@
-import { Injectable } from '@nestjs/common';
-import { HealthCheck, HealthStatus, HealthIndicator } from '../interfaces/health.interface';
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { HEALTH_OPTIONS, HealthCheck, HealthStatus, HealthIndicator, HealthModuleOptions } from '../interfaces/health.interface';
 import { MetricsService } from '@katarsaad/monitoring';
 import { Infrastructure } from '@katarsaad/infrastructure';
+import { DatabaseHealthIndicator } from '../indicators/database.indicator';
+import { CacheHealthIndicator } from '../indicators/cache.indicator';
+import { HttpHealthIndicator } from '../indicators/http.indicator';
 
+/**
+ * Probes the database, the cache and the configured HTTP dependencies at
+ * once, reporting degraded when any of them is down.
+ */
 @Injectable()
 export class DependencyHealthService implements HealthIndicator {
   name = 'dependencies';
 
   constructor(
     private metrics: MetricsService,
-    private infrastructure: Infrastructure
+    @Optional() private infrastructure?: Infrastructure,
+    @Optional() @Inject(HEALTH_OPTIONS) private options?: HealthModuleOptions
   ) {}
 
   async check(): Promise<HealthCheck> {
     const startTime = Date.now();
     
     try {
-      const checks = await Promise.all([
+      const checks = (await Promise.all([
         this.checkDatabase(),
-        this.checkRedis(),
+        this.checkCache(),
         this.checkExternalAPIs()
-      ]);
+      ])).flat();
 
       const allUp = checks.every(check => check.status === HealthStatus.UP);
       const status = allUp ? HealthStatus.UP : HealthStatus.DEGRADED;
@@ -49,33 +57,33 @@ export class DependencyHealthService implements HealthIndicator {
     }
   }
 
-  private async checkDatabase(): Promise<{ name: string; status: HealthStatus }> {
-    try {
-      // Mock database check
-      await new Promise(resolve => setTimeout(resolve, 10));
-      return { name: 'database', status: HealthStatus.UP };
-    } catch {
-      return { name: 'database', status: HealthStatus.DOWN };
-    }
+  private async checkDatabase(): Promise<Array<{ name: string; status: HealthStatus; message?: string }>> {
+    if (!this.infrastructure) return [];
+    return [await this.probe('database', () => new DatabaseHealthIndicator(this.infrastructure!).check())];
   }
 
-  private async checkRedis(): Promise<{ name: string; status: HealthStatus }> {
-    try {
-      // Mock Redis check
-      await new Promise(resolve => setTimeout(resolve, 5));
-      return { name: 'redis', status: HealthStatus.UP };
-    } catch {
-      return { name: 'redis', status: HealthStatus.DOWN };
-    }
+  private async checkCache(): Promise<Array<{ name: string; status: HealthStatus; message?: string }>> {
+    if (!this.infrastructure) return [];
+    return [await this.probe('cache', () => new CacheHealthIndicator(this.infrastructure!.cache()).check())];
   }
 
-  private async checkExternalAPIs(): Promise<{ name: string; status: HealthStatus }> {
+  private async checkExternalAPIs(): Promise<Array<{ name: string; status: HealthStatus; message?: string }>> {
+    return Promise.all(
+      (this.options?.http || []).map(http =>
+        this.probe(http.name, () => new HttpHealthIndicator(http, this.options?.timeout).check())
+      )
+    );
+  }
+
+  private async probe(
+    name: string,
+    check: () => Promise<HealthCheck>
+  ): Promise<{ name: string; status: HealthStatus; message?: string }> {
     try {
-      // Mock external API check
-      await new Promise(resolve => setTimeout(resolve, 20));
-      return { name: 'external_apis', status: HealthStatus.UP };
-    } catch {
-      return { name: 'external_apis', status: HealthStatus.DOWN };
+      const { status, message } = await check();
+      return { name, status, message };
+    } catch (error) {
+      return { name, status: HealthStatus.DOWN, message: error instanceof Error ? error.message : undefined };
     }
   }
-}
\ No newline at end of file
+}
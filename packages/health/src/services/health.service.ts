@@ -1,81 +1,194 @@
-import { Injectable } from '@nestjs/common';
-
-export interface HealthCheck {
-  name: string;
-  status: 'healthy' | 'unhealthy' | 'degraded';
-  responseTime: number;
-  details?: any;
-  lastChecked: Date;
-}
+import { Inject, Injectable, OnModuleInit, Optional } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { MetricsService } from '@katarsaad/monitoring';
+import { Infrastructure } from '@katarsaad/infrastructure';
+import {
+  HEALTH_OPTIONS,
+  HealthCheck,
+  HealthIndicator,
+  HealthModuleOptions,
+  HealthReport,
+  HealthStatus,
+} from '../interfaces/health.interface';
+import { HEALTH_CHECK_KEY, HealthCheckOptions } from '../decorators/health-check.decorator';
+import { MemoryHealthIndicator } from '../indicators/memory.indicator';
+import { DiskHealthIndicator } from '../indicators/disk.indicator';
+import { DatabaseHealthIndicator } from '../indicators/database.indicator';
+import { CacheHealthIndicator } from '../indicators/cache.indicator';
+import { HttpHealthIndicator } from '../indicators/http.indicator';
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_CACHE_TTL = 10000;
 
-export interface SystemHealth {
-  status: 'healthy' | 'unhealthy' | 'degraded';
-  checks: HealthCheck[];
-  uptime: number;
-  timestamp: Date;
+interface RegisteredIndicator {
+  indicator: HealthIndicator;
+  options: Omit<HealthCheckOptions, 'name'>;
+  cached?: { result: HealthCheck; expiresAt: number };
+  running?: Promise<HealthCheck>;
 }
 
+/**
+ * Registry of health indicators. Registers memory, disk, database, cache and
+ * HTTP indicators from the module options and the services available, then
+ * the providers marked with `@HealthCheckDecorator`, such as the queue
+ * backlog of `QueueModule`; applications add their own with `register`.
+ * Results are cached for `interval` so frequent probes do not hammer
+ * dependencies, and a check exceeding its `timeout` counts as down.
+ */
 @Injectable()
-export class HealthService {
+export class HealthService implements OnModuleInit {
   private startTime = Date.now();
+  private readonly indicators = new Map<string, RegisteredIndicator>();
+  private readonly options: HealthModuleOptions;
+
+  constructor(
+    @Optional() private readonly metricsService?: MetricsService,
+    @Optional() @Inject(HEALTH_OPTIONS) options?: HealthModuleOptions,
+    @Optional() infrastructure?: Infrastructure,
+    @Optional() private readonly discovery?: DiscoveryService
+  ) {
+    this.options = options || {};
+
+    if (this.options.memory !== false) {
+      this.register(new MemoryHealthIndicator(this.options.memory), { liveness: true });
+    }
+    if (this.options.disk !== false) {
+      this.register(new DiskHealthIndicator(this.options.disk));
+    }
+    if (infrastructure && this.options.database !== false) {
+      this.register(new DatabaseHealthIndicator(infrastructure));
+    }
+    if (infrastructure && this.options.cache !== false) {
+      this.register(new CacheHealthIndicator(infrastructure.cache()));
+    }
+    for (const http of this.options.http || []) {
+      this.register(new HttpHealthIndicator(http, this.options.timeout ?? DEFAULT_TIMEOUT), { critical: http.critical });
+    }
+  }
+
+  /**
+   * Registers the decorated providers of every module, except those whose
+   * name is an option set to false, like `queue: false`.
+   */
+  onModuleInit(): void {
+    const options = this.options as Record<string, unknown>;
 
-  async check(): Promise<SystemHealth> {
-    const checks = await Promise.all([
-      this.checkMemory(),
-      this.checkDisk()
-    ]);
+    for (const wrapper of this.discovery?.getProviders() || []) {
+      const checkOptions: HealthCheckOptions | undefined =
+        wrapper.metatype && Reflect.getMetadata(HEALTH_CHECK_KEY, wrapper.metatype);
+      if (!checkOptions || !wrapper.instance || options[checkOptions.name] === false) {
+        continue;
+      }
+
+      const { name, ...rest } = checkOptions;
+      const indicator: HealthIndicator = wrapper.instance;
+      this.register({ name, check: () => indicator.check() }, rest);
+    }
+  }
 
-    const overallStatus = this.determineOverallStatus(checks);
+  /**
+   * Adds an indicator, replacing any registered under the same name.
+   */
+  register(indicator: HealthIndicator, options: Omit<HealthCheckOptions, 'name'> = {}): void {
+    this.indicators.set(indicator.name, { indicator, options });
+  }
+
+  unregister(name: string): boolean {
+    return this.indicators.delete(name);
+  }
+
+  getIndicators(): string[] {
+    return Array.from(this.indicators.keys());
+  }
+
+  /**
+   * Runs every indicator; same as `checkReadiness`.
+   */
+  async check(): Promise<HealthReport> {
+    return this.checkReadiness();
+  }
+
+  /**
+   * Whether the process works at all: only indicators registered with
+   * `liveness`, which do not depend on other services. Restarting a process
+   * because a dependency is down would not help.
+   */
+  async checkLiveness(): Promise<HealthReport> {
+    return this.report(Array.from(this.indicators.values()).filter(registered => registered.options.liveness));
+  }
+
+  /**
+   * Whether the process can serve traffic: every indicator. Down when a
+   * critical check is down, degraded when any other check is not up.
+   */
+  async checkReadiness(): Promise<HealthReport> {
+    return this.report(Array.from(this.indicators.values()));
+  }
+
+  private async report(indicators: RegisteredIndicator[]): Promise<HealthReport> {
+    const checks = await Promise.all(indicators.map(registered => this.run(registered)));
 
     return {
-      status: overallStatus,
+      status: this.determineOverallStatus(checks),
       checks,
       uptime: Date.now() - this.startTime,
       timestamp: new Date()
     };
   }
 
-  private async checkMemory(): Promise<HealthCheck> {
-    const start = Date.now();
-    const memUsage = process.memoryUsage();
-    const heapUsedMB = memUsage.heapUsed / 1024 / 1024;
-    const heapTotalMB = memUsage.heapTotal / 1024 / 1024;
-    const usagePercent = (heapUsedMB / heapTotalMB) * 100;
-    
-    let status: 'healthy' | 'unhealthy' | 'degraded' = 'healthy';
-    if (usagePercent > 90) status = 'unhealthy';
-    else if (usagePercent > 75) status = 'degraded';
-
-    return {
-      name: 'memory',
-      status,
-      responseTime: Date.now() - start,
-      details: {
-        heapUsedMB: Math.round(heapUsedMB),
-        heapTotalMB: Math.round(heapTotalMB),
-        usagePercent: Math.round(usagePercent)
-      },
-      lastChecked: new Date()
-    };
+  private run(registered: RegisteredIndicator): Promise<HealthCheck> {
+    if (registered.cached && registered.cached.expiresAt > Date.now()) {
+      return Promise.resolve(registered.cached.result);
+    }
+    if (!registered.running) {
+      registered.running = this.execute(registered).finally(() => {
+        registered.running = undefined;
+      });
+    }
+    return registered.running;
   }
 
-  private async checkDisk(): Promise<HealthCheck> {
+  private async execute(registered: RegisteredIndicator): Promise<HealthCheck> {
+    const { indicator, options } = registered;
+    const timeout = options.timeout ?? this.options.timeout ?? DEFAULT_TIMEOUT;
     const start = Date.now();
-    return {
-      name: 'disk',
-      status: 'healthy',
-      responseTime: Date.now() - start,
-      details: { available: '85%' },
-      lastChecked: new Date()
+    let timer: NodeJS.Timeout | undefined;
+
+    let result: HealthCheck;
+    try {
+      result = await Promise.race([
+        indicator.check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+        }),
+      ]);
+    } catch (error) {
+      result = {
+        name: indicator.name,
+        status: HealthStatus.DOWN,
+        message: error instanceof Error ? error.message : 'Health check failed',
+        timestamp: new Date()
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    result = { ...result, duration: Date.now() - start, critical: options.critical ?? true };
+    registered.cached = {
+      result,
+      expiresAt: Date.now() + (options.interval ?? this.options.cacheTtl ?? DEFAULT_CACHE_TTL),
     };
+
+    const value = result.status === HealthStatus.UP ? 1 : result.status === HealthStatus.DEGRADED ? 0.5 : 0;
+    this.metricsService?.setGauge('health_check_status', value, 'Health check status: 1 up, 0.5 degraded, 0 down', {
+      check: indicator.name,
+    });
+    return result;
   }
 
-  private determineOverallStatus(checks: HealthCheck[]): 'healthy' | 'unhealthy' | 'degraded' {
-    const unhealthyCount = checks.filter(c => c.status === 'unhealthy').length;
-    const degradedCount = checks.filter(c => c.status === 'degraded').length;
-    
-    if (unhealthyCount > 0) return 'unhealthy';
-    if (degradedCount > 0) return 'degraded';
-    return 'healthy';
+  private determineOverallStatus(checks: HealthCheck[]): HealthStatus {
+    if (checks.some(check => check.status === HealthStatus.DOWN && check.critical)) return HealthStatus.DOWN;
+    if (checks.some(check => check.status !== HealthStatus.UP)) return HealthStatus.DEGRADED;
+    return HealthStatus.UP;
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,10 @@
-import { Injectable } from "@nestjs/common";
+import { Inject, Injectable, Optional } from "@nestjs/common";
+import {
+  InstrumentationUtils,
+  OPERATION_INSTRUMENTER,
+  OperationInstrumenter,
+  OperationOutcome,
+} from "@katarsaad/core";
 
 interface ICacheOptions {
   ttl?: number;
@@ -20,16 +26,29 @@ export class CacheService {
   >();
   private stats = { hits: 0, misses: 0 };
 
+  constructor(
+    @Optional()
+    @Inject(OPERATION_INSTRUMENTER)
+    private readonly instrumenter?: OperationInstrumenter
+  ) {}
+
   async get<T>(key: string): Promise<T | null> {
-    const item = this.cache.get(key);
+    return this.instrument(
+      "get",
+      key,
+      async () => {
+        const item = this.cache.get(key);
 
-    if (!item || Date.now() > item.expires) {
-      this.stats.misses++;
-      return null;
-    }
+        if (!item || Date.now() > item.expires) {
+          this.stats.misses++;
+          return null;
+        }
 
-    this.stats.hits++;
-    return item.value;
+        this.stats.hits++;
+        return item.value as T;
+      },
+      (value) => ({ attributes: { "cache.hit": value !== null } })
+    );
   }
 
   async set<T>(
@@ -37,14 +56,16 @@ export class CacheService {
     value: T,
     options: ICacheOptions = {}
   ): Promise<void> {
-    const { ttl = 3600, tags = [] } = options;
-    const expires = Date.now() + ttl * 1000;
+    return this.instrument("set", key, async () => {
+      const { ttl = 3600, tags = [] } = options;
+      const expires = Date.now() + ttl * 1000;
 
-    this.cache.set(key, { value, expires, tags });
+      this.cache.set(key, { value, expires, tags });
+    });
   }
 
   async delete(key: string): Promise<boolean> {
-    return this.cache.delete(key);
+    return this.instrument("delete", key, async () => this.cache.delete(key));
   }
 
   async clear(): Promise<void> {
@@ -77,4 +98,22 @@ export class CacheService {
       totalKeys: this.cache.size,
     };
   }
+
+  private instrument<T>(
+    operation: string,
+    key: string,
+    fn: () => Promise<T>,
+    outcome?: (result: T) => OperationOutcome
+  ): Promise<T> {
+    if (!this.instrumenter) return fn();
+    return this.instrumenter.instrument(
+      {
+        component: "cache",
+        operation,
+        target: InstrumentationUtils.cacheTarget(key),
+      },
+      fn,
+      outcome
+    );
+  }
 }
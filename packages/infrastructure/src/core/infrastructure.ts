@@ -1,8 +1,12 @@
 import { PrismaClient } from '@prisma/client';
-import { RepositoryFactory } from './repository-factory';
+import { EventEnvelope, EventBusService, OperationInstrumenter } from '@katarsaad/core';
+import { MetricsService } from '@katarsaad/monitoring';
+import { DynamicRepository, RepositoryFactory } from './repository-factory';
 import { QueryBuilderFactory } from './query-builder';
 import { CacheService } from './cache.service';
 import { IBaseRepository } from '../interfaces/repository.interface';
+import { IPrismaOutboxClient, OutboxService } from '../services/outbox.service';
+import { OutboxRelayOptions, OutboxRelayService } from '../services/outbox-relay.service';
 
 export interface InfrastructureConfig {
   database: {
@@ -31,6 +35,18 @@ export interface InfrastructureConfig {
     audit?: { track: string[] };
     search?: { fields: string[] };
   }>;
+  /** Runs an outbox relay publishing stored events when set. */
+  outbox?: OutboxRelayOptions;
+}
+
+/**
+ * Work done inside one database transaction. Events added with `addEvent`
+ * are written to the outbox in that same transaction.
+ */
+export interface UnitOfWork {
+  tx: any;
+  repository<T>(modelName: string): IBaseRepository<T>;
+  addEvent(event: EventEnvelope): void;
 }
 
 export class Infrastructure {
@@ -38,9 +54,14 @@ export class Infrastructure {
   private repositoryFactory: RepositoryFactory;
   private queryBuilderFactory: QueryBuilderFactory;
   private cacheService: CacheService;
+  private outboxService: OutboxService;
   private initialized = false;
 
-  constructor(private config: InfrastructureConfig) {
+  constructor(
+    private config: InfrastructureConfig,
+    private eventBus?: EventBusService,
+    private instrumenter?: OperationInstrumenter
+  ) {
     this.prisma = new PrismaClient({
       datasources: {
         db: {
@@ -49,9 +70,10 @@ export class Infrastructure {
       }
     });
     
-    this.repositoryFactory = new RepositoryFactory(this.prisma);
-    this.queryBuilderFactory = new QueryBuilderFactory(this.prisma);
-    this.cacheService = new CacheService();
+    this.repositoryFactory = new RepositoryFactory(this.prisma, events => this.eventBus?.publishMany(events), instrumenter);
+    this.queryBuilderFactory = new QueryBuilderFactory(this.prisma, instrumenter);
+    this.cacheService = new CacheService(instrumenter);
+    this.outboxService = new OutboxService(this.prisma as unknown as IPrismaOutboxClient);
   }
 
   async initialize(): Promise<void> {
@@ -91,11 +113,47 @@ export class Infrastructure {
     return this.cacheService;
   }
 
+  /**
+   * Runs `SELECT 1` against the database, e.g. for readiness checks.
+   */
+  async ping(): Promise<void> {
+    this.ensureInitialized();
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+
   async transaction<T>(callback: (tx: any) => Promise<T>): Promise<T> {
     this.ensureInitialized();
     return await this.prisma.$transaction(callback);
   }
 
+  /**
+   * Runs `work` in a transaction and stores the events it adds in the outbox
+   * before committing, so they are published only if the changes are.
+   */
+  async unitOfWork<T>(work: (uow: UnitOfWork) => Promise<T>): Promise<T> {
+    this.ensureInitialized();
+    return await this.prisma.$transaction(async (tx: any) => {
+      const events: EventEnvelope[] = [];
+      const result = await work({
+        tx,
+        repository: <R>(modelName: string) => new DynamicRepository<R>(tx, modelName, saved => {
+          events.push(...saved);
+        }, this.instrumenter),
+        addEvent: event => events.push(event),
+      });
+      await this.outboxService.add(events, tx);
+      return result;
+    });
+  }
+
+  outbox(): OutboxService {
+    return this.outboxService;
+  }
+
+  createOutboxRelay(eventBus: EventBusService, metrics?: MetricsService): OutboxRelayService {
+    return new OutboxRelayService(this.prisma as unknown as IPrismaOutboxClient, eventBus, this.config.outbox, metrics);
+  }
+
   async executeRaw(query: string, ...params: any[]): Promise<any> {
     this.ensureInitialized();
     return await this.prisma.$queryRawUnsafe(query, ...params);
@@ -164,8 +222,12 @@ export class Infrastructure {
 }
 
 // Factory function for easy setup
-export function createInfrastructure(config: InfrastructureConfig): Infrastructure {
-  return new Infrastructure(config);
+export function createInfrastructure(
+  config: InfrastructureConfig,
+  eventBus?: EventBusService,
+  instrumenter?: OperationInstrumenter
+): Infrastructure {
+  return new Infrastructure(config, eventBus, instrumenter);
 }
 
 // Default configuration
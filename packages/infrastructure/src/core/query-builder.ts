@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { InstrumentationUtils, OperationInstrumenter } from '@katarsaad/core';
 import { IFilterOptions, IPaginationOptions, ISearchOptions } from '../interfaces/repository.interface';
 import { DatabaseException } from '../exceptions/infrastructure.exceptions';
 
@@ -19,11 +20,16 @@ export class QueryBuilder<T> {
 
   constructor(
     private prisma: PrismaClient,
-    private modelName: string
+    private modelName: string,
+    private instrumenter?: OperationInstrumenter
   ) {}
 
   private get model() {
-    return (this.prisma as any)[this.modelName];
+    return InstrumentationUtils.instrumentMethods(
+      (this.prisma as any)[this.modelName],
+      operation => ({ component: 'db', operation, target: this.modelName }),
+      this.instrumenter
+    );
   }
 
   where(conditions: Record<string, any>): QueryBuilder<T> {
@@ -307,9 +313,12 @@ export class QueryBuilder<T> {
 }
 
 export class QueryBuilderFactory {
-  constructor(private prisma: PrismaClient) {}
+  constructor(
+    private prisma: PrismaClient,
+    private instrumenter?: OperationInstrumenter
+  ) {}
 
   create<T>(modelName: string): QueryBuilder<T> {
-    return new QueryBuilder<T>(this.prisma, modelName);
+    return new QueryBuilder<T>(this.prisma, modelName, this.instrumenter);
   }
 }
\ No newline at end of file
@@ -1,15 +1,36 @@
 import { PrismaClient } from '@prisma/client';
+import {
+  AggregateRoot,
+  DomainEventDispatcher,
+  EventEnvelope,
+  InstrumentationUtils,
+  OperationInstrumenter,
+} from '@katarsaad/core';
 import { IBaseRepository, IFilterOptions, IPaginationOptions, IPaginatedResult, ISearchOptions, IStatsOptions } from '../interfaces/repository.interface';
 import { DatabaseException, NotFoundExceptionInfra } from '../exceptions/infrastructure.exceptions';
 
+/**
+ * Receives the domain events of saved aggregates: the event bus for plain
+ * repositories, the outbox inside a unit of work.
+ */
+export type DomainEventSink = (events: EventEnvelope[]) => void | Promise<void>;
+
 export class DynamicRepository<T> implements IBaseRepository<T> {
+  private readonly eventDispatcher = new DomainEventDispatcher();
+
   constructor(
     private prisma: PrismaClient,
-    private modelName: string
+    private modelName: string,
+    private eventSink?: DomainEventSink,
+    private instrumenter?: OperationInstrumenter
   ) {}
 
   private get model() {
-    return (this.prisma as any)[this.modelName];
+    return InstrumentationUtils.instrumentMethods(
+      (this.prisma as any)[this.modelName],
+      operation => ({ component: 'db', operation, target: this.modelName }),
+      this.instrumenter
+    );
   }
 
   async create(data: Partial<T>): Promise<T> {
@@ -20,6 +41,24 @@ export class DynamicRepository<T> implements IBaseRepository<T> {
     }
   }
 
+  async save(aggregate: AggregateRoot<any>, data: Partial<T>): Promise<T> {
+    let saved: T;
+    try {
+      saved = await this.model.upsert({
+        where: { id: aggregate.id },
+        create: { ...data, id: aggregate.id },
+        update: data
+      });
+    } catch (error) {
+      throw new DatabaseException(`Failed to save ${this.modelName}`, error);
+    }
+
+    if (this.eventSink) {
+      await this.eventDispatcher.dispatch(aggregate, this.eventSink);
+    }
+    return saved;
+  }
+
   async findById(id: string, options?: IFilterOptions): Promise<T | null> {
     try {
       return await this.model.findUnique({
@@ -206,11 +245,15 @@ export class DynamicRepository<T> implements IBaseRepository<T> {
 export class RepositoryFactory {
   private repositories = new Map<string, DynamicRepository<any>>();
 
-  constructor(private prisma: PrismaClient) {}
+  constructor(
+    private prisma: PrismaClient,
+    private eventSink?: DomainEventSink,
+    private instrumenter?: OperationInstrumenter
+  ) {}
 
   create<T>(modelName: string): IBaseRepository<T> {
     if (!this.repositories.has(modelName)) {
-      this.repositories.set(modelName, new DynamicRepository<T>(this.prisma, modelName));
+      this.repositories.set(modelName, new DynamicRepository<T>(this.prisma, modelName, this.eventSink, this.instrumenter));
     }
     return this.repositories.get(modelName)!;
   }
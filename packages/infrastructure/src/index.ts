@@ -9,6 +9,8 @@ export * from "./interfaces/repository.interface";
 
 // Services
 export * from "./services/prisma.service";
+export * from "./services/outbox.service";
+export * from "./services/outbox-relay.service";
 // PrismaTicketService moved to @katarsaad/core
 export * from "./core/query-builder";
 export * from "./core/cache.service";
@@ -35,8 +35,15 @@ export interface IStatsOptions {
   filters?: Record<string, any>;
 }
 
+import type { AggregateRoot } from '@katarsaad/core';
+
 export interface IBaseRepository<T, ID = string> {
   create(data: Partial<T>): Promise<T>;
+  /**
+   * Upserts the row of an aggregate, then dispatches its pending domain
+   * events. Events stay pending when the write fails.
+   */
+  save(aggregate: AggregateRoot<any>, data: Partial<T>): Promise<T>;
   findById(id: ID, options?: IFilterOptions): Promise<T | null>;
   findMany(options?: IFilterOptions & IPaginationOptions): Promise<IPaginatedResult<T>>;
   update(id: ID, data: Partial<T>): Promise<T>;
@@ -1,6 +1,9 @@
 import { Module, Global, DynamicModule } from '@nestjs/common';
 import { Infrastructure, InfrastructureConfig, defaultConfig } from '../core/infrastructure';
 import { CacheService } from '../core/cache.service';
+import { OutboxRelayService } from '../services/outbox-relay.service';
+import { EVENT_OUTBOX, EventBusService, OPERATION_INSTRUMENTER, OperationInstrumenter } from '@katarsaad/core';
+import { MetricsService } from '@katarsaad/monitoring';
 
 @Global()
 @Module({})
@@ -32,15 +35,37 @@ export class InfrastructureModule {
       providers: [
         {
           provide: Infrastructure,
-          useFactory: async () => {
-            const infrastructure = new Infrastructure(infrastructureConfig);
+          useFactory: async (eventBus?: EventBusService, instrumenter?: OperationInstrumenter) => {
+            const infrastructure = new Infrastructure(infrastructureConfig, eventBus, instrumenter);
             await infrastructure.initialize();
             return infrastructure;
           },
+          inject: [
+            { token: EventBusService, optional: true },
+            { token: OPERATION_INSTRUMENTER, optional: true },
+          ],
         },
+        // Services only write to the outbox when a relay drains it; otherwise they publish directly
+        ...(infrastructureConfig.outbox ? [{
+          provide: EVENT_OUTBOX,
+          useFactory: (infrastructure: Infrastructure) => infrastructure.outbox(),
+          inject: [Infrastructure],
+        }, {
+          provide: OutboxRelayService,
+          useFactory: (infrastructure: Infrastructure, eventBus: EventBusService, metrics?: MetricsService) => {
+            const relay = infrastructure.createOutboxRelay(eventBus, metrics);
+            relay.start();
+            return relay;
+          },
+          inject: [Infrastructure, EventBusService, { token: MetricsService, optional: true }],
+        }] : []),
+        CacheService,
+      ],
+      exports: [
+        Infrastructure,
+        ...(infrastructureConfig.outbox ? [EVENT_OUTBOX, OutboxRelayService] : []),
         CacheService,
       ],
-      exports: [Infrastructure, CacheService],
     };
   }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { AggregateRoot, DomainEventDispatcher, EventBusService } from '@katarsaad/core';
 import { 
   IBaseRepository, 
   IFilterOptions, 
@@ -11,8 +12,11 @@ import { DatabaseException, NotFoundExceptionInfra } from '../exceptions/infrast
 
 export abstract class BaseRepository<T, ID = string> implements IBaseRepository<T, ID> {
   protected abstract modelName: string;
+  protected readonly eventDispatcher: DomainEventDispatcher;
   
-  constructor(protected prisma: PrismaClient) {}
+  constructor(protected prisma: PrismaClient, eventBus?: EventBusService) {
+    this.eventDispatcher = new DomainEventDispatcher(eventBus);
+  }
 
   protected get model() {
     return (this.prisma as any)[this.modelName];
@@ -26,6 +30,22 @@ export abstract class BaseRepository<T, ID = string> implements IBaseRepository<
     }
   }
 
+  async save(aggregate: AggregateRoot<any>, data: Partial<T>): Promise<T> {
+    let saved: T;
+    try {
+      saved = await this.model.upsert({
+        where: { id: aggregate.id },
+        create: { ...data, id: aggregate.id },
+        update: data
+      });
+    } catch (error) {
+      throw new DatabaseException(`Failed to save ${this.modelName}`, error);
+    }
+
+    await this.eventDispatcher.dispatch(aggregate);
+    return saved;
+  }
+
   async findById(id: ID, options?: IFilterOptions): Promise<T | null> {
     try {
       return await this.model.findUnique({
@@ -0,0 +1,153 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { EventEnvelope, EventBusService } from '@katarsaad/core';
+import { MetricsService } from '@katarsaad/monitoring';
+import { IPrismaOutboxClient } from './outbox.service';
+
+export interface OutboxRelayOptions {
+  /** Milliseconds between polls. Defaults to 1000. */
+  pollInterval?: number;
+  /** Messages claimed per poll. Defaults to 100. */
+  batchSize?: number;
+  /** Milliseconds a claimed message stays hidden from other relays. Defaults to 30000. */
+  lockTimeout?: number;
+}
+
+// Ids recently published by this process, to skip re-claims of the same message
+const DEDUPLICATION_WINDOW = 10000;
+
+/**
+ * Publishes outbox messages to the `EventBusService`. A message is claimed by
+ * pushing its `availableAt` past the lock timeout, published, then marked
+ * published; if the relay dies in between, the claim expires and another
+ * relay publishes it again, so delivery is at least once and consumers
+ * should deduplicate on the event id.
+ */
+export class OutboxRelayService implements OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelayService.name);
+  private readonly published = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private relaying?: Promise<number>;
+  private readonly pollInterval: number;
+  private readonly batchSize: number;
+  private readonly lockTimeout: number;
+
+  constructor(
+    private readonly prisma: IPrismaOutboxClient,
+    private readonly eventBus: EventBusService,
+    options: OutboxRelayOptions = {},
+    private readonly metricsService?: MetricsService
+  ) {
+    this.pollInterval = options.pollInterval ?? 1000;
+    this.batchSize = options.batchSize ?? 100;
+    this.lockTimeout = options.lockTimeout ?? 30000;
+    this.metricsService?.createCounter('outbox_messages_published', 'Outbox messages published to the event bus');
+    this.metricsService?.createCounter('outbox_publish_failures', 'Outbox messages that failed to publish');
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.relayPending().catch(error => this.logger.error('Outbox relay failed:', error));
+    }, this.pollInterval);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.relaying;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.stop();
+  }
+
+  /**
+   * Publishes one batch of due messages and returns how many were published.
+   * Overlapping calls share the batch in progress.
+   */
+  relayPending(): Promise<number> {
+    if (!this.relaying) {
+      this.relaying = this.relayBatch().finally(() => {
+        this.relaying = undefined;
+      });
+    }
+    return this.relaying;
+  }
+
+  /**
+   * Deletes messages published more than `olderThanMs` ago.
+   */
+  async purgePublished(olderThanMs: number): Promise<number> {
+    const { count } = await this.prisma.outboxMessage.deleteMany({
+      where: { publishedAt: { lt: new Date(Date.now() - olderThanMs) } },
+    });
+    return count;
+  }
+
+  private async relayBatch(): Promise<number> {
+    const now = new Date();
+    const rows = await this.prisma.outboxMessage.findMany({
+      where: { publishedAt: null, availableAt: { lte: now } },
+      orderBy: { createdAt: 'asc' },
+      take: this.batchSize,
+    });
+
+    let published = 0;
+    for (const row of rows) {
+      const { count } = await this.prisma.outboxMessage.updateMany({
+        where: { id: row.id, publishedAt: null, availableAt: row.availableAt },
+        data: { availableAt: new Date(now.getTime() + this.lockTimeout), attempts: { increment: 1 } },
+      });
+      // Another relay claimed it first
+      if (count === 0) continue;
+
+      try {
+        if (!this.published.has(row.id)) {
+          this.eventBus.publish(this.toEvent(row));
+          this.remember(row.id);
+        }
+        await this.prisma.outboxMessage.update({
+          where: { id: row.id },
+          data: { publishedAt: new Date(), lastError: null },
+        });
+        published++;
+        this.metricsService?.incrementCounter('outbox_messages_published', 1, { eventType: row.eventType });
+      } catch (error: any) {
+        this.metricsService?.incrementCounter('outbox_publish_failures', 1, { eventType: row.eventType });
+        this.logger.error(`Failed to relay outbox message ${row.id}:`, error);
+        await this.prisma.outboxMessage.update({
+          where: { id: row.id },
+          data: { lastError: error?.message || String(error) },
+        }).catch(() => undefined);
+      }
+    }
+
+    return published;
+  }
+
+  private remember(id: string): void {
+    this.published.add(id);
+    if (this.published.size > DEDUPLICATION_WINDOW) {
+      this.published.delete(this.published.values().next().value!);
+    }
+  }
+
+  private toEvent(row: any): EventEnvelope {
+    return {
+      id: row.id,
+      type: row.eventType,
+      aggregateId: row.aggregateId,
+      aggregateType: row.aggregateType,
+      version: row.version,
+      schemaVersion: row.schemaVersion,
+      occurredOn: new Date(row.occurredOn),
+      data: JSON.parse(row.payload),
+      metadata: {
+        ...(row.metadata ? JSON.parse(row.metadata) : {}),
+        deduplicationId: row.id,
+      },
+    };
+  }
+}
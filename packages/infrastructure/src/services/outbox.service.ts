@@ -0,0 +1,45 @@
+import { EventEnvelope, EventOutbox } from '@katarsaad/core';
+import { DatabaseException } from '../exceptions/infrastructure.exceptions';
+
+export interface IPrismaOutboxClient {
+  outboxMessage: {
+    createMany(args: any): Promise<{ count: number }>;
+    findMany(args: any): Promise<any[]>;
+    updateMany(args: any): Promise<{ count: number }>;
+    update(args: any): Promise<any>;
+    deleteMany(args: any): Promise<{ count: number }>;
+  };
+}
+
+/**
+ * Prisma-backed `EventOutbox`. Rows go to the `OutboxMessage` table and are
+ * published later by `OutboxRelayService`; the event id doubles as the
+ * deduplication id consumers see.
+ */
+export class OutboxService implements EventOutbox {
+  constructor(private readonly prisma: IPrismaOutboxClient) {}
+
+  async add(events: EventEnvelope | EventEnvelope[], tx?: unknown): Promise<void> {
+    const list = Array.isArray(events) ? events : [events];
+    if (list.length === 0) return;
+
+    const client = (tx as IPrismaOutboxClient | undefined) || this.prisma;
+    try {
+      await client.outboxMessage.createMany({
+        data: list.map(event => ({
+          id: event.id,
+          eventType: event.type,
+          aggregateId: event.aggregateId,
+          aggregateType: event.aggregateType,
+          version: event.version,
+          schemaVersion: event.schemaVersion ?? 1,
+          payload: JSON.stringify(event.data ?? null),
+          metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+          occurredOn: event.occurredOn,
+        })),
+      });
+    } catch (error) {
+      throw new DatabaseException('Failed to write events to the outbox', error);
+    }
+  }
+}
@@ -8,7 +8,7 @@ import { CoreModule } from '@katarsaad/core';
 
 @Global()
 @Module({
-  imports: [MonitoringModule.forRoot(), CoreModule],
+  imports: [MonitoringModule, CoreModule],
   providers: [
     LoggingService,
     WinstonAdapter,
@@ -0,0 +1,30 @@
+import { Controller, Get, Headers, Res, Type } from '@nestjs/common';
+import { Response } from 'express';
+import { MetricsService } from '../services/metrics.service';
+
+/**
+ * Scrape endpoint, mounted by `MonitoringModule.forRoot({ metrics: { endpoint } })`
+ * under the path built by `createMetricsController`.
+ */
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  scrape(@Headers('accept') accept: string | undefined, @Res({ passthrough: true }) response: Response): string {
+    const { contentType, body } = this.metricsService.scrape(accept);
+    response.setHeader('Content-Type', contentType);
+    return body;
+  }
+}
+
+/**
+ * A scrape controller served under `path`. Each call decorates a new class, so
+ * two applications in one process can mount the endpoint at different paths.
+ */
+export function createMetricsController(path: string = 'metrics'): Type<MetricsController> {
+  @Controller(path)
+  class PathMetricsController extends MetricsController {}
+
+  return PathMetricsController;
+}
@@ -0,0 +1,64 @@
+/**
+ * Thrown when a metric or label name is not valid in the Prometheus data
+ * model, or uses a label reserved by its metric type.
+ */
+export class InvalidMetricException extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidMetricException';
+  }
+}
+
+/**
+ * Thrown when a metric is registered again with a different type or
+ * histogram buckets, or collides with the series of another metric.
+ */
+export class MetricRegistrationException extends Error {
+  constructor(
+    public readonly metricName: string,
+    message: string
+  ) {
+    super(`Cannot register metric ${metricName}: ${message}`);
+    this.name = 'MetricRegistrationException';
+  }
+}
+
+/**
+ * Thrown when the Pushgateway rejects a push or cannot be reached.
+ */
+export class PushGatewayException extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'PushGatewayException';
+  }
+}
+
+/**
+ * Thrown when an alert rule cannot be evaluated as configured.
+ */
+export class InvalidAlertRuleException extends Error {
+  constructor(
+    public readonly ruleName: string,
+    message: string
+  ) {
+    super(`Invalid alert rule ${ruleName}: ${message}`);
+    this.name = 'InvalidAlertRuleException';
+  }
+}
+
+/**
+ * Thrown when a service level objective is defined twice or with values
+ * out of range.
+ */
+export class InvalidSloException extends Error {
+  constructor(
+    public readonly sloName: string,
+    message: string
+  ) {
+    super(`Invalid SLO ${sloName}: ${message}`);
+    this.name = 'InvalidSloException';
+  }
+}
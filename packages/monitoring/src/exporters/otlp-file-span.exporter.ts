@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Span, SpanExporter, SpanKind, SpanStatusCode } from '../interfaces/tracing.interface';
+
+export interface OtlpFileSpanExporterOptions {
+  /** File the spans are appended to, one OTLP/JSON export request per line. */
+  path: string;
+  /** Defaults to `OTEL_SERVICE_NAME`, then `unknown_service:node`. */
+  serviceName?: string;
+  resourceAttributes?: Record<string, any>;
+}
+
+const SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const STATUS_CODES: Record<SpanStatusCode, number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+/**
+ * Converts spans to an OTLP/JSON `ExportTraceServiceRequest`.
+ */
+export function toOtlpTraceRequest(spans: Span[], resourceAttributes: Record<string, any>): Record<string, any> {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toAttributes(resourceAttributes) },
+        scopeSpans: [
+          {
+            scope: { name: '@katarsaad/monitoring' },
+            spans: spans.map(span => ({
+              traceId: span.traceId,
+              spanId: span.id,
+              parentSpanId: span.parentId,
+              traceState: span.traceState,
+              name: span.name,
+              kind: SPAN_KINDS[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+              attributes: toAttributes(span.tags),
+              events: span.events.map(event => ({
+                timeUnixNano: toUnixNano(event.time),
+                name: event.name,
+                attributes: toAttributes(event.attributes || {}),
+              })),
+              status: { code: STATUS_CODES[span.status.code], message: span.status.message },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Writes spans in the format of the OpenTelemetry Collector file exporter,
+ * for inspecting traces locally or replaying them into a collector.
+ */
+export class OtlpFileSpanExporter implements SpanExporter {
+  private readonly resourceAttributes: Record<string, any>;
+
+  constructor(private readonly options: OtlpFileSpanExporterOptions) {
+    this.resourceAttributes = {
+      'service.name': options.serviceName || process.env.OTEL_SERVICE_NAME || 'unknown_service:node',
+      ...options.resourceAttributes,
+    };
+  }
+
+  async export(spans: Span[]): Promise<void> {
+    if (spans.length === 0) return;
+
+    await fs.mkdir(path.dirname(this.options.path), { recursive: true });
+    await fs.appendFile(this.options.path, `${JSON.stringify(toOtlpTraceRequest(spans, this.resourceAttributes))}\n`);
+  }
+}
+
+function toUnixNano(milliseconds: number): string {
+  const whole = Math.floor(milliseconds);
+  const nanos = Math.round((milliseconds - whole) * 1e6);
+  return (BigInt(whole) * BigInt(1e6) + BigInt(nanos)).toString();
+}
+
+function toAttributes(attributes: Record<string, any>): Array<{ key: string; value: Record<string, any> }> {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function toAnyValue(value: any): Record<string, any> {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toAnyValue) } };
+  return { stringValue: JSON.stringify(value) };
+}
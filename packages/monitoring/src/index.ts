@@ -1,10 +1,32 @@
 // Interface exports
 export * from './interfaces/metrics.interface';
+export * from './interfaces/monitoring-options.interface';
+export * from './interfaces/tracing.interface';
+export * from './interfaces/alerting.interface';
+export * from './interfaces/slo.interface';
+
+// Exception exports
+export * from './exceptions/monitoring.exceptions';
 
 // Services exports
-export { MetricsService } from './services/metrics.service';
+export { MetricsService, PROMETHEUS_CONTENT_TYPE, OPENMETRICS_CONTENT_TYPE } from './services/metrics.service';
+export * from './services/runtime-metrics.collector';
+export * from './services/metrics-server.service';
+export * from './services/push-gateway.service';
+export * from './services/instrumentation.service';
 export * from './services/tracing.service';
 export * from './services/alerting.service';
+export * from './services/slo.service';
+
+// Exporter exports
+export * from './exporters/otlp-file-span.exporter';
+
+// Middleware exports
+export * from './middleware/tracing.middleware';
+export * from './middleware/http-metrics.middleware';
+
+// Controller exports
+export * from './controllers/metrics.controller';
 
 // Decorators exports
 export * from './decorators/metrics.decorator';
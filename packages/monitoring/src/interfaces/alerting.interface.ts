@@ -0,0 +1,133 @@
+export const ALERT_NOTIFIER = 'ALERT_NOTIFIER';
+
+export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type AlertOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'ne';
+
+/**
+ * How a series is reduced to the value compared against the threshold.
+ * `value` takes the latest sample; the others look back over the rule's
+ * window, like their PromQL namesakes.
+ */
+export type AlertFunction = 'value' | 'rate' | 'increase' | 'delta' | 'avg_over_time' | 'min_over_time' | 'max_over_time';
+
+export type AlertAggregation = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  /** Series name; histograms and summaries expose `<name>_count`, `<name>_sum` and `<name>_bucket`. */
+  metric: string;
+  threshold: number;
+  operator: AlertOperator;
+  enabled: boolean;
+  /** Only series with these label values are evaluated. */
+  matchers?: Record<string, string>;
+  /** Defaults to `value`. */
+  function?: AlertFunction;
+  /** Milliseconds the function looks back over. Defaults to 5 minutes. */
+  window?: number;
+  /** Combines the series into one per distinct value of the `by` labels, or into a single one. */
+  aggregate?: AlertAggregation;
+  by?: string[];
+  /** Milliseconds the condition must hold before the alert fires. Defaults to 0. */
+  for?: number;
+  /**
+   * Threshold a firing alert must fall back past before it resolves, so a
+   * value hovering around `threshold` does not flap.
+   */
+  resolveThreshold?: number;
+  /** Defaults to one derived from how far the value is past the threshold. */
+  severity?: AlertSeverity;
+  /** Added to the labels of the alert. */
+  labels?: Record<string, string>;
+  /** Message template; `{{value}}`, `{{threshold}}` and `{{labels.<name>}}` are replaced. */
+  message?: string;
+}
+
+export type AlertStatus = 'pending' | 'firing' | 'resolved';
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  message: string;
+  severity: AlertSeverity;
+  /** When the alert started firing. */
+  timestamp: Date;
+  resolved: boolean;
+  status: AlertStatus;
+  /** Series labels plus the rule's labels, `alertname` and `severity`. */
+  labels: Record<string, string>;
+  /** Value at the last evaluation. */
+  value: number;
+  /** When the condition started to hold. */
+  activeAt: Date;
+  resolvedAt?: Date;
+  /** Ids of the silences muting the alert. */
+  silencedBy: string[];
+  /** Muted by another firing alert through an inhibit rule. */
+  inhibited: boolean;
+}
+
+/**
+ * Mutes the notifications of matching alerts for a while; the alerts
+ * themselves are still evaluated and listed.
+ */
+export interface Silence {
+  id: string;
+  /** Alerts whose labels have all these values are muted. */
+  matchers: Record<string, string>;
+  startsAt: Date;
+  endsAt: Date;
+  createdBy?: string;
+  comment?: string;
+}
+
+/**
+ * Mutes alerts matching `targetMatchers` while an alert matching
+ * `sourceMatchers` fires, e.g. warnings while the same service is down.
+ */
+export interface InhibitRule {
+  sourceMatchers: Record<string, string>;
+  targetMatchers: Record<string, string>;
+  /** Labels both alerts must have the same values for. */
+  equal?: string[];
+}
+
+export interface AlertRoute {
+  /** Matches every severity when omitted. */
+  severities?: AlertSeverity[];
+  matchers?: Record<string, string>;
+  /** Handed to the `AlertNotifier`, e.g. `email:oncall@example.com`. */
+  receivers: string[];
+  /** Keeps matching the following routes. Defaults to false. */
+  continue?: boolean;
+  /** Milliseconds before a still firing alert is notified again; only once when omitted. */
+  repeatInterval?: number;
+  /** Defaults to true. */
+  sendResolved?: boolean;
+}
+
+export interface AlertNotification {
+  status: 'firing' | 'resolved';
+  alert: Alert;
+  rule: AlertRule;
+}
+
+/**
+ * Delivers alert notifications to a receiver. Registered under
+ * `ALERT_NOTIFIER`, e.g. by the notifications package; without one,
+ * alerts are only logged.
+ */
+export interface AlertNotifier {
+  notify(receiver: string, notification: AlertNotification): Promise<void>;
+}
+
+export interface AlertingOptions {
+  /** Milliseconds between evaluations of the rules against `MetricsService`. Defaults to 15000. */
+  evaluationInterval?: number;
+  rules?: Array<Omit<AlertRule, 'id'> & { id?: string }>;
+  /** Tried in order; the first match wins unless it sets `continue`. */
+  routes?: AlertRoute[];
+  inhibitRules?: InhibitRule[];
+}
@@ -1,11 +1,28 @@
+export type MetricType = 'counter' | 'gauge' | 'histogram' | 'summary';
+
+export interface SummaryOptions {
+  /** Quantiles between 0 and 1 to expose. Defaults to 0.5, 0.9 and 0.99. */
+  quantiles?: number[];
+  /** Only observations this recent count towards the quantiles. Defaults to 600. */
+  maxAgeSeconds?: number;
+  /** Observations kept per series; the oldest are dropped first. Defaults to 10000. */
+  maxSamples?: number;
+}
+
 export interface IMetricsService {
-  createCounter(name: string, help: string, labels?: string[]): void;
+  createCounter(name: string, help: string, labels?: Record<string, string>): void;
   incrementCounter(name: string, value?: number, labels?: Record<string, string>): void;
-  createGauge(name: string, help: string, labels?: string[]): void;
-  setGauge(name: string, value: number, labels?: Record<string, string>): void;
-  createHistogram(name: string, help: string, buckets?: number[], labels?: string[]): void;
-  observeHistogram(name: string, value: number, labels?: Record<string, string>): void;
-  getMetrics(): { counters: CounterMetric[]; gauges: GaugeMetric[]; histograms: HistogramMetric[] };
+  createGauge(name: string, help: string, labels?: Record<string, string>): void;
+  setGauge(name: string, value: number, help?: string, labels?: Record<string, string>): void;
+  createHistogram(name: string, help: string, buckets?: number[]): void;
+  observeHistogram(name: string, value: number, buckets?: number[], help?: string, labels?: Record<string, string>): void;
+  createSummary(name: string, help: string, options?: SummaryOptions): void;
+  observeSummary(name: string, value: number, labels?: Record<string, string>): void;
+  getMetrics(): { counters: CounterMetric[]; gauges: GaugeMetric[]; histograms: HistogramMetric[]; summaries: SummaryMetric[] };
+  addCollector(collector: () => void): () => void;
+  getPrometheusMetrics(): string;
+  getOpenMetrics(): string;
+  scrape(accept?: string): { contentType: string; body: string };
   reset(): void;
 }
 
@@ -26,8 +43,19 @@ export interface GaugeMetric {
 export interface HistogramMetric {
   name: string;
   help: string;
+  /** Cumulative counts by upper bound, ending with `Infinity`. */
   buckets: Map<number, number>;
   sum: number;
   count: number;
   labels: Record<string, string>;
-}
\ No newline at end of file
+}
+
+export interface SummaryMetric {
+  name: string;
+  help: string;
+  /** Values by quantile over the sliding window; NaN when it is empty. */
+  quantiles: Map<number, number>;
+  sum: number;
+  count: number;
+  labels: Record<string, string>;
+}
@@ -0,0 +1,60 @@
+import { TracingOptions } from './tracing.interface';
+import { AlertingOptions } from './alerting.interface';
+import { SloOptions } from './slo.interface';
+
+export const MONITORING_OPTIONS = 'MONITORING_OPTIONS';
+
+export interface PushGatewayOptions {
+  /** Base URL of the Pushgateway, e.g. `http://pushgateway:9091`. */
+  url: string;
+  jobName: string;
+  /** Extra labels identifying this push group besides the job. */
+  groupingKey?: Record<string, string>;
+  /** Milliseconds between automatic pushes; none when omitted. */
+  interval?: number;
+  /** Push once more when the application shuts down. Defaults to true. */
+  pushOnShutdown?: boolean;
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds. Defaults to 5000. */
+  timeout?: number;
+}
+
+export interface InstrumentationOptions {
+  db?: boolean;
+  cache?: boolean;
+  queue?: boolean;
+  eventBus?: boolean;
+}
+
+export interface MonitoringModuleOptions {
+  metrics?: {
+    enabled?: boolean;
+    prefix?: string;
+    defaultLabels?: Record<string, string>;
+    exportInterval?: number;
+    /** Mounts a scrape controller, at `/metrics` or the given path. */
+    endpoint?: boolean | string;
+    /** Serves the scrape endpoint on its own HTTP port, outside the application's guards and prefix. */
+    port?: number;
+    host?: string;
+    /**
+     * Collects process and Node.js runtime metrics. Defaults to true when
+     * metrics are exposed through `endpoint`, `port` or `push`.
+     */
+    defaultMetrics?: boolean;
+    /** Records `http_requests_total` and `http_request_duration_seconds` for every request. */
+    http?: boolean | { buckets?: number[] };
+  };
+  /** Pushes metrics to a Prometheus Pushgateway, for jobs too short-lived to be scraped. */
+  push?: PushGatewayOptions;
+  tracing?: TracingOptions;
+  /**
+   * Spans and RED metrics around database, cache, queue and event handler
+   * operations; `true` enables all of them.
+   */
+  instrumentation?: boolean | InstrumentationOptions;
+  /** Evaluates alert rules periodically and routes the alerts to notifiers. */
+  alerting?: AlertingOptions;
+  /** Tracks service level objectives; their burn-rate alerts go through `alerting`. */
+  slo?: SloOptions;
+}
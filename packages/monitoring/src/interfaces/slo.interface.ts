@@ -0,0 +1,78 @@
+import { AlertSeverity } from './alerting.interface';
+
+/** Label values a series must have; regular expressions must match the whole value. */
+export type SeriesMatchers = Record<string, string | RegExp>;
+
+/**
+ * Good events are observations of the histogram `metric` at or below
+ * `threshold` seconds, which must be one of its bucket bounds.
+ */
+export interface LatencyIndicator {
+  type: 'latency';
+  /** Defaults to `http_request_duration_seconds`. */
+  metric?: string;
+  threshold: number;
+  matchers?: SeriesMatchers;
+}
+
+/**
+ * Good events are increments of the counter `metric` on series not
+ * matching `errors`.
+ */
+export interface AvailabilityIndicator {
+  type: 'availability';
+  /** Defaults to `http_requests_total`. */
+  metric?: string;
+  matchers?: SeriesMatchers;
+  /** Defaults to `{ status: /5\d\d/ }`. */
+  errors?: SeriesMatchers;
+}
+
+export type SloIndicator = LatencyIndicator | AvailabilityIndicator;
+
+/**
+ * Alerts when the error budget burns `burnRate` times faster than it may
+ * over both windows; the short one makes the alert resolve soon after the
+ * burn stops.
+ */
+export interface BurnRateAlert {
+  /** Milliseconds. */
+  longWindow: number;
+  shortWindow: number;
+  burnRate: number;
+  severity: AlertSeverity;
+}
+
+export interface SloDefinition {
+  name: string;
+  description?: string;
+  /** Target fraction of good events, e.g. 0.995. */
+  objective: number;
+  /** Milliseconds of the rolling window. Defaults to 28 days. */
+  window?: number;
+  indicator: SloIndicator;
+  /** Defaults to the multi-window, multi-burn-rate alerts of the Google SRE workbook; `false` disables them. */
+  alerts?: BurnRateAlert[] | false;
+}
+
+export interface SloStatus {
+  name: string;
+  objective: number;
+  window: number;
+  goodEvents: number;
+  totalEvents: number;
+  /** Fraction of good events over the window; 1 without events. */
+  attainment: number;
+  /** Fraction of the error budget left over the window; negative once exceeded. */
+  errorBudgetRemaining: number;
+  /** Burn rate by alert window, e.g. `1h`. */
+  burnRates: Record<string, number>;
+}
+
+export interface SloOptions {
+  /** Milliseconds between evaluations. Defaults to 15000. */
+  evaluationInterval?: number;
+  /** Milliseconds of the slots events are counted in; bounds the precision of windows. Defaults to 60000. */
+  resolution?: number;
+  objectives?: SloDefinition[];
+}
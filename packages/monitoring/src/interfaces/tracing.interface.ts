@@ -0,0 +1,80 @@
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+/**
+ * The part of a span that crosses process boundaries, as carried by the W3C
+ * `traceparent` and `tracestate` headers.
+ */
+export interface SpanContext {
+  /** 32 lowercase hex characters. */
+  traceId: string;
+  /** 16 lowercase hex characters. */
+  spanId: string;
+  /** Bit 0 is the sampled flag. */
+  traceFlags: number;
+  traceState?: string;
+  /** Set when the context was extracted from an incoming request. */
+  isRemote?: boolean;
+}
+
+export interface SpanEvent {
+  name: string;
+  /** Milliseconds since the epoch. */
+  time: number;
+  attributes?: Record<string, any>;
+}
+
+export interface SpanStatus {
+  code: SpanStatusCode;
+  message?: string;
+}
+
+export interface Span {
+  /** Span id, 16 lowercase hex characters. */
+  id: string;
+  traceId: string;
+  name: string;
+  kind: SpanKind;
+  /** Milliseconds since the epoch, with sub-millisecond precision. */
+  startTime: number;
+  endTime?: number;
+  /** Span attributes. */
+  tags: Record<string, any>;
+  parentId?: string;
+  traceState?: string;
+  sampled: boolean;
+  events: SpanEvent[];
+  status: SpanStatus;
+}
+
+export interface StartSpanOptions {
+  /** A span id of this service or an extracted context. Defaults to the active span. */
+  parent?: string | SpanContext;
+  /** Starts a new trace even when a span is active. */
+  root?: boolean;
+  kind?: SpanKind;
+  attributes?: Record<string, any>;
+}
+
+/**
+ * Receives finished, sampled spans in batches.
+ */
+export interface SpanExporter {
+  export(spans: Span[]): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+export interface TracingOptions {
+  /** Fraction of new traces recorded, between 0 and 1. Defaults to 1. */
+  sampleRate?: number;
+  /** Finished spans buffered for export; the oldest are dropped first. Defaults to 2048. */
+  maxQueueSize?: number;
+  /** Defaults to 512. */
+  maxExportBatchSize?: number;
+  /** Milliseconds between exports. Defaults to 5000. */
+  exportInterval?: number;
+  exporter?: SpanExporter;
+  /** Starts a server span for every incoming HTTP request. */
+  http?: boolean;
+}
@@ -0,0 +1,50 @@
+import { Inject, Injectable, NestMiddleware, Optional } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { MetricsService } from '../services/metrics.service';
+import { MONITORING_OPTIONS, MonitoringModuleOptions } from '../interfaces/monitoring-options.interface';
+
+export const HTTP_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Records `http_requests_total` and `http_request_duration_seconds` for
+ * each request, labelled with `method`, `route` and `status`. Applied to
+ * all routes when `metrics.http` is set.
+ */
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  constructor(
+    private readonly metricsService: MetricsService,
+    @Optional() @Inject(MONITORING_OPTIONS) options?: MonitoringModuleOptions
+  ) {
+    const http = options?.metrics?.http;
+    this.metricsService.createCounter('http_requests_total', 'HTTP requests by route and status');
+    this.metricsService.createHistogram(
+      'http_request_duration_seconds',
+      'HTTP request duration in seconds',
+      (typeof http === 'object' && http.buckets) || HTTP_DURATION_BUCKETS
+    );
+  }
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const start = process.hrtime.bigint();
+
+    response.once('finish', () => {
+      // The route is only known once a handler matched; unmatched paths would explode cardinality
+      const labels = {
+        method: request.method,
+        route: request.route?.path ? `${request.baseUrl}${request.route.path}` : 'unmatched',
+        status: String(response.statusCode),
+      };
+      this.metricsService.incrementCounter('http_requests_total', 1, labels);
+      this.metricsService.observeHistogram(
+        'http_request_duration_seconds',
+        Number(process.hrtime.bigint() - start) / 1e9,
+        undefined,
+        '',
+        labels
+      );
+    });
+
+    next();
+  }
+}
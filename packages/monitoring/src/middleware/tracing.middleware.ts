@@ -0,0 +1,52 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { TracingService } from '../services/tracing.service';
+
+/**
+ * Starts a server span for each incoming request, continuing the trace of
+ * its `traceparent` header, and keeps it active while the request is
+ * handled. Applied to all routes when `tracing.http` is set.
+ */
+@Injectable()
+export class TracingMiddleware implements NestMiddleware {
+  constructor(private readonly tracingService: TracingService) {}
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const tracing = this.tracingService;
+    const spanId = tracing.startSpan(`${request.method} ${request.path}`, {
+      parent: tracing.extract(request.headers),
+      root: true,
+      kind: 'server',
+      attributes: {
+        'http.request.method': request.method,
+        'url.path': request.path,
+        'url.query': request.originalUrl.split('?')[1],
+        'user_agent.original': request.headers['user-agent'],
+      },
+    });
+
+    let ended = false;
+    const end = (aborted: boolean) => {
+      if (ended) return;
+      ended = true;
+
+      // The route is only known once a handler matched
+      const route = request.route?.path ? `${request.baseUrl}${request.route.path}` : undefined;
+      const span = tracing.getSpan(spanId);
+      if (span && route) {
+        span.name = `${request.method} ${route}`;
+        span.tags['http.route'] = route;
+      }
+      if (aborted) {
+        tracing.setStatus(spanId, 'error', 'Request aborted');
+      } else if (response.statusCode >= 500) {
+        tracing.setStatus(spanId, 'error');
+      }
+      tracing.finishSpan(spanId, { 'http.response.status_code': response.statusCode });
+    };
+    response.once('finish', () => end(false));
+    response.once('close', () => end(!response.writableFinished));
+
+    tracing.withActiveSpan(spanId, next);
+  }
+}
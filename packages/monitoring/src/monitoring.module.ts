@@ -1,41 +1,99 @@
-import { Module, Global, DynamicModule } from '@nestjs/common';
+import { Module, Global, DynamicModule, Provider, Inject, MiddlewareConsumer, NestModule, Optional } from '@nestjs/common';
 import { MetricsService } from './services/metrics.service';
 import { TracingService } from './services/tracing.service';
 import { AlertingService } from './services/alerting.service';
-import { IMetricsService } from './interfaces/metrics.interface';
+import { MetricsServer } from './services/metrics-server.service';
+import { RuntimeMetricsCollector } from './services/runtime-metrics.collector';
+import { PushGatewayService } from './services/push-gateway.service';
+import { InstrumentationService } from './services/instrumentation.service';
+import { SloService } from './services/slo.service';
+import { createMetricsController } from './controllers/metrics.controller';
+import { TracingMiddleware } from './middleware/tracing.middleware';
+import { HttpMetricsMiddleware } from './middleware/http-metrics.middleware';
+import { MONITORING_OPTIONS, MonitoringModuleOptions } from './interfaces/monitoring-options.interface';
+import { OPERATION_INSTRUMENTER } from '@katarsaad/core';
 
-export interface MonitoringModuleOptions {
-  metrics?: {
-    enabled?: boolean;
-    prefix?: string;
-    defaultLabels?: Record<string, string>;
-    exportInterval?: number;
-  };
-}
+export { MonitoringModuleOptions } from './interfaces/monitoring-options.interface';
+
+// Registry of the application's `forRoot`, which packages importing the static
+// module share; without one, each application gets its own
+const ROOT_METRICS = 'MONITORING_ROOT_METRICS';
 
 @Global()
 @Module({
-  providers: [MetricsService, TracingService, AlertingService],
-  exports: [MetricsService, TracingService, AlertingService],
+  providers: [
+    {
+      provide: MetricsService,
+      useFactory: (root?: MetricsService) => root ?? new MetricsService(),
+      inject: [{ token: ROOT_METRICS, optional: true }],
+    },
+    { provide: 'IMetricsService', useExisting: MetricsService },
+    TracingService,
+    AlertingService,
+  ],
+  exports: [MetricsService, 'IMetricsService', TracingService, AlertingService],
 })
-export class MonitoringModule {
+export class MonitoringModule implements NestModule {
+  constructor(@Optional() @Inject(MONITORING_OPTIONS) private readonly options?: MonitoringModuleOptions) {}
+
+  configure(consumer: MiddlewareConsumer): void {
+    if (this.options?.tracing?.http) {
+      consumer.apply(TracingMiddleware).forRoutes('*');
+    }
+    if (this.options?.metrics?.http) {
+      consumer.apply(HttpMetricsMiddleware).forRoutes('*');
+    }
+  }
+
+  /**
+   * Called once by the application; it owns the metrics registry, and packages
+   * import the static module to record into it.
+   */
   static forRoot(options?: MonitoringModuleOptions): DynamicModule {
+    const metrics = options?.metrics || {};
+    const exposed = Boolean(metrics.endpoint) || metrics.port !== undefined || Boolean(options?.push);
+    const optional: Provider[] = [];
+
+    if (metrics.defaultMetrics ?? exposed) {
+      optional.push(RuntimeMetricsCollector);
+    }
+    if (options?.push) {
+      optional.push(PushGatewayService);
+    }
+    if (options?.instrumentation) {
+      optional.push(InstrumentationService, { provide: OPERATION_INSTRUMENTER, useExisting: InstrumentationService });
+    }
+    if (options?.slo) {
+      optional.push(SloService);
+    }
+    const endpoint = typeof metrics.endpoint === 'string' ? metrics.endpoint : undefined;
+
     return {
       module: MonitoringModule,
+      global: true,
+      controllers: metrics.endpoint ? [createMetricsController(endpoint)] : [],
       providers: [
         {
-          provide: 'MONITORING_OPTIONS',
+          provide: MONITORING_OPTIONS,
           useValue: options || {},
         },
-        {
-          provide: 'IMetricsService',
-          useClass: MetricsService,
-        },
+        { provide: ROOT_METRICS, useClass: MetricsService },
+        { provide: MetricsService, useExisting: ROOT_METRICS },
+        { provide: 'IMetricsService', useExisting: ROOT_METRICS },
+        TracingService,
+        AlertingService,
+        MetricsServer,
+        ...optional,
+      ],
+      exports: [
+        ROOT_METRICS,
+        'IMetricsService',
         MetricsService,
         TracingService,
         AlertingService,
+        MetricsServer,
+        ...optional.map(provider => ('provide' in provider ? provider.provide : provider)),
       ],
-      exports: ['IMetricsService', MetricsService, TracingService, AlertingService],
     };
   }
-}
\ No newline at end of file
+}
@@ -1,82 +1,587 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { MONITORING_OPTIONS, MonitoringModuleOptions } from '../interfaces/monitoring-options.interface';
+import {
+  ALERT_NOTIFIER,
+  Alert,
+  AlertingOptions,
+  AlertNotification,
+  AlertNotifier,
+  AlertOperator,
+  AlertRoute,
+  AlertRule,
+  Silence,
+} from '../interfaces/alerting.interface';
+import { InvalidAlertRuleException } from '../exceptions/monitoring.exceptions';
 
-export interface AlertRule {
-  id: string;
+const DEFAULT_WINDOW = 5 * 60 * 1000;
+const DEFAULT_EVALUATION_INTERVAL = 15000;
+const RESOLVED_ALERTS_KEPT = 1000;
+
+interface SeriesHistory {
   name: string;
-  metric: string;
-  threshold: number;
-  operator: 'gt' | 'lt' | 'eq';
-  enabled: boolean;
+  labels: Record<string, string>;
+  /** `[time, value]` pairs, oldest first. */
+  samples: Array<[number, number]>;
+  seenAt: number;
+}
+
+interface SeriesValue {
+  labels: Record<string, string>;
+  value: number;
 }
 
-export interface Alert {
-  id: string;
-  ruleId: string;
-  message: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  timestamp: Date;
-  resolved: boolean;
+interface AlertState {
+  alert: Alert;
+  rule: AlertRule;
+  /** Time of the last notification by receiver. */
+  notified: Map<string, number>;
 }
 
+/**
+ * Evaluates alert rules over the samples of `MetricsService`, or values
+ * passed to `checkMetric`. An alert per rule and series goes from pending
+ * to firing once its condition held for the rule's `for` duration and
+ * resolves by itself once it no longer does. Firing and resolved alerts
+ * are routed by severity and labels to the `ALERT_NOTIFIER`, unless
+ * silenced or inhibited.
+ */
 @Injectable()
-export class AlertingService {
+export class AlertingService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AlertingService.name);
   private rules = new Map<string, AlertRule>();
   private alerts = new Map<string, Alert>();
+  /** Pending and firing alerts by rule and series. */
+  private readonly states = new Map<string, AlertState>();
+  private readonly silences = new Map<string, Silence>();
+  private readonly history = new Map<string, SeriesHistory>();
+  private readonly options: AlertingOptions;
+  private readonly scheduled: boolean;
+  private timer?: NodeJS.Timeout;
+  private evaluation?: Promise<Alert[]>;
 
-  addRule(rule: Omit<AlertRule, 'id'>): string {
-    const id = this.generateId();
+  constructor(
+    private readonly metricsService: MetricsService,
+    @Optional() @Inject(MONITORING_OPTIONS) options?: MonitoringModuleOptions,
+    @Optional() @Inject(ALERT_NOTIFIER) private readonly notifier?: AlertNotifier
+  ) {
+    this.options = options?.alerting || {};
+    this.scheduled = Boolean(options?.alerting || options?.slo);
+    for (const rule of this.options.rules || []) {
+      this.addRule(rule);
+    }
+    this.metricsService.createCounter('alert_notifications_total', 'Alert notifications by channel and outcome');
+  }
+
+  onModuleInit(): void {
+    if (this.scheduled) {
+      this.timer = setInterval(
+        () => this.evaluate().catch(error => this.logger.error(`Alert evaluation failed: ${error.message}`)),
+        this.options.evaluationInterval ?? DEFAULT_EVALUATION_INTERVAL
+      );
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  addRule(rule: Omit<AlertRule, 'id'> & { id?: string }): string {
+    const id = rule.id || this.generateId();
+    this.validateRule(rule);
     this.rules.set(id, { ...rule, id });
     return id;
   }
 
+  /**
+   * Deletes the rule, resolving its firing alerts and notifying the
+   * receivers that were told about them.
+   */
   removeRule(id: string): boolean {
+    const now = Date.now();
+    const resolved: AlertState[] = [];
+    for (const [fingerprint, state] of this.states) {
+      if (state.rule.id !== id) continue;
+      this.states.delete(fingerprint);
+      if (this.resolve(state, now)) resolved.push(state);
+    }
+    if (resolved.length > 0) {
+      this.dispatch(resolved, now).catch(error => this.logger.error(`Alert notification failed: ${error.message}`));
+    }
     return this.rules.delete(id);
   }
 
-  checkMetric(metric: string, value: number): Alert[] {
-    const triggeredAlerts: Alert[] = [];
-    
-    for (const rule of this.rules.values()) {
-      if (!rule.enabled || rule.metric !== metric) continue;
-      
-      let triggered = false;
-      switch (rule.operator) {
-        case 'gt': triggered = value > rule.threshold; break;
-        case 'lt': triggered = value < rule.threshold; break;
-        case 'eq': triggered = value === rule.threshold; break;
-      }
-      
-      if (triggered) {
-        const alert: Alert = {
-          id: this.generateId(),
-          ruleId: rule.id,
-          message: `${rule.name}: ${metric} is ${value} (threshold: ${rule.threshold})`,
-          severity: this.getSeverity(value, rule.threshold),
-          timestamp: new Date(),
-          resolved: false
-        };
-        
-        this.alerts.set(alert.id, alert);
-        triggeredAlerts.push(alert);
-      }
+  getRules(): AlertRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Evaluates the rules on `metric` against a value pushed by the caller
+   * instead of sampled from `MetricsService`. Returns the alerts of those
+   * rules firing afterwards.
+   */
+  checkMetric(metric: string, value: number, labels: Record<string, string> = {}): Alert[] {
+    const now = Date.now();
+    const history = this.record(metric, labels, value, now);
+    const rules = Array.from(this.rules.values()).filter(rule => rule.enabled && rule.metric === metric);
+
+    const resolved = rules.flatMap(rule => this.evaluateRule(rule, [history], now, false));
+    this.dispatch(resolved, now).catch(error => this.logger.error(`Alert notification failed: ${error.message}`));
+
+    return this.getActiveAlerts().filter(alert => rules.some(rule => rule.id === alert.ruleId));
+  }
+
+  /**
+   * Samples `MetricsService`, evaluates every enabled rule and sends the
+   * resulting notifications. Runs every `evaluationInterval` when `alerting`
+   * or `slo` is passed to `MonitoringModule.forRoot`. Returns the firing alerts.
+   */
+  evaluate(now: number = Date.now()): Promise<Alert[]> {
+    if (!this.evaluation) {
+      this.evaluation = this.runEvaluation(now).finally(() => {
+        this.evaluation = undefined;
+      });
     }
-    
-    return triggeredAlerts;
+    return this.evaluation;
   }
 
   resolveAlert(alertId: string): boolean {
     const alert = this.alerts.get(alertId);
-    if (alert) {
-      alert.resolved = true;
-      return true;
+    if (!alert || alert.resolved) return false;
+
+    const now = Date.now();
+    for (const [fingerprint, state] of this.states) {
+      if (state.alert === alert) {
+        this.states.delete(fingerprint);
+        this.resolve(state, now);
+        this.dispatch([state], now).catch(error => this.logger.error(`Alert notification failed: ${error.message}`));
+      }
     }
-    return false;
+    alert.resolved = true;
+    alert.status = 'resolved';
+    alert.resolvedAt = alert.resolvedAt || new Date(now);
+    return true;
   }
 
   getActiveAlerts(): Alert[] {
     return Array.from(this.alerts.values()).filter(alert => !alert.resolved);
   }
 
+  getPendingAlerts(): Alert[] {
+    return Array.from(this.states.values())
+      .map(state => state.alert)
+      .filter(alert => alert.status === 'pending');
+  }
+
+  /**
+   * Mutes notifications of the alerts matching `matchers` until `endsAt`.
+   */
+  addSilence(silence: Omit<Silence, 'id' | 'startsAt'> & { startsAt?: Date }): string {
+    const id = this.generateId();
+    this.silences.set(id, { ...silence, id, startsAt: silence.startsAt || new Date() });
+    return id;
+  }
+
+  removeSilence(id: string): boolean {
+    return this.silences.delete(id);
+  }
+
+  /**
+   * Silences that have not ended yet, including scheduled ones.
+   */
+  getSilences(): Silence[] {
+    const now = Date.now();
+    for (const [id, silence] of this.silences) {
+      if (silence.endsAt.getTime() <= now) this.silences.delete(id);
+    }
+    return Array.from(this.silences.values());
+  }
+
+  private async runEvaluation(now: number): Promise<Alert[]> {
+    const rules = Array.from(this.rules.values()).filter(rule => rule.enabled);
+    const series = this.sample(new Set(rules.map(rule => rule.metric)), now);
+
+    const resolved = rules.flatMap(rule =>
+      this.evaluateRule(
+        rule,
+        series.filter(history => history.name === rule.metric),
+        now,
+        true
+      )
+    );
+    for (const rule of rules) {
+      const firing = Array.from(this.states.values()).filter(
+        state => state.rule.id === rule.id && state.alert.status === 'firing'
+      ).length;
+      this.metricsService.setGauge('alerts_firing', firing, 'Firing alerts by rule', { alertname: rule.name });
+    }
+
+    await this.dispatch(resolved, now);
+    return this.getActiveAlerts();
+  }
+
+  /**
+   * Moves the rule's alerts between pending, firing and resolved. Alerts of
+   * series missing from `series` resolve when `complete` is set. Returns the
+   * states resolved.
+   */
+  private evaluateRule(rule: AlertRule, series: SeriesHistory[], now: number, complete: boolean): AlertState[] {
+    const resolved: AlertState[] = [];
+    const seen = new Set<string>();
+
+    for (const result of this.compute(rule, series, now)) {
+      const fingerprint = this.fingerprint(rule.id, result.labels);
+      const state = this.states.get(fingerprint);
+      seen.add(fingerprint);
+
+      const threshold =
+        state?.alert.status === 'firing' && rule.resolveThreshold !== undefined ? rule.resolveThreshold : rule.threshold;
+      if (this.compare(result.value, rule.operator, threshold)) {
+        this.activate(rule, fingerprint, result, now);
+      } else if (state) {
+        state.alert.value = result.value;
+        state.alert.message = this.formatMessage(rule, state.alert);
+        this.states.delete(fingerprint);
+        if (this.resolve(state, now)) resolved.push(state);
+      }
+    }
+
+    if (complete) {
+      for (const [fingerprint, state] of this.states) {
+        if (state.rule.id !== rule.id || seen.has(fingerprint)) continue;
+        this.states.delete(fingerprint);
+        if (this.resolve(state, now)) resolved.push(state);
+      }
+    }
+    return resolved;
+  }
+
+  private activate(rule: AlertRule, fingerprint: string, result: SeriesValue, now: number): void {
+    let state = this.states.get(fingerprint);
+    if (!state) {
+      state = {
+        rule,
+        notified: new Map(),
+        alert: {
+          id: this.generateId(),
+          ruleId: rule.id,
+          message: '',
+          severity: 'low',
+          timestamp: new Date(now),
+          resolved: false,
+          status: 'pending',
+          labels: {},
+          value: result.value,
+          activeAt: new Date(now),
+          silencedBy: [],
+          inhibited: false,
+        },
+      };
+      this.states.set(fingerprint, state);
+    }
+
+    const alert = state.alert;
+    alert.value = result.value;
+    alert.severity = rule.severity || this.getSeverity(result.value, rule.threshold);
+    alert.labels = { ...result.labels, ...rule.labels, alertname: rule.name, severity: alert.severity };
+    alert.message = this.formatMessage(rule, alert);
+
+    if (alert.status === 'pending' && now - alert.activeAt.getTime() >= (rule.for ?? 0)) {
+      alert.status = 'firing';
+      alert.timestamp = new Date(now);
+      this.alerts.set(alert.id, alert);
+      this.logger.warn(`Alert firing: ${alert.message}`);
+    }
+  }
+
+  /**
+   * Returns whether the alert had fired, pending alerts are just dropped.
+   */
+  private resolve(state: AlertState, now: number): boolean {
+    const alert = state.alert;
+    if (alert.status !== 'firing') return false;
+
+    alert.status = 'resolved';
+    alert.resolved = true;
+    alert.resolvedAt = new Date(now);
+    this.logger.log(`Alert resolved: ${alert.message}`);
+    this.pruneResolved();
+    return true;
+  }
+
+  /**
+   * Marks silenced and inhibited alerts, then notifies the receivers of the
+   * firing ones that are due and those told about the resolved ones.
+   */
+  private async dispatch(resolved: AlertState[], now: number): Promise<void> {
+    const firing = Array.from(this.states.values()).filter(state => state.alert.status === 'firing');
+    const silences = this.getSilences().filter(silence => silence.startsAt.getTime() <= now);
+
+    for (const { alert } of firing) {
+      alert.silencedBy = silences.filter(silence => this.matches(alert.labels, silence.matchers)).map(silence => silence.id);
+      alert.inhibited = (this.options.inhibitRules || []).some(rule =>
+        this.matches(alert.labels, rule.targetMatchers) &&
+        firing.some(({ alert: source }) =>
+          source !== alert &&
+          this.matches(source.labels, rule.sourceMatchers) &&
+          (rule.equal || []).every(label => source.labels[label] === alert.labels[label])
+        )
+      );
+    }
+
+    const deliveries: Array<Promise<void>> = [];
+    for (const state of firing) {
+      if (state.alert.silencedBy.length > 0 || state.alert.inhibited) continue;
+
+      for (const route of this.routesFor(state.alert)) {
+        for (const receiver of route.receivers) {
+          const notifiedAt = state.notified.get(receiver);
+          const due = notifiedAt === undefined || (route.repeatInterval !== undefined && now - notifiedAt >= route.repeatInterval);
+          if (!due) continue;
+
+          state.notified.set(receiver, now);
+          deliveries.push(this.notify(receiver, state, 'firing'));
+        }
+      }
+    }
+    for (const state of resolved) {
+      for (const route of this.routesFor(state.alert)) {
+        if (route.sendResolved === false) continue;
+        for (const receiver of route.receivers) {
+          if (state.notified.delete(receiver)) {
+            deliveries.push(this.notify(receiver, state, 'resolved'));
+          }
+        }
+      }
+    }
+
+    await Promise.all(deliveries);
+  }
+
+  private async notify(receiver: string, state: AlertState, status: AlertNotification['status']): Promise<void> {
+    const channel = receiver.split(':')[0];
+    if (!this.notifier) {
+      this.logger.warn(`No alert notifier registered, cannot notify ${receiver} of ${state.alert.labels.alertname}`);
+      return;
+    }
+
+    try {
+      await this.notifier.notify(receiver, { status, alert: state.alert, rule: state.rule });
+      this.metricsService.incrementCounter('alert_notifications_total', 1, { channel, status: 'sent' });
+    } catch (error) {
+      // Retried at the next evaluation
+      if (status === 'firing') state.notified.delete(receiver);
+      this.metricsService.incrementCounter('alert_notifications_total', 1, { channel, status: 'failed' });
+      this.logger.error(`Failed to notify ${receiver}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private routesFor(alert: Alert): AlertRoute[] {
+    const routes: AlertRoute[] = [];
+    for (const route of this.options.routes || []) {
+      if (route.severities && !route.severities.includes(alert.severity)) continue;
+      if (route.matchers && !this.matches(alert.labels, route.matchers)) continue;
+
+      routes.push(route);
+      if (!route.continue) break;
+    }
+    return routes;
+  }
+
+  /**
+   * Records the current value of every series of the given metrics.
+   */
+  private sample(metrics: Set<string>, now: number): SeriesHistory[] {
+    const { counters, gauges, histograms, summaries } = this.metricsService.getMetrics();
+    const samples: Array<[string, Record<string, string>, number]> = [];
+
+    for (const metric of [...counters, ...gauges]) {
+      samples.push([metric.name, metric.labels, metric.value]);
+    }
+    for (const metric of histograms) {
+      samples.push([`${metric.name}_count`, metric.labels, metric.count], [`${metric.name}_sum`, metric.labels, metric.sum]);
+      for (const [bound, count] of metric.buckets) {
+        samples.push([`${metric.name}_bucket`, { ...metric.labels, le: bound === Infinity ? '+Inf' : String(bound) }, count]);
+      }
+    }
+    for (const metric of summaries) {
+      samples.push([`${metric.name}_count`, metric.labels, metric.count], [`${metric.name}_sum`, metric.labels, metric.sum]);
+      for (const [quantile, value] of metric.quantiles) {
+        samples.push([metric.name, { ...metric.labels, quantile: String(quantile) }, value]);
+      }
+    }
+
+    const series = samples
+      .filter(([name, , value]) => metrics.has(name) && !Number.isNaN(value))
+      .map(([name, labels, value]) => this.record(name, labels, value, now));
+
+    for (const [key, history] of this.history) {
+      if (history.seenAt < now - this.retention()) this.history.delete(key);
+    }
+    return series;
+  }
+
+  private record(name: string, labels: Record<string, string>, value: number, now: number): SeriesHistory {
+    const key = this.fingerprint(name, labels);
+    let history = this.history.get(key);
+    if (!history) {
+      history = { name, labels, samples: [], seenAt: now };
+      this.history.set(key, history);
+    }
+
+    history.samples.push([now, value]);
+    history.seenAt = now;
+    const oldest = now - this.retention();
+    while (history.samples.length > 1 && history.samples[0][0] < oldest) {
+      history.samples.shift();
+    }
+    return history;
+  }
+
+  private retention(): number {
+    return Math.max(DEFAULT_WINDOW, ...Array.from(this.rules.values()).map(rule => rule.window ?? 0));
+  }
+
+  /**
+   * Applies the rule's function to each series, then its aggregation.
+   */
+  private compute(rule: AlertRule, series: SeriesHistory[], now: number): SeriesValue[] {
+    const values: SeriesValue[] = [];
+    for (const history of series) {
+      if (rule.matchers && !this.matches(history.labels, rule.matchers)) continue;
+
+      const samples = history.samples.filter(([time]) => time >= now - (rule.window ?? DEFAULT_WINDOW));
+      const value = this.applyFunction(rule, samples);
+      if (value !== undefined) values.push({ labels: history.labels, value });
+    }
+    if (!rule.aggregate) return values;
+
+    const groups = new Map<string, { labels: Record<string, string>; values: number[] }>();
+    for (const { labels, value } of values) {
+      const grouped = Object.fromEntries((rule.by || []).filter(label => label in labels).map(label => [label, labels[label]]));
+      const key = this.fingerprint('', grouped);
+      if (!groups.has(key)) groups.set(key, { labels: grouped, values: [] });
+      groups.get(key)!.values.push(value);
+    }
+    return Array.from(groups.values()).map(group => ({
+      labels: group.labels,
+      value: this.aggregate(rule.aggregate!, group.values),
+    }));
+  }
+
+  private applyFunction(rule: AlertRule, samples: Array<[number, number]>): number | undefined {
+    if (samples.length === 0) return undefined;
+    const values = samples.map(([, value]) => value);
+
+    switch (rule.function || 'value') {
+      case 'value':
+        return values[values.length - 1];
+      case 'delta':
+        return samples.length > 1 ? values[values.length - 1] - values[0] : undefined;
+      case 'increase':
+      case 'rate': {
+        if (samples.length < 2) return undefined;
+        // A drop means the counter was reset, so it counts from zero again
+        let increase = 0;
+        for (let i = 1; i < values.length; i++) {
+          increase += values[i] >= values[i - 1] ? values[i] - values[i - 1] : values[i];
+        }
+        if (rule.function === 'increase') return increase;
+        return increase / ((samples[samples.length - 1][0] - samples[0][0]) / 1000);
+      }
+      case 'avg_over_time':
+        return values.reduce((sum, value) => sum + value, 0) / values.length;
+      case 'min_over_time':
+        return Math.min(...values);
+      case 'max_over_time':
+        return Math.max(...values);
+    }
+  }
+
+  private aggregate(aggregation: NonNullable<AlertRule['aggregate']>, values: number[]): number {
+    switch (aggregation) {
+      case 'sum':
+        return values.reduce((sum, value) => sum + value, 0);
+      case 'avg':
+        return values.reduce((sum, value) => sum + value, 0) / values.length;
+      case 'min':
+        return Math.min(...values);
+      case 'max':
+        return Math.max(...values);
+      case 'count':
+        return values.length;
+    }
+  }
+
+  private compare(value: number, operator: AlertOperator, threshold: number): boolean {
+    switch (operator) {
+      case 'gt': return value > threshold;
+      case 'gte': return value >= threshold;
+      case 'lt': return value < threshold;
+      case 'lte': return value <= threshold;
+      case 'eq': return value === threshold;
+      case 'ne': return value !== threshold;
+    }
+  }
+
+  private validateRule(rule: Omit<AlertRule, 'id'>): void {
+    if (!Number.isFinite(rule.threshold)) {
+      throw new InvalidAlertRuleException(rule.name, 'threshold must be a finite number');
+    }
+    if (rule.window !== undefined && rule.window <= 0) {
+      throw new InvalidAlertRuleException(rule.name, 'window must be positive');
+    }
+    if (rule.by && !rule.aggregate) {
+      throw new InvalidAlertRuleException(rule.name, 'by requires an aggregate');
+    }
+    if (rule.resolveThreshold !== undefined) {
+      const below = rule.operator === 'gt' || rule.operator === 'gte';
+      const above = rule.operator === 'lt' || rule.operator === 'lte';
+      if (!below && !above) {
+        throw new InvalidAlertRuleException(rule.name, `resolveThreshold cannot be used with operator ${rule.operator}`);
+      }
+      if ((below && rule.resolveThreshold > rule.threshold) || (above && rule.resolveThreshold < rule.threshold)) {
+        throw new InvalidAlertRuleException(rule.name, 'resolveThreshold must be on the resolved side of threshold');
+      }
+    }
+  }
+
+  private formatMessage(rule: AlertRule, alert: Alert): string {
+    const value = Number(alert.value.toPrecision(4));
+    if (rule.message) {
+      return rule.message.replace(/\{\{\s*(value|threshold|labels\.(\w+))\s*\}\}/g, (_match, field, label) => {
+        if (label) return alert.labels[label] ?? '';
+        return String(field === 'value' ? value : rule.threshold);
+      });
+    }
+
+    const series = Object.entries(alert.labels)
+      .filter(([name]) => name !== 'alertname' && name !== 'severity' && !(rule.labels && name in rule.labels))
+      .map(([name, value]) => `${name}="${value}"`)
+      .join(',');
+    return `${rule.name}: ${rule.metric}${series ? `{${series}}` : ''} is ${value} (threshold: ${rule.threshold})`;
+  }
+
+  private matches(labels: Record<string, string>, matchers: Record<string, string>): boolean {
+    return Object.entries(matchers).every(([name, value]) => labels[name] === value);
+  }
+
+  private fingerprint(name: string, labels: Record<string, string>): string {
+    const sorted = Object.keys(labels)
+      .sort()
+      .map(key => `${key}=${labels[key]}`)
+      .join(',');
+    return `${name}{${sorted}}`;
+  }
+
+  private pruneResolved(): void {
+    const resolved = Array.from(this.alerts.values()).filter(alert => alert.resolved);
+    for (const alert of resolved.slice(0, Math.max(0, resolved.length - RESOLVED_ALERTS_KEPT))) {
+      this.alerts.delete(alert.id);
+    }
+  }
+
   private getSeverity(value: number, threshold: number): Alert['severity'] {
     const ratio = Math.abs(value - threshold) / threshold;
     if (ratio > 0.5) return 'critical';
@@ -88,4 +593,4 @@ export class AlertingService {
   private generateId(): string {
     return Math.random().toString(36).substr(2, 9);
   }
-}
\ No newline at end of file
+}
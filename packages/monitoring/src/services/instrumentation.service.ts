@@ -0,0 +1,94 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { performance } from 'perf_hooks';
+import {
+  InstrumentedComponent,
+  InstrumentedOperation,
+  OperationInstrumenter,
+  OperationOutcome,
+} from '@katarsaad/core';
+import { MetricsService } from './metrics.service';
+import { TracingService } from './tracing.service';
+import { MONITORING_OPTIONS, MonitoringModuleOptions } from '../interfaces/monitoring-options.interface';
+import { SpanKind } from '../interfaces/tracing.interface';
+
+const COMPONENTS: Record<InstrumentedComponent, { option: 'db' | 'cache' | 'queue' | 'eventBus'; kind: SpanKind; description: string }> = {
+  db: { option: 'db', kind: 'client', description: 'Database operations' },
+  cache: { option: 'cache', kind: 'client', description: 'Cache operations' },
+  queue: { option: 'queue', kind: 'consumer', description: 'Queue job executions' },
+  event_bus: { option: 'eventBus', kind: 'consumer', description: 'Event handler executions' },
+};
+
+const DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 10];
+
+/**
+ * Records a span and RED metrics for every operation run through it:
+ * `<component>_operations_total` and `<component>_operation_duration_seconds`,
+ * both labelled with `operation`, `target` and `status` (`ok` or `error`).
+ * Registered as `OPERATION_INSTRUMENTER` by `MonitoringModule.forRoot`
+ * when `instrumentation` is set.
+ */
+@Injectable()
+export class InstrumentationService implements OperationInstrumenter {
+  private readonly enabled = new Set<InstrumentedComponent>();
+
+  constructor(
+    private readonly metricsService: MetricsService,
+    private readonly tracingService: TracingService,
+    @Optional() @Inject(MONITORING_OPTIONS) options?: MonitoringModuleOptions
+  ) {
+    const instrumentation = options?.instrumentation ?? true;
+    for (const [component, { option, description }] of Object.entries(COMPONENTS)) {
+      if (instrumentation === true || (instrumentation && instrumentation[option])) {
+        this.enabled.add(component as InstrumentedComponent);
+        this.metricsService.createCounter(`${component}_operations_total`, `${description} by outcome`);
+        this.metricsService.createHistogram(
+          `${component}_operation_duration_seconds`,
+          `${description} duration in seconds`,
+          DURATION_BUCKETS
+        );
+      }
+    }
+  }
+
+  instrument<T>(
+    operation: InstrumentedOperation,
+    fn: () => Promise<T>,
+    outcome?: (result: T) => OperationOutcome
+  ): Promise<T> {
+    if (!this.enabled.has(operation.component)) return fn();
+
+    const { component, target } = operation;
+    const name = `${component} ${operation.operation} ${target}`;
+    const attributes = { 'operation.component': component, 'operation.target': target, ...operation.attributes };
+
+    return this.tracingService.withSpan(name, async span => {
+      const start = performance.now();
+      let status = 'ok';
+      try {
+        const result = await fn();
+        const reported = outcome?.(result);
+        for (const [key, value] of Object.entries(reported?.attributes || {})) {
+          this.tracingService.addTag(span.id, key, value);
+        }
+        if (reported?.error) {
+          status = 'error';
+          this.tracingService.setStatus(span.id, 'error', reported.error);
+        }
+        return result;
+      } catch (error) {
+        status = 'error';
+        throw error;
+      } finally {
+        const labels = { operation: operation.operation, target, status };
+        this.metricsService.incrementCounter(`${component}_operations_total`, 1, labels);
+        this.metricsService.observeHistogram(
+          `${component}_operation_duration_seconds`,
+          (performance.now() - start) / 1000,
+          undefined,
+          '',
+          labels
+        );
+      }
+    }, { kind: COMPONENTS[component].kind, attributes });
+  }
+}
@@ -0,0 +1,72 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { MetricsService } from './metrics.service';
+import { MONITORING_OPTIONS, MonitoringModuleOptions } from '../interfaces/monitoring-options.interface';
+
+/**
+ * Serves `/metrics` on a dedicated port. Starts on module init when
+ * `metrics.port` is configured, or on demand through `listen`.
+ */
+@Injectable()
+export class MetricsServer implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MetricsServer.name);
+  private server?: http.Server;
+
+  constructor(
+    private readonly metricsService: MetricsService,
+    @Optional() @Inject(MONITORING_OPTIONS) private readonly options?: MonitoringModuleOptions
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const port = this.options?.metrics?.port;
+    if (port !== undefined) {
+      await this.listen(port, this.options?.metrics?.host);
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.close();
+  }
+
+  listen(port: number, host?: string): Promise<void> {
+    if (this.server) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((request, response) => this.handle(request, response));
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        this.server = server;
+        const address = server.address() as AddressInfo;
+        this.logger.log(`Serving metrics on port ${address.port}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * The bound address, useful with port 0.
+   */
+  address(): AddressInfo | null {
+    return (this.server?.address() as AddressInfo) ?? null;
+  }
+
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    return new Promise(resolve => (server ? server.close(() => resolve()) : resolve()));
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const path = (request.url || '').split('?')[0];
+    if (path !== '/metrics' || (request.method !== 'GET' && request.method !== 'HEAD')) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const { contentType, body } = this.metricsService.scrape(request.headers.accept);
+    response.writeHead(200, { 'Content-Type': contentType });
+    response.end(request.method === 'HEAD' ? undefined : body);
+  }
+}
@@ -1,4 +1,14 @@
-import { Injectable, Logger, Scope } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  CounterMetric,
+  GaugeMetric,
+  HistogramMetric,
+  IMetricsService,
+  MetricType,
+  SummaryMetric,
+  SummaryOptions,
+} from '../interfaces/metrics.interface';
+import { InvalidMetricException, MetricRegistrationException } from '../exceptions/monitoring.exceptions';
 
 export interface MetricValue {
   value: number;
@@ -6,160 +16,461 @@ export interface MetricValue {
   labels?: Record<string, string>;
 }
 
-export interface CounterMetric {
+interface MetricFamily {
   name: string;
+  type: MetricType;
   help: string;
-  value: number;
-  labels: Record<string, string>;
+  /** Sorted upper bounds of a histogram, without `+Inf`. */
+  buckets?: number[];
+  summary?: Required<SummaryOptions>;
 }
 
-export interface GaugeMetric {
+interface HistogramSeries {
   name: string;
-  help: string;
-  value: number;
   labels: Record<string, string>;
+  /** Observations per bucket, not cumulative; the last entry is `+Inf`. */
+  counts: number[];
+  sum: number;
+  count: number;
 }
 
-export interface HistogramMetric {
+interface SummarySeries {
   name: string;
-  help: string;
-  buckets: Map<number, number>;
+  labels: Record<string, string>;
+  samples: Array<{ value: number; timestamp: number }>;
   sum: number;
   count: number;
-  labels: Record<string, string>;
 }
 
+const DEFAULT_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10];
+const DEFAULT_SUMMARY_OPTIONS: Required<SummaryOptions> = {
+  quantiles: [0.5, 0.9, 0.99],
+  maxAgeSeconds: 600,
+  maxSamples: 10000,
+};
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * In-process metric registry with Prometheus text exposition. Every metric
+ * name is registered once with a type; series are created per label set on
+ * first use.
+ */
 @Injectable()
-export class MetricsService {
+export class MetricsService implements IMetricsService {
   private readonly logger = new Logger(MetricsService.name);
+  private readonly families = new Map<string, MetricFamily>();
   private readonly counters = new Map<string, CounterMetric>();
   private readonly gauges = new Map<string, GaugeMetric>();
-  private readonly histograms = new Map<string, HistogramMetric>();
+  private readonly histograms = new Map<string, HistogramSeries>();
+  private readonly summaries = new Map<string, SummarySeries>();
+  private readonly collectors = new Set<() => void>();
 
   createCounter(name: string, help: string, labels: Record<string, string> = {}): void {
-    const key = this.getMetricKey(name, labels);
-    this.counters.set(key, { name, help, value: 0, labels });
+    this.register(name, 'counter', help);
+    this.getCounter(name, labels);
   }
 
+  /**
+   * Counters only go up; negative increments are ignored.
+   */
   incrementCounter(name: string, value: number = 1, labels: Record<string, string> = {}): void {
-    const key = this.getMetricKey(name, labels);
-    const counter = this.counters.get(key);
-    if (counter) {
-      counter.value += value;
-    } else {
-      this.createCounter(name, '', labels);
-      this.incrementCounter(name, value, labels);
+    if (value < 0) {
+      this.logger.warn(`Ignoring negative increment of counter ${name}`);
+      return;
     }
+    this.register(name, 'counter', '');
+    this.getCounter(name, labels).value += value;
   }
 
   createGauge(name: string, help: string, labels: Record<string, string> = {}): void {
-    const key = this.getMetricKey(name, labels);
-    this.gauges.set(key, { name, help, value: 0, labels });
+    this.register(name, 'gauge', help);
+    this.getGauge(name, labels);
   }
 
   setGauge(name: string, value: number, help: string = '', labels: Record<string, string> = {}): void {
-    const key = this.getMetricKey(name, labels);
-    const gauge = this.gauges.get(key);
-    if (gauge) {
-      gauge.value = value;
-    } else {
-      this.gauges.set(key, { name, help, value, labels });
-    }
-  }
-
-  observeHistogram(name: string, value: number, buckets: number[] = [0.1, 0.5, 1, 2.5, 5, 10], help: string = '', labels: Record<string, string> = {}): void {
-    const key = this.getMetricKey(name, labels);
-    let histogram = this.histograms.get(key);
-    
-    if (!histogram) {
-      const bucketMap = new Map<number, number>();
-      buckets.forEach(bucket => bucketMap.set(bucket, 0));
-      histogram = { name, help, buckets: bucketMap, sum: 0, count: 0, labels };
-      this.histograms.set(key, histogram);
-    }
-
-    histogram.sum += value;
-    histogram.count++;
-    
-    for (const [bucket, count] of histogram.buckets) {
-      if (value <= bucket) {
-        histogram.buckets.set(bucket, count + 1);
-      }
+    this.register(name, 'gauge', help);
+    this.getGauge(name, labels).value = value;
+  }
+
+  /**
+   * Declares a histogram with its bucket upper bounds; `+Inf` is implied.
+   * Declaring it again with other buckets fails.
+   */
+  createHistogram(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS): void {
+    this.register(name, 'histogram', help, { buckets: this.normalizeBuckets(name, buckets) });
+  }
+
+  /**
+   * Records an observation. `buckets` and `help` only apply when the
+   * histogram does not exist yet.
+   */
+  observeHistogram(
+    name: string,
+    value: number,
+    buckets?: number[],
+    help: string = '',
+    labels: Record<string, string> = {}
+  ): void {
+    const family = this.families.get(name);
+    const registered = family?.type === 'histogram'
+      ? this.register(name, 'histogram', help)
+      : this.register(name, 'histogram', help, { buckets: this.normalizeBuckets(name, buckets || DEFAULT_BUCKETS) });
+
+    const series = this.getSeries(this.histograms, registered, labels, () => ({
+      name,
+      labels,
+      counts: new Array(registered.buckets!.length + 1).fill(0),
+      sum: 0,
+      count: 0,
+    }));
+
+    const index = registered.buckets!.findIndex(bound => value <= bound);
+    series.counts[index === -1 ? registered.buckets!.length : index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Declares a summary exposing quantiles over a sliding time window.
+   */
+  createSummary(name: string, help: string, options: SummaryOptions = {}): void {
+    const summary = { ...DEFAULT_SUMMARY_OPTIONS, ...this.definedOptions(options) };
+    if (summary.quantiles.some(quantile => !(quantile >= 0 && quantile <= 1))) {
+      throw new InvalidMetricException(`Quantiles of summary ${name} must be between 0 and 1`);
+    }
+    this.register(name, 'summary', help, { summary: { ...summary, quantiles: [...summary.quantiles].sort((a, b) => a - b) } });
+  }
+
+  observeSummary(name: string, value: number, labels: Record<string, string> = {}): void {
+    if (this.families.get(name)?.type !== 'summary') {
+      this.createSummary(name, '');
+    }
+    const family = this.families.get(name)!;
+    const series = this.getSeries(this.summaries, family, labels, () => ({
+      name,
+      labels,
+      samples: [],
+      sum: 0,
+      count: 0,
+    }));
+
+    series.samples.push({ value, timestamp: Date.now() });
+    if (series.samples.length > family.summary!.maxSamples) {
+      series.samples.shift();
     }
+    series.sum += value;
+    series.count++;
   }
 
-  getMetrics(): { counters: CounterMetric[]; gauges: GaugeMetric[]; histograms: HistogramMetric[] } {
+  /**
+   * Registers a callback run before every read of the metrics, to refresh
+   * values sampled on demand. Returns a function removing it.
+   */
+  addCollector(collector: () => void): () => void {
+    this.collectors.add(collector);
+    return () => this.collectors.delete(collector);
+  }
+
+  getMetrics(): { counters: CounterMetric[]; gauges: GaugeMetric[]; histograms: HistogramMetric[]; summaries: SummaryMetric[] } {
+    this.collect();
     return {
       counters: Array.from(this.counters.values()),
       gauges: Array.from(this.gauges.values()),
-      histograms: Array.from(this.histograms.values()),
+      histograms: Array.from(this.histograms.values()).map(series => this.toHistogramMetric(series)),
+      summaries: Array.from(this.summaries.values()).map(series => this.toSummaryMetric(series)),
     };
   }
 
+  /**
+   * Prometheus text exposition format 0.0.4.
+   */
   getPrometheusMetrics(): string {
+    this.collect();
+    return this.render('prometheus');
+  }
+
+  /**
+   * OpenMetrics 1.0 text format: counters get a `_total` suffix and the
+   * output ends with `# EOF`.
+   */
+  getOpenMetrics(): string {
+    this.collect();
+    return this.render('openmetrics');
+  }
+
+  /**
+   * Renders the format a scraper asks for in its `Accept` header, preferring
+   * OpenMetrics when it is weighted at least as high as plain text.
+   */
+  scrape(accept?: string): { contentType: string; body: string } {
+    return this.prefersOpenMetrics(accept)
+      ? { contentType: OPENMETRICS_CONTENT_TYPE, body: this.getOpenMetrics() }
+      : { contentType: PROMETHEUS_CONTENT_TYPE, body: this.getPrometheusMetrics() };
+  }
+
+  private render(format: 'prometheus' | 'openmetrics'): string {
+    const openMetrics = format === 'openmetrics';
     const lines: string[] = [];
-    
-    // Counters
-    for (const counter of this.counters.values()) {
-      if (counter.help) {
-        lines.push(`# HELP ${counter.name} ${counter.help}`);
+
+    for (const family of this.families.values()) {
+      const name = openMetrics && family.type === 'counter' ? family.name.replace(/_total$/, '') : family.name;
+      if (family.help) {
+        lines.push(`# HELP ${name} ${this.escapeHelp(family.help, openMetrics)}`);
       }
-      lines.push(`# TYPE ${counter.name} counter`);
-      const labels = this.formatLabels(counter.labels);
-      lines.push(`${counter.name}${labels} ${counter.value}`);
-    }
-    
-    // Gauges
-    for (const gauge of this.gauges.values()) {
-      if (gauge.help) {
-        lines.push(`# HELP ${gauge.name} ${gauge.help}`);
+      lines.push(`# TYPE ${name} ${family.type}`);
+
+      switch (family.type) {
+        case 'counter':
+        case 'gauge': {
+          const sample = family.type === 'counter' && openMetrics ? `${name}_total` : name;
+          for (const metric of this.seriesOf(family.type === 'counter' ? this.counters : this.gauges, family)) {
+            lines.push(`${sample}${this.formatLabels(metric.labels)} ${this.formatValue(metric.value)}`);
+          }
+          break;
+        }
+
+        case 'histogram':
+          for (const series of this.seriesOf(this.histograms, family)) {
+            const metric = this.toHistogramMetric(series);
+            for (const [bound, count] of metric.buckets) {
+              const labels = this.formatLabels({ ...metric.labels, le: this.formatValue(bound) });
+              lines.push(`${name}_bucket${labels} ${count}`);
+            }
+            lines.push(`${name}_sum${this.formatLabels(metric.labels)} ${this.formatValue(metric.sum)}`);
+            lines.push(`${name}_count${this.formatLabels(metric.labels)} ${metric.count}`);
+          }
+          break;
+
+        case 'summary':
+          for (const series of this.seriesOf(this.summaries, family)) {
+            const metric = this.toSummaryMetric(series);
+            for (const [quantile, value] of metric.quantiles) {
+              const labels = this.formatLabels({ ...metric.labels, quantile: String(quantile) });
+              lines.push(`${name}${labels} ${this.formatValue(value)}`);
+            }
+            lines.push(`${name}_sum${this.formatLabels(metric.labels)} ${this.formatValue(metric.sum)}`);
+            lines.push(`${name}_count${this.formatLabels(metric.labels)} ${metric.count}`);
+          }
+          break;
       }
-      lines.push(`# TYPE ${gauge.name} gauge`);
-      const labels = this.formatLabels(gauge.labels);
-      lines.push(`${gauge.name}${labels} ${gauge.value}`);
-    }
-    
-    // Histograms
-    for (const histogram of this.histograms.values()) {
-      if (histogram.help) {
-        lines.push(`# HELP ${histogram.name} ${histogram.help}`);
+    }
+
+    if (openMetrics) {
+      lines.push('# EOF');
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private collect(): void {
+    for (const collector of this.collectors) {
+      try {
+        collector();
+      } catch (error) {
+        this.logger.warn(`Metrics collector failed: ${error instanceof Error ? error.message : error}`);
       }
-      lines.push(`# TYPE ${histogram.name} histogram`);
-      const labels = this.formatLabels(histogram.labels);
-      
-      for (const [bucket, count] of histogram.buckets) {
-        const bucketLabels = this.formatLabels({ ...histogram.labels, le: bucket.toString() });
-        lines.push(`${histogram.name}_bucket${bucketLabels} ${count}`);
+    }
+  }
+
+  private prefersOpenMetrics(accept?: string): boolean {
+    if (!accept) return false;
+
+    let openMetrics = 0;
+    let text = 0;
+    for (const entry of accept.split(',')) {
+      const [mediaType, ...params] = entry.split(';').map(part => part.trim().toLowerCase());
+      const q = params.find(param => param.startsWith('q='));
+      const weight = q ? parseFloat(q.slice(2)) || 0 : 1;
+      if (mediaType === 'application/openmetrics-text') {
+        openMetrics = Math.max(openMetrics, weight);
+      } else if (mediaType === 'text/plain' || mediaType === '*/*') {
+        text = Math.max(text, weight);
       }
-      
-      lines.push(`${histogram.name}_sum${labels} ${histogram.sum}`);
-      lines.push(`${histogram.name}_count${labels} ${histogram.count}`);
     }
-    
-    return lines.join('\n') + '\n';
+    return openMetrics > 0 && openMetrics >= text;
+  }
+
+  reset(): void {
+    this.families.clear();
+    this.counters.clear();
+    this.gauges.clear();
+    this.histograms.clear();
+    this.summaries.clear();
   }
-  
+
+  /**
+   * Registers a metric name, or checks an existing registration is
+   * compatible. A later non-empty help text replaces an empty one.
+   */
+  private register(
+    name: string,
+    type: MetricType,
+    help: string,
+    options: Pick<MetricFamily, 'buckets' | 'summary'> = {}
+  ): MetricFamily {
+    const existing = this.families.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new MetricRegistrationException(name, `already registered as a ${existing.type}, not a ${type}`);
+      }
+      if (options.buckets && existing.buckets!.join() !== options.buckets.join()) {
+        throw new MetricRegistrationException(name, `already registered with buckets ${existing.buckets!.join(', ')}`);
+      }
+      if (help && !existing.help) {
+        existing.help = help;
+      }
+      return existing;
+    }
+
+    if (!METRIC_NAME_PATTERN.test(name)) {
+      throw new InvalidMetricException(`Invalid metric name: ${name}`);
+    }
+    const family: MetricFamily = { name, type, help, ...options };
+    if (type === 'histogram' && !family.buckets) {
+      family.buckets = DEFAULT_BUCKETS;
+    }
+    if (type === 'summary' && !family.summary) {
+      family.summary = DEFAULT_SUMMARY_OPTIONS;
+    }
+
+    // Histograms and summaries also expose _sum, _count and _bucket series
+    for (const other of this.families.values()) {
+      const collision = this.seriesNames(family).find(series => this.seriesNames(other).includes(series));
+      if (collision) {
+        throw new MetricRegistrationException(name, `series ${collision} collides with metric ${other.name}`);
+      }
+    }
+
+    this.families.set(name, family);
+    return family;
+  }
+
+  private seriesNames(family: MetricFamily): string[] {
+    switch (family.type) {
+      case 'histogram':
+        return [family.name, `${family.name}_bucket`, `${family.name}_sum`, `${family.name}_count`];
+      case 'summary':
+        return [family.name, `${family.name}_sum`, `${family.name}_count`];
+      default:
+        return [family.name];
+    }
+  }
+
+  private getCounter(name: string, labels: Record<string, string>): CounterMetric {
+    const family = this.families.get(name)!;
+    const counter = this.getSeries(this.counters, family, labels, () => ({ name, help: '', value: 0, labels }));
+    counter.help = family.help;
+    return counter;
+  }
+
+  private getGauge(name: string, labels: Record<string, string>): GaugeMetric {
+    const family = this.families.get(name)!;
+    const gauge = this.getSeries(this.gauges, family, labels, () => ({ name, help: '', value: 0, labels }));
+    gauge.help = family.help;
+    return gauge;
+  }
+
+  private getSeries<T>(
+    store: Map<string, T>,
+    family: MetricFamily,
+    labels: Record<string, string>,
+    create: () => T
+  ): T {
+    const key = this.getMetricKey(family.name, labels);
+    let series = store.get(key);
+    if (!series) {
+      this.validateLabels(family, labels);
+      series = create();
+      store.set(key, series);
+    }
+    return series;
+  }
+
+  private seriesOf<T extends { name: string }>(store: Map<string, T>, family: MetricFamily): T[] {
+    return Array.from(store.values()).filter(series => series.name === family.name);
+  }
+
+  private validateLabels(family: MetricFamily, labels: Record<string, string>): void {
+    for (const label of Object.keys(labels)) {
+      if (!LABEL_NAME_PATTERN.test(label) || label.startsWith('__')) {
+        throw new InvalidMetricException(`Invalid label name ${label} on metric ${family.name}`);
+      }
+      if ((family.type === 'histogram' && label === 'le') || (family.type === 'summary' && label === 'quantile')) {
+        throw new InvalidMetricException(`Label ${label} is reserved on ${family.type} ${family.name}`);
+      }
+    }
+  }
+
+  private normalizeBuckets(name: string, buckets: number[]): number[] {
+    const bounds = Array.from(new Set(buckets.filter(bound => bound !== Infinity))).sort((a, b) => a - b);
+    if (bounds.some(bound => !Number.isFinite(bound))) {
+      throw new InvalidMetricException(`Buckets of histogram ${name} must be finite numbers`);
+    }
+    return bounds;
+  }
+
+  private toHistogramMetric(series: HistogramSeries): HistogramMetric {
+    const family = this.families.get(series.name)!;
+    const buckets = new Map<number, number>();
+    let cumulative = 0;
+    [...family.buckets!, Infinity].forEach((bound, index) => {
+      cumulative += series.counts[index];
+      buckets.set(bound, cumulative);
+    });
+    return { name: series.name, help: family.help, buckets, sum: series.sum, count: series.count, labels: series.labels };
+  }
+
+  private toSummaryMetric(series: SummarySeries): SummaryMetric {
+    const { summary, help } = this.families.get(series.name)!;
+    const cutoff = Date.now() - summary!.maxAgeSeconds * 1000;
+    while (series.samples.length > 0 && series.samples[0].timestamp < cutoff) {
+      series.samples.shift();
+    }
+
+    const sorted = series.samples.map(sample => sample.value).sort((a, b) => a - b);
+    const quantiles = new Map<number, number>();
+    for (const quantile of summary!.quantiles) {
+      quantiles.set(quantile, sorted.length === 0
+        ? NaN
+        : sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(quantile * sorted.length) - 1))]);
+    }
+    return { name: series.name, help, quantiles, sum: series.sum, count: series.count, labels: series.labels };
+  }
+
+  private definedOptions(options: SummaryOptions): Partial<Required<SummaryOptions>> {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  }
+
   private formatLabels(labels: Record<string, string>): string {
     const entries = Object.entries(labels);
     if (entries.length === 0) return '';
-    
+
     const formatted = entries
-      .map(([key, value]) => `${key}="${value}"`)
+      .map(([key, value]) => `${key}="${this.escapeLabelValue(String(value))}"`)
       .join(',');
     return `{${formatted}}`;
   }
 
-  private getMetricKey(name: string, labels: Record<string, string>): string {
-    const labelStr = Object.entries(labels)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([k, v]) => `${k}="${v}"`)
-      .join(',');
-    return `${name}{${labelStr}}`;
+  private escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
   }
 
-  reset(): void {
-    this.counters.clear();
-    this.gauges.clear();
-    this.histograms.clear();
+  private escapeHelp(help: string, openMetrics: boolean = false): string {
+    const escaped = help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    return openMetrics ? escaped.replace(/"/g, '\\"') : escaped;
   }
-}
\ No newline at end of file
+
+  private formatValue(value: number): string {
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+  }
+
+  private getMetricKey(name: string, labels: Record<string, string>): string {
+    const sorted = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+    return `${name}${JSON.stringify(sorted)}`;
+  }
+}
@@ -0,0 +1,105 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { HttpUtils } from '@katarsaad/shared';
+import { MetricsService, PROMETHEUS_CONTENT_TYPE } from './metrics.service';
+import { MONITORING_OPTIONS, MonitoringModuleOptions, PushGatewayOptions } from '../interfaces/monitoring-options.interface';
+import { PushGatewayException } from '../exceptions/monitoring.exceptions';
+
+/**
+ * Pushes the registry to a Prometheus Pushgateway. Provided when
+ * `MonitoringModule.forRoot` gets `push` options.
+ */
+@Injectable()
+export class PushGatewayService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PushGatewayService.name);
+  private readonly options: PushGatewayOptions;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly metricsService: MetricsService,
+    @Inject(MONITORING_OPTIONS) options: MonitoringModuleOptions
+  ) {
+    if (!options.push) {
+      throw new PushGatewayException('PushGatewayService requires the push option of MonitoringModule');
+    }
+    this.options = options.push;
+  }
+
+  onModuleInit(): void {
+    if (this.options.interval) {
+      this.timer = setInterval(() => this.pushQuietly(), this.options.interval);
+      this.timer.unref();
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.timer);
+    if (this.options.pushOnShutdown !== false) {
+      await this.pushQuietly();
+    }
+  }
+
+  /**
+   * Replaces every metric of this group on the gateway. Pushes the module's
+   * registry unless another one is given.
+   */
+  push(registry: MetricsService = this.metricsService): Promise<void> {
+    return this.send('PUT', registry.getPrometheusMetrics());
+  }
+
+  /**
+   * Replaces only the metrics with the pushed names, keeping the others.
+   */
+  pushAdd(registry: MetricsService = this.metricsService): Promise<void> {
+    return this.send('POST', registry.getPrometheusMetrics());
+  }
+
+  /**
+   * Deletes this group from the gateway.
+   */
+  delete(): Promise<void> {
+    return this.send('DELETE');
+  }
+
+  private async pushQuietly(): Promise<void> {
+    try {
+      await this.pushAdd();
+    } catch (error) {
+      this.logger.warn(`Failed to push metrics: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async send(method: 'PUT' | 'POST' | 'DELETE', body?: string): Promise<void> {
+    let response: Response;
+    try {
+      response = await HttpUtils.request(this.groupUrl(), {
+        method,
+        body,
+        headers: { ...(body ? { 'Content-Type': PROMETHEUS_CONTENT_TYPE } : {}), ...this.options.headers },
+        signal: AbortSignal.timeout(this.options.timeout ?? 5000),
+      });
+    } catch (error) {
+      throw new PushGatewayException(`Pushgateway request failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new PushGatewayException(`Pushgateway responded ${response.status}: ${text}`, response.status);
+    }
+  }
+
+  /**
+   * `/metrics/job/<job>/<label>/<value>...`, base64-encoding values the
+   * gateway cannot take as a plain path segment.
+   */
+  private groupUrl(): string {
+    const segments = Object.entries({ job: this.options.jobName, ...this.options.groupingKey })
+      .map(([label, value]) => {
+        if (value === '' || value.includes('/')) {
+          const encoded = Buffer.from(value).toString('base64').replace(/\+/g, '-').replace(/\//g, '_');
+          return `${label}@base64/${encoded || '='}`;
+        }
+        return `${label}/${encodeURIComponent(value)}`;
+      });
+    return `${this.options.url.replace(/\/+$/, '')}/metrics/${segments.join('/')}`;
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { constants, IntervalHistogram, monitorEventLoopDelay, PerformanceObserver } from 'perf_hooks';
+import * as v8 from 'v8';
+import { MetricsService } from './metrics.service';
+
+const GC_KINDS: Record<number, string> = {
+  [constants.NODE_PERFORMANCE_GC_MINOR]: 'minor',
+  [constants.NODE_PERFORMANCE_GC_MAJOR]: 'major',
+  [constants.NODE_PERFORMANCE_GC_INCREMENTAL]: 'incremental',
+  [constants.NODE_PERFORMANCE_GC_WEAKCB]: 'weakcb',
+};
+const GC_BUCKETS = [0.001, 0.01, 0.1, 1, 2, 5];
+
+/**
+ * Process and Node.js runtime metrics: CPU, memory, heap spaces, event-loop
+ * lag, garbage collection and active handles. Names follow the ones
+ * prom-client's default metrics use, so existing dashboards apply.
+ */
+@Injectable()
+export class RuntimeMetricsCollector implements OnModuleInit, OnModuleDestroy {
+  private eventLoopDelay?: IntervalHistogram;
+  private gcObserver?: PerformanceObserver;
+  private removeCollector?: () => void;
+  private lastCpuUsage = { user: 0, system: 0 };
+  private readonly resourceTypes = new Set<string>();
+
+  constructor(private readonly metricsService: MetricsService) {}
+
+  onModuleInit(): void {
+    this.start();
+  }
+
+  onModuleDestroy(): void {
+    this.stop();
+  }
+
+  start(): void {
+    if (this.removeCollector) return;
+
+    const metrics = this.metricsService;
+    metrics.createCounter('process_cpu_user_seconds_total', 'User CPU time spent in seconds');
+    metrics.createCounter('process_cpu_system_seconds_total', 'System CPU time spent in seconds');
+    metrics.createGauge('process_start_time_seconds', 'Start time of the process since unix epoch in seconds');
+    metrics.createGauge('process_resident_memory_bytes', 'Resident memory size in bytes');
+    metrics.createGauge('nodejs_heap_size_total_bytes', 'Process heap size from Node.js in bytes');
+    metrics.createGauge('nodejs_heap_size_used_bytes', 'Process heap size used from Node.js in bytes');
+    metrics.createGauge('nodejs_external_memory_bytes', 'Node.js external memory size in bytes');
+    metrics.createGauge('nodejs_heap_space_size_used_bytes', 'Process heap space size used from Node.js in bytes');
+    metrics.createGauge('nodejs_eventloop_lag_seconds', 'Mean event loop lag since the last scrape in seconds');
+    metrics.createGauge('nodejs_eventloop_lag_p99_seconds', 'The 99th percentile of event loop lag since the last scrape in seconds');
+    metrics.createGauge('nodejs_eventloop_lag_max_seconds', 'Maximum event loop lag since the last scrape in seconds');
+    metrics.createGauge('nodejs_active_handles', 'Number of active libuv handles and requests');
+    metrics.createGauge('nodejs_active_resources', 'Number of active resources keeping the event loop alive, by type');
+    metrics.createHistogram('nodejs_gc_duration_seconds', 'Garbage collection duration by kind', GC_BUCKETS);
+
+    metrics.setGauge('process_start_time_seconds', Math.round(Date.now() / 1000 - process.uptime()));
+
+    this.eventLoopDelay = monitorEventLoopDelay({ resolution: 10 });
+    this.eventLoopDelay.enable();
+
+    this.gcObserver = new PerformanceObserver(list => {
+      for (const entry of list.getEntries()) {
+        const kind = (entry as { detail?: { kind?: number } }).detail?.kind;
+        metrics.observeHistogram('nodejs_gc_duration_seconds', entry.duration / 1000, undefined, '', {
+          kind: (kind !== undefined && GC_KINDS[kind]) || 'unknown',
+        });
+      }
+    });
+    this.gcObserver.observe({ entryTypes: ['gc'] });
+
+    this.removeCollector = metrics.addCollector(() => this.collect());
+  }
+
+  stop(): void {
+    this.removeCollector?.();
+    this.removeCollector = undefined;
+    this.eventLoopDelay?.disable();
+    this.eventLoopDelay = undefined;
+    this.gcObserver?.disconnect();
+    this.gcObserver = undefined;
+  }
+
+  private collect(): void {
+    const metrics = this.metricsService;
+
+    const cpu = process.cpuUsage();
+    metrics.incrementCounter('process_cpu_user_seconds_total', (cpu.user - this.lastCpuUsage.user) / 1e6);
+    metrics.incrementCounter('process_cpu_system_seconds_total', (cpu.system - this.lastCpuUsage.system) / 1e6);
+    this.lastCpuUsage = cpu;
+
+    const memory = process.memoryUsage();
+    metrics.setGauge('process_resident_memory_bytes', memory.rss);
+    metrics.setGauge('nodejs_heap_size_total_bytes', memory.heapTotal);
+    metrics.setGauge('nodejs_heap_size_used_bytes', memory.heapUsed);
+    metrics.setGauge('nodejs_external_memory_bytes', memory.external);
+    for (const space of v8.getHeapSpaceStatistics()) {
+      metrics.setGauge('nodejs_heap_space_size_used_bytes', space.space_used_size, '', { space: space.space_name });
+    }
+
+    if (this.eventLoopDelay && this.eventLoopDelay.count > 0) {
+      metrics.setGauge('nodejs_eventloop_lag_seconds', this.eventLoopDelay.mean / 1e9);
+      metrics.setGauge('nodejs_eventloop_lag_p99_seconds', this.eventLoopDelay.percentile(99) / 1e9);
+      metrics.setGauge('nodejs_eventloop_lag_max_seconds', this.eventLoopDelay.max / 1e9);
+      this.eventLoopDelay.reset();
+    }
+
+    // Types no longer active are reported as zero rather than left stale
+    const resources = process.getActiveResourcesInfo();
+    const counts = new Map<string, number>(Array.from(this.resourceTypes, type => [type, 0]));
+    for (const type of resources) {
+      counts.set(type, (counts.get(type) || 0) + 1);
+      this.resourceTypes.add(type);
+    }
+    metrics.setGauge('nodejs_active_handles', resources.length);
+    for (const [type, count] of counts) {
+      metrics.setGauge('nodejs_active_resources', count, '', { type });
+    }
+  }
+}
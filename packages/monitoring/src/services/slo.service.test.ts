@@ -0,0 +1,40 @@
+import { AlertingService } from './alerting.service';
+import { MetricsService } from './metrics.service';
+import { SloService } from './slo.service';
+
+describe('SloService', () => {
+  let metrics: MetricsService;
+  let slos: SloService;
+
+  beforeEach(() => {
+    metrics = new MetricsService();
+    slos = new SloService(metrics, new AlertingService(metrics));
+  });
+
+  function serve(requests: number, errors: number): void {
+    metrics.incrementCounter('http_requests_total', requests - errors, { status: '200' });
+    metrics.incrementCounter('http_requests_total', errors, { status: '500' });
+  }
+
+  it('does not count requests served before the SLO was defined', () => {
+    serve(10000, 200);
+    slos.define({ name: 'api', objective: 0.995, indicator: { type: 'availability' } });
+
+    const [status] = slos.evaluate();
+
+    expect(status.totalEvents).toBe(0);
+    expect(Object.values(status.burnRates).every(burnRate => burnRate === 0)).toBe(true);
+  });
+
+  it('counts requests served after the SLO was defined', () => {
+    serve(10000, 200);
+    slos.define({ name: 'api', objective: 0.99, indicator: { type: 'availability' } });
+    serve(100, 1);
+
+    const [status] = slos.evaluate();
+
+    expect(status.totalEvents).toBe(100);
+    expect(status.goodEvents).toBe(99);
+    expect(status.burnRates['1h']).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,301 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { AlertingService } from './alerting.service';
+import { MONITORING_OPTIONS, MonitoringModuleOptions } from '../interfaces/monitoring-options.interface';
+import { BurnRateAlert, SeriesMatchers, SloDefinition, SloOptions, SloStatus } from '../interfaces/slo.interface';
+import { InvalidSloException } from '../exceptions/monitoring.exceptions';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const DEFAULT_WINDOW = 28 * DAY;
+const DEFAULT_EVALUATION_INTERVAL = 15000;
+const DEFAULT_RESOLUTION = MINUTE;
+
+/** Page on a fast burn, open a ticket on a slow one. */
+const DEFAULT_ALERTS: BurnRateAlert[] = [
+  { longWindow: HOUR, shortWindow: 5 * MINUTE, burnRate: 14.4, severity: 'critical' },
+  { longWindow: 6 * HOUR, shortWindow: 30 * MINUTE, burnRate: 6, severity: 'critical' },
+  { longWindow: DAY, shortWindow: 2 * HOUR, burnRate: 3, severity: 'high' },
+  { longWindow: 3 * DAY, shortWindow: 6 * HOUR, burnRate: 1, severity: 'medium' },
+];
+
+interface EventCounts {
+  good: number;
+  total: number;
+}
+
+interface SloState {
+  definition: SloDefinition;
+  window: number;
+  alerts: BurnRateAlert[];
+  /** Events by slot start, oldest first. */
+  slots: Array<EventCounts & { start: number }>;
+  /** Last cumulative counts by series, turned into increments at the next evaluation. */
+  last: Map<string, EventCounts>;
+  ruleIds: string[];
+}
+
+/**
+ * Tracks service level objectives over request metrics, such as those of
+ * `HttpMetricsMiddleware`. Counts good and total events in slots of
+ * `resolution`, exposes the rolling attainment, remaining error budget
+ * and burn rates as gauges, and registers multi-window burn-rate rules
+ * with `AlertingService`.
+ */
+@Injectable()
+export class SloService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SloService.name);
+  private readonly slos = new Map<string, SloState>();
+  private readonly warned = new Set<string>();
+  private readonly options: SloOptions;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly metricsService: MetricsService,
+    private readonly alertingService: AlertingService,
+    @Optional() @Inject(MONITORING_OPTIONS) options?: MonitoringModuleOptions
+  ) {
+    this.options = options?.slo || {};
+    for (const definition of this.options.objectives || []) {
+      this.define(definition);
+    }
+  }
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => this.evaluate(), this.options.evaluationInterval ?? DEFAULT_EVALUATION_INTERVAL);
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  define(definition: SloDefinition): void {
+    this.validate(definition);
+
+    const alerts = definition.alerts === false ? [] : definition.alerts || DEFAULT_ALERTS;
+    const ruleIds = alerts.map(alert => {
+      const longWindow = this.formatDuration(alert.longWindow);
+      const shortWindow = this.formatDuration(alert.shortWindow);
+      return this.alertingService.addRule({
+        id: `slo:${definition.name}:${longWindow}:${shortWindow}`,
+        name: 'SLOErrorBudgetBurn',
+        metric: 'slo_multiwindow_burn_rate',
+        matchers: { slo: definition.name, long_window: longWindow, short_window: shortWindow },
+        operator: 'gt',
+        threshold: alert.burnRate,
+        severity: alert.severity,
+        enabled: true,
+        message: `SLO ${definition.name} is burning its error budget {{value}} times as fast as allowed over ${longWindow} and ${shortWindow}`,
+      });
+    });
+
+    const state: SloState = {
+      definition,
+      window: definition.window ?? DEFAULT_WINDOW,
+      alerts,
+      slots: [],
+      last: new Map(),
+      ruleIds,
+    };
+    // Events counted before the SLO existed belong to no slot
+    state.last = this.countEvents(state, this.metricsService.getMetrics());
+    this.slos.set(definition.name, state);
+    this.metricsService.setGauge('slo_objective_ratio', definition.objective, 'Target fraction of good events', {
+      slo: definition.name,
+    });
+  }
+
+  remove(name: string): boolean {
+    const state = this.slos.get(name);
+    if (!state) return false;
+
+    state.ruleIds.forEach(id => this.alertingService.removeRule(id));
+    return this.slos.delete(name);
+  }
+
+  getStatus(name: string): SloStatus | undefined {
+    const state = this.slos.get(name);
+    return state && this.status(state, Date.now());
+  }
+
+  getStatuses(): SloStatus[] {
+    const now = Date.now();
+    return Array.from(this.slos.values()).map(state => this.status(state, now));
+  }
+
+  /**
+   * Counts the events since the last evaluation and updates the gauges.
+   * Runs every `evaluationInterval` when `slo` is passed to
+   * `MonitoringModule.forRoot`.
+   */
+  evaluate(now: number = Date.now()): SloStatus[] {
+    const metrics = this.metricsService.getMetrics();
+    const statuses: SloStatus[] = [];
+
+    for (const state of this.slos.values()) {
+      this.record(state, this.countEvents(state, metrics), now);
+
+      const status = this.status(state, now);
+      const labels = { slo: state.definition.name };
+      this.metricsService.setGauge('slo_attainment_ratio', status.attainment, 'Fraction of good events over the SLO window', labels);
+      this.metricsService.setGauge(
+        'slo_error_budget_remaining_ratio',
+        status.errorBudgetRemaining,
+        'Fraction of the error budget left over the SLO window',
+        labels
+      );
+      for (const [window, burnRate] of Object.entries(status.burnRates)) {
+        this.metricsService.setGauge('slo_burn_rate', burnRate, 'Error budget burn rate over a window', { ...labels, window });
+      }
+      for (const alert of state.alerts) {
+        const long_window = this.formatDuration(alert.longWindow);
+        const short_window = this.formatDuration(alert.shortWindow);
+        this.metricsService.setGauge(
+          'slo_multiwindow_burn_rate',
+          Math.min(status.burnRates[long_window], status.burnRates[short_window]),
+          'Lower of the burn rates over the long and short window of a burn-rate alert',
+          { ...labels, long_window, short_window }
+        );
+      }
+      statuses.push(status);
+    }
+    return statuses;
+  }
+
+  /**
+   * Cumulative good and total events by series of the SLO's metric.
+   */
+  private countEvents(state: SloState, metrics: ReturnType<MetricsService['getMetrics']>): Map<string, EventCounts> {
+    const { name, indicator } = state.definition;
+    const counts = new Map<string, EventCounts>();
+
+    if (indicator.type === 'latency') {
+      const metric = indicator.metric || 'http_request_duration_seconds';
+      for (const histogram of metrics.histograms) {
+        if (histogram.name !== metric || !this.matches(histogram.labels, indicator.matchers)) continue;
+
+        const good = histogram.buckets.get(indicator.threshold);
+        if (good === undefined) {
+          if (!this.warned.has(name)) {
+            this.warned.add(name);
+            this.logger.warn(`SLO ${name}: ${metric} has no bucket for the threshold ${indicator.threshold}`);
+          }
+          continue;
+        }
+        counts.set(this.seriesKey(histogram.labels), { good, total: histogram.count });
+      }
+    } else {
+      const metric = indicator.metric || 'http_requests_total';
+      const errors = indicator.errors || { status: /5\d\d/ };
+      for (const counter of metrics.counters) {
+        if (counter.name !== metric || !this.matches(counter.labels, indicator.matchers)) continue;
+
+        const good = this.matches(counter.labels, errors) ? 0 : counter.value;
+        counts.set(this.seriesKey(counter.labels), { good, total: counter.value });
+      }
+    }
+    return counts;
+  }
+
+  private record(state: SloState, counts: Map<string, EventCounts>, now: number): void {
+    const resolution = this.options.resolution ?? DEFAULT_RESOLUTION;
+    const start = now - (now % resolution);
+    let slot = state.slots[state.slots.length - 1];
+    if (!slot || slot.start !== start) {
+      slot = { start, good: 0, total: 0 };
+      state.slots.push(slot);
+    }
+
+    for (const [key, current] of counts) {
+      const last = state.last.get(key) || { good: 0, total: 0 };
+      // A drop means the series was reset, so it counts from zero again
+      slot.good += current.good >= last.good ? current.good - last.good : current.good;
+      slot.total += current.total >= last.total ? current.total - last.total : current.total;
+      state.last.set(key, current);
+    }
+
+    const retention = Math.max(state.window, ...state.alerts.map(alert => alert.longWindow));
+    while (state.slots.length > 0 && state.slots[0].start + resolution <= now - retention) {
+      state.slots.shift();
+    }
+  }
+
+  private status(state: SloState, now: number): SloStatus {
+    const { name, objective } = state.definition;
+    const counts = this.countsOver(state, now, state.window);
+    const errorRatio = counts.total > 0 ? (counts.total - counts.good) / counts.total : 0;
+
+    const burnRates: Record<string, number> = {};
+    for (const window of state.alerts.flatMap(alert => [alert.longWindow, alert.shortWindow])) {
+      const windowCounts = this.countsOver(state, now, window);
+      burnRates[this.formatDuration(window)] =
+        windowCounts.total > 0 ? (windowCounts.total - windowCounts.good) / windowCounts.total / (1 - objective) : 0;
+    }
+
+    return {
+      name,
+      objective,
+      window: state.window,
+      goodEvents: counts.good,
+      totalEvents: counts.total,
+      attainment: 1 - errorRatio,
+      errorBudgetRemaining: 1 - errorRatio / (1 - objective),
+      burnRates,
+    };
+  }
+
+  private countsOver(state: SloState, now: number, window: number): EventCounts {
+    const resolution = this.options.resolution ?? DEFAULT_RESOLUTION;
+    const counts = { good: 0, total: 0 };
+    for (let i = state.slots.length - 1; i >= 0 && state.slots[i].start + resolution > now - window; i--) {
+      counts.good += state.slots[i].good;
+      counts.total += state.slots[i].total;
+    }
+    return counts;
+  }
+
+  private validate(definition: SloDefinition): void {
+    const { name, objective, window, indicator } = definition;
+    if (this.slos.has(name)) {
+      throw new InvalidSloException(name, 'an SLO with this name is already defined');
+    }
+    if (!(objective > 0 && objective < 1)) {
+      throw new InvalidSloException(name, 'objective must be between 0 and 1');
+    }
+    if (window !== undefined && window <= 0) {
+      throw new InvalidSloException(name, 'window must be positive');
+    }
+    if (indicator.type === 'latency' && !(indicator.threshold > 0)) {
+      throw new InvalidSloException(name, 'latency threshold must be positive');
+    }
+    for (const alert of definition.alerts || []) {
+      if (alert.shortWindow >= alert.longWindow) {
+        throw new InvalidSloException(name, 'burn-rate alert shortWindow must be shorter than longWindow');
+      }
+    }
+  }
+
+  private matches(labels: Record<string, string>, matchers: SeriesMatchers = {}): boolean {
+    return Object.entries(matchers).every(([name, matcher]) => {
+      const value = labels[name] ?? '';
+      return typeof matcher === 'string' ? value === matcher : new RegExp(`^(?:${matcher.source})$`, matcher.flags).test(value);
+    });
+  }
+
+  private seriesKey(labels: Record<string, string>): string {
+    return Object.keys(labels)
+      .sort()
+      .map(key => `${key}=${labels[key]}`)
+      .join(',');
+  }
+
+  private formatDuration(milliseconds: number): string {
+    for (const [unit, size] of [['d', DAY], ['h', HOUR], ['m', MINUTE], ['s', 1000]] as const) {
+      if (milliseconds % size === 0) return `${milliseconds / size}${unit}`;
+    }
+    return `${milliseconds}ms`;
+  }
+}
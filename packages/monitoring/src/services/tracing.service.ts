@@ -1,40 +1,164 @@
-import { Injectable } from '@nestjs/common';
-
-export interface Span {
-  id: string;
-  name: string;
-  startTime: number;
-  endTime?: number;
-  tags: Record<string, any>;
-  parentId?: string;
-}
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { performance } from 'perf_hooks';
+import { HttpUtils } from '@katarsaad/shared';
+import { MONITORING_OPTIONS, MonitoringModuleOptions } from '../interfaces/monitoring-options.interface';
+import {
+  Span,
+  SpanContext,
+  SpanStatusCode,
+  StartSpanOptions,
+  TracingOptions,
+} from '../interfaces/tracing.interface';
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+const SAMPLED_FLAG = 0x01;
+
+/**
+ * Shared by every TracingService instance, so spans started by any module
+ * attach to the span active in the current async context.
+ */
+const activeSpan = new AsyncLocalStorage<Span>();
 
+/**
+ * Spans with W3C trace context propagation. Spans started without an
+ * explicit parent become children of the span active in the current async
+ * context; finished spans of sampled traces are buffered and exported in
+ * batches when an exporter is configured.
+ */
 @Injectable()
-export class TracingService {
-  private spans = new Map<string, Span>();
+export class TracingService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TracingService.name);
+  private readonly options: TracingOptions;
+  private readonly spans = new Map<string, Span>();
+  private readonly finished: Span[] = [];
+  private exportTimer?: NodeJS.Timeout;
+  private exporting: Promise<void> = Promise.resolve();
+  private removeInterceptor?: () => void;
+  private dropped = 0;
+
+  constructor(@Optional() @Inject(MONITORING_OPTIONS) options?: MonitoringModuleOptions) {
+    this.options = options?.tracing || {};
+  }
+
+  onModuleInit(): void {
+    this.removeInterceptor = HttpUtils.addInterceptor((url, init, next) => this.traceRequest(url, init, next));
+    if (this.options.exporter) {
+      this.exportTimer = setInterval(() => this.flush(), this.options.exportInterval ?? 5000);
+      this.exportTimer.unref();
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.exportTimer);
+    this.removeInterceptor?.();
+    await this.flush();
+    await this.options.exporter?.shutdown?.();
+  }
+
+  /**
+   * Starts a span and returns its id. A string second argument is taken as
+   * the parent span id.
+   */
+  startSpan(name: string, options: StartSpanOptions | string = {}): string {
+    const { parent, root, kind = 'internal', attributes = {} } =
+      typeof options === 'string' ? { parent: options } : options;
+    const parentContext = this.resolveParent(parent, root);
+    const sampled = parentContext
+      ? (parentContext.traceFlags & SAMPLED_FLAG) === SAMPLED_FLAG
+      : Math.random() < (this.options.sampleRate ?? 1);
 
-  startSpan(name: string, parentId?: string): string {
-    const spanId = this.generateId();
     const span: Span = {
-      id: spanId,
+      id: this.generateId(8),
+      traceId: parentContext?.traceId || this.generateId(16),
       name,
-      startTime: Date.now(),
-      tags: {},
-      parentId
+      kind,
+      startTime: this.now(),
+      tags: { ...attributes },
+      parentId: parentContext?.spanId,
+      traceState: parentContext?.traceState,
+      sampled,
+      events: [],
+      status: { code: 'unset' },
     };
-    
-    this.spans.set(spanId, span);
-    return spanId;
+
+    // Spans that are never finished must not accumulate
+    if (this.spans.size >= this.maxQueueSize) {
+      const oldest = this.spans.keys().next().value as string;
+      this.spans.delete(oldest);
+      this.dropped++;
+    }
+    this.spans.set(span.id, span);
+    return span.id;
   }
 
   finishSpan(spanId: string, tags?: Record<string, any>): void {
     const span = this.spans.get(spanId);
-    if (span) {
-      span.endTime = Date.now();
-      if (tags) {
-        span.tags = { ...span.tags, ...tags };
-      }
+    if (!span) return;
+
+    span.endTime = this.now();
+    if (tags) {
+      span.tags = { ...span.tags, ...tags };
+    }
+    this.spans.delete(spanId);
+    if (!span.sampled) return;
+
+    if (this.finished.length >= this.maxQueueSize) {
+      this.finished.shift();
+      this.dropped++;
     }
+    this.finished.push(span);
+    if (this.options.exporter && this.finished.length >= (this.options.maxExportBatchSize ?? 512)) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Runs `fn` inside a new span that is active for everything it awaits.
+   * The span ends when `fn` returns or its promise settles; errors are
+   * recorded on it and rethrown.
+   */
+  withSpan<T>(name: string, fn: (span: Span) => T, options: StartSpanOptions = {}): T {
+    const span = this.spans.get(this.startSpan(name, options))!;
+    return activeSpan.run(span, () => {
+      try {
+        const result = fn(span);
+        if (result instanceof Promise) {
+          return result.then(
+            value => {
+              this.finishSpan(span.id);
+              return value;
+            },
+            error => {
+              this.recordException(span.id, error);
+              this.finishSpan(span.id);
+              throw error;
+            }
+          ) as unknown as T;
+        }
+        this.finishSpan(span.id);
+        return result;
+      } catch (error) {
+        this.recordException(span.id, error);
+        this.finishSpan(span.id);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Makes an open span the active one while `fn` runs.
+   */
+  withActiveSpan<T>(spanId: string, fn: () => T): T {
+    const span = this.spans.get(spanId);
+    return span ? activeSpan.run(span, fn) : fn();
+  }
+
+  getActiveSpan(): Span | undefined {
+    return activeSpan.getStore();
   }
 
   addTag(spanId: string, key: string, value: any): void {
@@ -44,11 +168,173 @@ export class TracingService {
     }
   }
 
+  addEvent(spanId: string, name: string, attributes?: Record<string, any>): void {
+    this.spans.get(spanId)?.events.push({ name, time: this.now(), attributes });
+  }
+
+  setStatus(spanId: string, code: SpanStatusCode, message?: string): void {
+    const span = this.spans.get(spanId);
+    if (span) {
+      span.status = { code, message: code === 'error' ? message : undefined };
+    }
+  }
+
+  /**
+   * Adds an `exception` event and marks the span as failed.
+   */
+  recordException(spanId: string, error: unknown): void {
+    const exception = error instanceof Error ? error : new Error(String(error));
+    this.addEvent(spanId, 'exception', {
+      'exception.type': exception.name,
+      'exception.message': exception.message,
+      'exception.stacktrace': exception.stack,
+    });
+    this.setStatus(spanId, 'error', exception.message);
+  }
+
   getSpan(spanId: string): Span | undefined {
-    return this.spans.get(spanId);
+    return this.spans.get(spanId) || this.finished.find(span => span.id === spanId);
   }
 
-  private generateId(): string {
-    return Math.random().toString(36).substr(2, 9);
+  getSpanContext(spanId: string): SpanContext | undefined {
+    const span = this.getSpan(spanId);
+    return span && this.contextOf(span);
   }
-}
\ No newline at end of file
+
+  /**
+   * Reads the `traceparent` and `tracestate` headers. Returns undefined when
+   * they are missing or malformed.
+   */
+  extract(headers: Record<string, string | string[] | undefined>): SpanContext | undefined {
+    const traceparent = this.header(headers, 'traceparent');
+    const match = traceparent && TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+    if (!match) return undefined;
+
+    const [, version, traceId, spanId, flags, rest] = match;
+    if (version === 'ff' || (version === '00' && rest) || traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+      return undefined;
+    }
+
+    const traceState = this.header(headers, 'tracestate');
+    return {
+      traceId,
+      spanId,
+      traceFlags: parseInt(flags, 16),
+      traceState: traceState || undefined,
+      isRemote: true,
+    };
+  }
+
+  /**
+   * Writes `traceparent` and `tracestate` for the given context, or for the
+   * active span when none is given.
+   */
+  inject(headers: Record<string, string>, context?: SpanContext): void {
+    const span = context ? undefined : activeSpan.getStore();
+    const target = context || (span && this.contextOf(span));
+    if (!target) return;
+
+    const flags = (target.traceFlags & 0xff).toString(16).padStart(2, '0');
+    headers['traceparent'] = `00-${target.traceId}-${target.spanId}-${flags}`;
+    if (target.traceState) {
+      headers['tracestate'] = target.traceState;
+    }
+  }
+
+  /**
+   * Sends buffered spans to the exporter. Spans of a failed export are
+   * dropped.
+   */
+  flush(): Promise<void> {
+    const exporter = this.options.exporter;
+    if (!exporter) return Promise.resolve();
+
+    this.exporting = this.exporting.then(async () => {
+      while (this.finished.length > 0) {
+        const batch = this.finished.splice(0, this.options.maxExportBatchSize ?? 512);
+        try {
+          await exporter.export(batch);
+        } catch (error) {
+          this.dropped += batch.length;
+          this.logger.warn(`Failed to export ${batch.length} spans: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    });
+    return this.exporting;
+  }
+
+  /**
+   * Spans discarded because a buffer was full or their export failed.
+   */
+  getDroppedSpanCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Runs an outgoing `HttpUtils.request` in a client span and sends its
+   * context, unless the caller set `traceparent` itself.
+   */
+  private traceRequest(
+    url: string,
+    init: RequestInit & { headers: Record<string, string> },
+    next: () => Promise<Response>
+  ): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    return this.withSpan(method, async span => {
+      if (!init.headers['traceparent']) {
+        this.inject(init.headers);
+      }
+      const response = await next();
+      span.tags['http.response.status_code'] = response.status;
+      if (response.status >= 400) {
+        this.setStatus(span.id, 'error');
+      }
+      return response;
+    }, {
+      kind: 'client',
+      attributes: { 'http.request.method': method, 'url.full': url },
+    });
+  }
+
+  private get maxQueueSize(): number {
+    return this.options.maxQueueSize ?? 2048;
+  }
+
+  private resolveParent(parent: string | SpanContext | undefined, root?: boolean): SpanContext | undefined {
+    if (typeof parent === 'string') {
+      const span = this.getSpan(parent);
+      return span && this.contextOf(span);
+    }
+    if (parent) return parent;
+    if (root) return undefined;
+
+    const active = activeSpan.getStore();
+    return active && this.contextOf(active);
+  }
+
+  private contextOf(span: Span): SpanContext {
+    return {
+      traceId: span.traceId,
+      spanId: span.id,
+      traceFlags: span.sampled ? SAMPLED_FLAG : 0,
+      traceState: span.traceState,
+    };
+  }
+
+  private header(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+    const value = headers[name] ?? Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+    return Array.isArray(value) ? value.join(',') : value;
+  }
+
+  private now(): number {
+    return performance.timeOrigin + performance.now();
+  }
+
+  private generateId(bytes: number): string {
+    let id: string;
+    do {
+      id = randomBytes(bytes).toString('hex');
+    } while (/^0+$/.test(id));
+    return id;
+  }
+}
@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { AlertNotification, AlertNotifier } from '@katarsaad/monitoring';
+import { HttpUtils } from '@katarsaad/shared';
+import { NotificationPayload, NotificationResult } from '../interfaces/notification.interface';
+import { EmailAdapter } from './email.adapter';
+import { SmsAdapter } from './sms.adapter';
+
+const PRIORITIES: Record<AlertNotification['alert']['severity'], NotificationPayload['priority']> = {
+  low: 'low',
+  medium: 'normal',
+  high: 'high',
+  critical: 'high',
+};
+
+/**
+ * Delivers alerts of the monitoring `AlertingService` to receivers written
+ * as `<channel>:<address>`: `email:oncall@example.com`, `sms:+15550100` or
+ * `webhook:https://example.com/alerts`.
+ */
+@Injectable()
+export class AlertNotifierAdapter implements AlertNotifier {
+  constructor(
+    private readonly emailAdapter: EmailAdapter,
+    private readonly smsAdapter: SmsAdapter
+  ) {}
+
+  async notify(receiver: string, notification: AlertNotification): Promise<void> {
+    const separator = receiver.indexOf(':');
+    const channel = receiver.slice(0, separator);
+    const to = receiver.slice(separator + 1);
+
+    let result: NotificationResult;
+    switch (channel) {
+      case 'email':
+        result = await this.emailAdapter.send(this.toPayload(to, notification));
+        break;
+      case 'sms':
+        result = await this.smsAdapter.send(this.toPayload(to, notification));
+        break;
+      case 'webhook':
+        return this.postWebhook(to, notification);
+      default:
+        throw new Error(`Unsupported alert receiver: ${receiver}`);
+    }
+
+    if (result.status === 'failed') {
+      throw new Error(result.error || `Failed to notify ${receiver}`);
+    }
+  }
+
+  private toPayload(to: string, { status, alert }: AlertNotification): NotificationPayload {
+    return {
+      to,
+      subject: `[${status.toUpperCase()}] ${alert.labels.alertname} (${alert.severity})`,
+      message: alert.message,
+      data: { ...alert.labels, value: alert.value },
+      priority: PRIORITIES[alert.severity],
+    };
+  }
+
+  private async postWebhook(url: string, { status, alert }: AlertNotification): Promise<void> {
+    const response = await HttpUtils.request(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        status,
+        labels: alert.labels,
+        message: alert.message,
+        value: alert.value,
+        startsAt: alert.timestamp.toISOString(),
+        endsAt: alert.resolvedAt?.toISOString(),
+      }),
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) {
+      throw new Error(`Alert webhook responded with ${response.status}`);
+    }
+  }
+}
@@ -2,5 +2,6 @@ export * from './services/notification.service';
 export * from './services/notification-template.service';
 export * from './adapters/email.adapter';
 export * from './adapters/sms.adapter';
+export * from './adapters/alert-notifier.adapter';
 export * from './notifications.module';
 export type { NotificationPayload, NotificationChannel, NotificationResult, NotificationTemplate } from './interfaces/notification.interface';
\ No newline at end of file
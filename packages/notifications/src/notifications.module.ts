@@ -3,14 +3,22 @@ import { NotificationService } from './services/notification.service';
 import { NotificationTemplateService } from './services/notification-template.service';
 import { EmailAdapter } from './adapters/email.adapter';
 import { SmsAdapter } from './adapters/sms.adapter';
-import { MonitoringModule } from '@katarsaad/monitoring';
+import { AlertNotifierAdapter } from './adapters/alert-notifier.adapter';
+import { ALERT_NOTIFIER, MonitoringModule } from '@katarsaad/monitoring';
 import { CoreModule } from '@katarsaad/core';
 import { QueueModule } from '@katarsaad/queue';
 
 @Global()
 @Module({
-  imports: [MonitoringModule.forRoot(), CoreModule, QueueModule],
-  providers: [NotificationService, NotificationTemplateService, EmailAdapter, SmsAdapter],
-  exports: [NotificationService, NotificationTemplateService, EmailAdapter, SmsAdapter],
+  imports: [MonitoringModule, CoreModule, QueueModule],
+  providers: [
+    NotificationService,
+    NotificationTemplateService,
+    EmailAdapter,
+    SmsAdapter,
+    AlertNotifierAdapter,
+    { provide: ALERT_NOTIFIER, useExisting: AlertNotifierAdapter },
+  ],
+  exports: [NotificationService, NotificationTemplateService, EmailAdapter, SmsAdapter, AlertNotifierAdapter, ALERT_NOTIFIER],
 })
 export class NotificationsModule {}
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { Injectable, Logger, Optional } from '@nestjs/common';
-import { EventBusService } from '@katarsaad/core';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { EventBusService, EVENT_OUTBOX, EventOutbox } from '@katarsaad/core';
 import { MetricsService } from '@katarsaad/monitoring';
 
 export interface NotificationTemplate {
@@ -24,7 +24,8 @@ export class NotificationService {
 
   constructor(
     @Optional() private eventBus: EventBusService,
-    @Optional() private metricsService: MetricsService
+    @Optional() private metricsService: MetricsService,
+    @Optional() @Inject(EVENT_OUTBOX) private readonly outbox?: EventOutbox
   ) {
     this.initializeMetrics();
   }
@@ -33,7 +34,11 @@ export class NotificationService {
     this.templates.set(template.id, template);
   }
 
-  async sendNotification(data: NotificationData): Promise<void> {
+  /**
+   * Sends a notification. Pass the transaction client of a related write as
+   * `tx` so the `NotificationSent` event is stored in the outbox with it.
+   */
+  async sendNotification(data: NotificationData, tx?: unknown): Promise<void> {
     const template = this.templates.get(data.templateId);
     if (!template) {
       throw new Error(`Template ${data.templateId} not found`);
@@ -48,16 +53,20 @@ export class NotificationService {
       this.metricsService.incrementCounter('notification_sent', 1, { type: template.type });
     }
     
-    if (this.eventBus) {
-      this.eventBus.publish({
-        id: this.generateId(),
-        type: 'NotificationSent',
-        aggregateId: this.generateId(),
-        aggregateType: 'Notification',
-        version: 1,
-        occurredOn: new Date(),
-        data: { to: data.to, templateId: template.id, type: template.type }
-      });
+    const event = {
+      id: this.generateId(),
+      type: 'NotificationSent',
+      aggregateId: this.generateId(),
+      aggregateType: 'Notification',
+      version: 1,
+      occurredOn: new Date(),
+      data: { to: data.to, templateId: template.id, type: template.type }
+    };
+
+    if (this.outbox) {
+      await this.outbox.add(event, tx);
+    } else if (this.eventBus) {
+      this.eventBus.publish(event);
     }
   }
 
@@ -0,0 +1,20 @@
+/**
+ * Thrown by a worker to fail the job without using its remaining attempts.
+ */
+export class UnrecoverableJobException extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnrecoverableJobException';
+  }
+}
+
+/**
+ * Thrown by a worker to hand the job back to the queue without counting
+ * the attempt, optionally after `delay` milliseconds.
+ */
+export class RequeueJobException extends Error {
+  constructor(public readonly delay: number = 0) {
+    super('Job requeued');
+    this.name = 'RequeueJobException';
+  }
+}
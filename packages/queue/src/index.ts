@@ -1,5 +1,14 @@
 export * from './services/queue.service';
 export * from './services/queue-scheduler.service';
+export * from './services/message-broker.service';
+export * from './services/saga-scheduler.service';
+export * from './stores/memory-queue.store';
+export * from './stores/file-queue.store';
+export * from './stores/prisma-queue.store';
 export * from './decorators/queue-processor.decorator';
+export * from './indicators/queue.indicator';
 export * from './queue.module';
-export type { QueueJob, QueueOptions, JobProcessor, QueueStats, BackoffStrategy } from './interfaces/queue.interface';
\ No newline at end of file
+export * from './exceptions/queue.exceptions';
+export { QUEUE_STORE } from './interfaces/queue-store.interface';
+export type { QueueStore } from './interfaces/queue-store.interface';
+export type { QueueJob, QueueOptions, JobProcessor, QueueStats, BackoffStrategy, BackoffFunction } from './interfaces/queue.interface';
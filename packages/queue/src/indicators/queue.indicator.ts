@@ -0,0 +1,48 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import {
+  HEALTH_OPTIONS,
+  HealthCheck,
+  HealthCheckDecorator,
+  HealthIndicator,
+  HealthModuleOptions,
+  HealthStatus,
+  QueueHealthOptions,
+} from '@katarsaad/health';
+import { QueueService } from '../services/queue.service';
+
+/**
+ * Reports queues whose waiting jobs pile up past `maxBacklog` as degraded.
+ * Registered by `HealthService` when `HealthModule` is imported.
+ */
+@Injectable()
+@HealthCheckDecorator({ name: 'queue', critical: false })
+export class QueueHealthIndicator implements HealthIndicator {
+  readonly name = 'queue';
+  private readonly options: QueueHealthOptions;
+
+  constructor(
+    private readonly queueService: QueueService,
+    @Optional() @Inject(HEALTH_OPTIONS) healthOptions?: HealthModuleOptions
+  ) {
+    this.options = healthOptions?.queue || {};
+  }
+
+  async check(): Promise<HealthCheck> {
+    const maxBacklog = this.options.maxBacklog ?? 1000;
+    const queues = this.options.queues || (await this.queueService.getQueues());
+
+    const backlog: Record<string, number> = {};
+    for (const queue of queues) {
+      backlog[queue] = (await this.queueService.getJobCounts(queue)).waiting;
+    }
+    const backedUp = queues.filter(queue => backlog[queue] > maxBacklog);
+
+    return {
+      name: this.name,
+      status: backedUp.length > 0 ? HealthStatus.DEGRADED : HealthStatus.UP,
+      message: backedUp.length > 0 ? `Backlog above ${maxBacklog} in ${backedUp.join(', ')}` : undefined,
+      timestamp: new Date(),
+      metadata: { backlog },
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import type { QueueJob, QueueJobStatus } from '../services/queue.service';
+
+export const QUEUE_STORE = 'QUEUE_STORE';
+
+export interface QueueStore {
+  add(job: QueueJob): Promise<void>;
+  update(job: QueueJob): Promise<void>;
+  get(jobId: string): Promise<QueueJob | null>;
+  remove(jobId: string): Promise<void>;
+  list(queueName: string, status?: QueueJobStatus): Promise<QueueJob[]>;
+  /**
+   * Atomically moves the highest priority waiting job of a queue to `active`
+   * and returns it, or `null` when nothing is waiting. When `jobTypes` is
+   * given only jobs of those types are considered.
+   */
+  claimNext(queueName: string, jobTypes?: string[]): Promise<QueueJob | null>;
+  queues(): Promise<string[]>;
+  /** Registers a consumer group of a message topic; registering it again is a no-op. */
+  addConsumerGroup(topic: string, group: string): Promise<void>;
+  listConsumerGroups(topic: string): Promise<string[]>;
+}
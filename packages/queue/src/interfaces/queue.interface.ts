@@ -8,15 +8,27 @@ export interface QueueJob<T = any> {
   backoff?: BackoffStrategy;
 }
 
-export interface BackoffStrategy {
-  type: 'fixed' | 'exponential';
-  delay: number;
-}
+export type BackoffStrategy =
+  | {
+      type: 'fixed' | 'exponential';
+      delay: number;
+      /** Fraction (0-1) of the computed delay that is randomly removed. */
+      jitter?: number;
+      maxDelay?: number;
+    }
+  | {
+      /** Refers to a function registered with `QueueService.registerBackoffStrategy`. */
+      type: 'custom';
+      name: string;
+    };
+
+export type BackoffFunction = (attempt: number, error: unknown) => number;
 
 export interface QueueOptions {
   concurrency?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  backoff?: BackoffStrategy | BackoffFunction;
   removeOnComplete?: number;
   removeOnFail?: number;
 }
@@ -27,6 +39,7 @@ export interface JobProcessor<T = any> {
 
 export interface QueueStats {
   waiting: number;
+  waitingChildren: number;
   active: number;
   completed: number;
   failed: number;
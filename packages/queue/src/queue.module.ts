@@ -1,13 +1,47 @@
-import { Module, Global } from '@nestjs/common';
+import { Module, Global, DynamicModule } from '@nestjs/common';
 import { QueueService } from './services/queue.service';
 import { QueueSchedulerService } from './services/queue-scheduler.service';
+import { MessageBrokerService } from './services/message-broker.service';
+import { SagaSchedulerService } from './services/saga-scheduler.service';
+import { QueueHealthIndicator } from './indicators/queue.indicator';
+import { QUEUE_STORE, QueueStore } from './interfaces/queue-store.interface';
+import { MESSAGE_BROKER, SAGA_SCHEDULER } from '@katarsaad/events';
 import { MonitoringModule } from '@katarsaad/monitoring';
 import { CoreModule } from '@katarsaad/core';
 
+export interface QueueModuleOptions {
+  store?: QueueStore;
+}
+
 @Global()
 @Module({
-  imports: [MonitoringModule.forRoot(), CoreModule],
-  providers: [QueueService, QueueSchedulerService],
-  exports: [QueueService, QueueSchedulerService],
+  imports: [MonitoringModule, CoreModule],
+  providers: [
+    QueueService,
+    QueueSchedulerService,
+    MessageBrokerService,
+    { provide: MESSAGE_BROKER, useExisting: MessageBrokerService },
+    SagaSchedulerService,
+    { provide: SAGA_SCHEDULER, useExisting: SagaSchedulerService },
+    QueueHealthIndicator,
+  ],
+  exports: [QueueService, QueueSchedulerService, MessageBrokerService, MESSAGE_BROKER, SagaSchedulerService, SAGA_SCHEDULER],
 })
-export class QueueModule {}
\ No newline at end of file
+export class QueueModule {
+  static forRoot(options: QueueModuleOptions = {}): DynamicModule {
+    return {
+      module: QueueModule,
+      providers: [
+        ...(options.store ? [{ provide: QUEUE_STORE, useValue: options.store }] : []),
+        QueueService,
+        QueueSchedulerService,
+        MessageBrokerService,
+        { provide: MESSAGE_BROKER, useExisting: MessageBrokerService },
+        SagaSchedulerService,
+        { provide: SAGA_SCHEDULER, useExisting: SagaSchedulerService },
+        QueueHealthIndicator,
+      ],
+      exports: [QueueService, QueueSchedulerService, MessageBrokerService, MESSAGE_BROKER, SagaSchedulerService, SAGA_SCHEDULER],
+    };
+  }
+}
@@ -0,0 +1,233 @@
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import {
+  ConsumeOptions,
+  Delivery,
+  Message,
+  MessageBroker,
+  MessageConsumer,
+  MessageHandler,
+  PublishOptions,
+  ReceiveOptions,
+} from '@katarsaad/events';
+import { MetricsService } from '@katarsaad/monitoring';
+import { QueueJob, QueueService } from './queue.service';
+import { RequeueJobException, UnrecoverableJobException } from '../exceptions/queue.exceptions';
+
+interface MessageData<T = any> {
+  messageId: string;
+  payload: T;
+  headers: Record<string, string>;
+  publishedAt: string;
+}
+
+type DeliveryOutcome =
+  | { kind: 'ack' }
+  | { kind: 'nack'; error?: unknown; deadLetter: boolean }
+  | { kind: 'requeue'; delay: number };
+
+export const DEFAULT_CONSUMER_GROUP = 'default';
+const DEFAULT_VISIBILITY_TIMEOUT = 30000;
+const DEFAULT_MAX_DELIVERIES = 3;
+
+/**
+ * `MessageBroker` backed by `QueueService`. A topic is a queue and every
+ * consumer group gets its own copy of each message as a job of type
+ * `<topic>::<group>`, so persistence, retries, dead-lettering and the
+ * registered groups are the queue's.
+ */
+@Injectable()
+export class MessageBrokerService implements MessageBroker {
+  private readonly logger = new Logger(MessageBrokerService.name);
+  // Consumer groups registered by this process, with their pending writes to the queue store
+  private readonly registrations = new Map<string, Map<string, Promise<void>>>();
+
+  constructor(
+    private readonly queueService: QueueService,
+    @Optional() private readonly metricsService?: MetricsService
+  ) {
+    this.metricsService?.createCounter('messages_published', 'Messages published to a topic');
+  }
+
+  /**
+   * Copies the message to every consumer group of the topic. Messages
+   * published before any group exists go to the `default` group.
+   */
+  async publish<T>(topic: string, payload: T, options: PublishOptions = {}): Promise<string> {
+    const messageId = this.generateMessageId();
+    const data: MessageData<T> = {
+      messageId,
+      payload,
+      headers: options.headers || {},
+      publishedAt: new Date().toISOString(),
+    };
+
+    const jobOptions: Partial<QueueJob> = { maxAttempts: options.maxDeliveries ?? DEFAULT_MAX_DELIVERIES };
+    if (options.priority !== undefined) jobOptions.priority = options.priority;
+    if (options.delay !== undefined) jobOptions.delay = options.delay;
+
+    await Promise.all(this.registrations.get(topic)?.values() || []);
+    const registered = await this.queueService.getConsumerGroups(topic);
+    const groups = registered.length > 0 ? registered : [DEFAULT_CONSUMER_GROUP];
+    for (const group of groups) {
+      await this.queueService.addJob(topic, this.jobType(topic, group), data, jobOptions);
+    }
+
+    this.metricsService?.incrementCounter('messages_published', 1, { topic });
+    return messageId;
+  }
+
+  createConsumerGroup(topic: string, group: string): void {
+    if (!this.registrations.has(topic)) {
+      this.registrations.set(topic, new Map());
+    }
+    const groups = this.registrations.get(topic)!;
+    if (groups.has(group)) return;
+
+    const registration = this.queueService.addConsumerGroup(topic, group).catch(error => {
+      groups.delete(group);
+      this.logger.error(`Failed to register consumer group ${group} of topic ${topic}:`, error);
+    });
+    groups.set(group, registration);
+  }
+
+  consume<T>(topic: string, group: string, handler: MessageHandler<T>, options: ConsumeOptions = {}): MessageConsumer {
+    this.createConsumerGroup(topic, group);
+    const jobType = this.jobType(topic, group);
+    const autoAck = options.autoAck !== false;
+
+    this.queueService.registerWorker<MessageData<T>>(jobType, async job => {
+      let settle!: (outcome: DeliveryOutcome) => void;
+      const settled = new Promise<DeliveryOutcome>(resolve => (settle = resolve));
+      let outcome: DeliveryOutcome | undefined;
+
+      const delivery = this.createDelivery(job, group, result => {
+        if (outcome) return;
+        outcome = result;
+        settle(result);
+      });
+
+      try {
+        await handler(delivery);
+        if (!outcome && autoAck) await delivery.ack();
+      } catch (error) {
+        if (!outcome) await delivery.nack({ error });
+      }
+
+      // Without auto-ack the delivery stays in flight until settled or the visibility timeout
+      const final = outcome || (await settled);
+      this.throwForOutcome(final);
+    }, {
+      concurrency: options.concurrency,
+      timeout: options.visibilityTimeout ?? DEFAULT_VISIBILITY_TIMEOUT,
+    });
+
+    return {
+      stop: () => this.queueService.unregisterWorker(jobType),
+    };
+  }
+
+  async receive<T>(topic: string, group: string, options: ReceiveOptions = {}): Promise<Delivery<T>[]> {
+    const jobType = this.jobType(topic, group);
+    const deliveries: Delivery<T>[] = [];
+
+    for (let i = 0; i < (options.max || 1); i++) {
+      const job = await this.queueService.claimJob(topic, [jobType], options.visibilityTimeout ?? DEFAULT_VISIBILITY_TIMEOUT);
+      if (!job) break;
+
+      let settled = false;
+      deliveries.push(this.createDelivery<T>(job, group, async outcome => {
+        if (settled) return;
+        settled = true;
+
+        if (outcome.kind === 'ack') {
+          await this.queueService.completeJob(job.id);
+        } else if (outcome.kind === 'nack') {
+          await this.queueService.failJob(job.id, outcome.error ?? 'Message rejected', { retry: !outcome.deadLetter });
+        } else {
+          await this.queueService.releaseJob(job.id, outcome.delay);
+        }
+      }));
+    }
+
+    return deliveries;
+  }
+
+  async getBacklog(topic: string, group: string): Promise<number> {
+    const jobType = this.jobType(topic, group);
+    const jobs = await this.queueService.getJobs(topic);
+    return jobs.filter(job => job.type === jobType && (job.status === 'waiting' || job.status === 'delayed')).length;
+  }
+
+  async getDeadLetters<T>(topic: string, group: string): Promise<Message<T>[]> {
+    const jobType = this.jobType(topic, group);
+    const jobs = await this.queueService.getDeadLetterJobs(topic);
+    return jobs.filter(job => job.type === jobType).map(job => this.toMessage<T>(job, group));
+  }
+
+  /**
+   * Moves the group's dead-lettered messages back for redelivery.
+   */
+  async redrive(topic: string, group: string): Promise<number> {
+    const jobType = this.jobType(topic, group);
+    const jobs = await this.queueService.getDeadLetterJobs(topic);
+    let redriven = 0;
+    for (const job of jobs.filter(candidate => candidate.type === jobType)) {
+      if (await this.queueService.requeueJob(job.id)) redriven++;
+    }
+    return redriven;
+  }
+
+  private createDelivery<T>(
+    job: QueueJob<MessageData<T>>,
+    group: string,
+    onSettle: (outcome: DeliveryOutcome) => void | Promise<void>
+  ): Delivery<T> {
+    return {
+      ...this.toMessage<T>(job, group),
+      ack: async () => {
+        await onSettle({ kind: 'ack' });
+      },
+      nack: async (options = {}) => {
+        await onSettle({ kind: 'nack', error: options.error, deadLetter: options.deadLetter === true });
+      },
+      requeue: async (delay = 0) => {
+        await onSettle({ kind: 'requeue', delay });
+      },
+    };
+  }
+
+  private throwForOutcome(outcome: DeliveryOutcome): void {
+    if (outcome.kind === 'requeue') {
+      throw new RequeueJobException(outcome.delay);
+    }
+    if (outcome.kind === 'nack') {
+      const message = outcome.error !== undefined ? String(outcome.error) : 'Message rejected';
+      if (outcome.deadLetter) {
+        throw new UnrecoverableJobException(message);
+      }
+      throw outcome.error instanceof Error ? outcome.error : new Error(message);
+    }
+  }
+
+  private toMessage<T>(job: QueueJob<MessageData<T>>, group: string): Message<T> {
+    return {
+      id: job.data.messageId,
+      topic: job.queue,
+      group,
+      payload: job.data.payload,
+      headers: job.data.headers,
+      deliveryCount: job.attempts,
+      publishedAt: new Date(job.data.publishedAt),
+      priority: job.priority,
+      maxDeliveries: job.maxAttempts,
+    };
+  }
+
+  private jobType(topic: string, group: string): string {
+    return `${topic}::${group}`;
+  }
+
+  private generateMessageId(): string {
+    return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -2,49 +2,57 @@ import { Injectable } from '@nestjs/common';
 import { QueueService } from './queue.service';
 import { QueueJob } from '../interfaces/queue.interface';
 import { MetricsService } from '@katarsaad/monitoring';
+import { CronJob, CronOptions } from '@katarsaad/core';
 
 @Injectable()
 export class QueueSchedulerService {
-  private scheduledJobs = new Map<string, NodeJS.Timeout>();
+  private scheduledJobs = new Map<string, CronJob>();
 
   constructor(
     private queueService: QueueService,
     private metrics: MetricsService
   ) {}
 
-  scheduleJob(name: string, data: any, cronExpression: string): void {
+  scheduleJob(name: string, data: any, cronExpression: string, options: CronOptions = {}): void {
     this.cancelScheduledJob(name);
 
-    const interval = this.parseCronToInterval(cronExpression);
-    
-    const job = setInterval(async () => {
+    const job = new CronJob(cronExpression, async () => {
       try {
         await this.queueService.addJob('scheduled', name, data);
         this.metrics.incrementCounter('scheduled_job_added', 1, { name });
       } catch (error) {
         this.metrics.incrementCounter('scheduled_job_failed', 1, { name });
       }
-    }, interval);
+    }, options);
+    job.start();
 
     this.scheduledJobs.set(name, job);
     this.metrics.incrementCounter('job_scheduled', 1, { name });
   }
 
-  scheduleDelayedJob(job: QueueJob, delayMs: number): void {
-    setTimeout(async () => {
-      try {
-        await this.queueService.addJob('delayed', job.name, job.data);
-        this.metrics.incrementCounter('delayed_job_added', 1, { name: job.name });
-      } catch (error) {
-        this.metrics.incrementCounter('delayed_job_failed', 1, { name: job.name });
-      }
-    }, delayMs);
+  /**
+   * Adds the job to the `delayed` queue now; the queue holds it until
+   * `delayMs` has passed, so it survives a restart. Returns the job id.
+   */
+  async scheduleDelayedJob(job: QueueJob, delayMs: number): Promise<string> {
+    try {
+      const jobId = await this.queueService.addJob('delayed', job.name, job.data, {
+        delay: delayMs,
+        ...(job.priority !== undefined && { priority: job.priority }),
+        ...(job.backoff && { backoff: job.backoff }),
+      });
+      this.metrics.incrementCounter('delayed_job_added', 1, { name: job.name });
+      return jobId;
+    } catch (error) {
+      this.metrics.incrementCounter('delayed_job_failed', 1, { name: job.name });
+      throw error;
+    }
   }
 
   cancelScheduledJob(name: string): void {
     const job = this.scheduledJobs.get(name);
     if (job) {
-      clearInterval(job);
+      job.stop();
       this.scheduledJobs.delete(name);
       this.metrics.incrementCounter('job_unscheduled', 1, { name });
     }
@@ -54,10 +62,8 @@ export class QueueSchedulerService {
     return Array.from(this.scheduledJobs.keys());
   }
 
-  private parseCronToInterval(cron: string): number {
-    if (cron === '0 0 * * *') return 24 * 60 * 60 * 1000; // daily
-    if (cron === '0 0 * * 0') return 7 * 24 * 60 * 60 * 1000; // weekly
-    if (cron === '0 * * * *') return 60 * 60 * 1000; // hourly
-    return 60 * 1000; // default every minute
+  getNextRuns(name: string, count: number = 5): Date[] {
+    const job = this.scheduledJobs.get(name);
+    return job ? job.getNextRuns(count) : [];
   }
-}
\ No newline at end of file
+}
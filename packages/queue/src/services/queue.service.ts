@@ -1,119 +1,1041 @@
-import { Injectable, Logger, Optional } from '@nestjs/common';
-import { EventBusService } from '@katarsaad/events';
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { EventBusService, OPERATION_INSTRUMENTER, OperationInstrumenter } from '@katarsaad/core';
 import { MetricsService } from '@katarsaad/monitoring';
+import { QUEUE_STORE, QueueStore } from '../interfaces/queue-store.interface';
+import { BackoffFunction, BackoffStrategy, QueueOptions, QueueStats } from '../interfaces/queue.interface';
+import { MemoryQueueStore } from '../stores/memory-queue.store';
+import { RequeueJobException, UnrecoverableJobException } from '../exceptions/queue.exceptions';
+
+/**
+ * `delayed` jobs wait for `nextAttemptAt` (initial delay or retry backoff),
+ * `waiting-children` jobs wait for their flow children to settle, `failed`
+ * jobs have exhausted `maxAttempts` and make up the queue's dead-letter set.
+ */
+export type QueueJobStatus = 'waiting' | 'waiting-children' | 'active' | 'delayed' | 'completed' | 'failed';
+
+/**
+ * What a parent does when one of its children fails for good: fail itself,
+ * ignore the child (its result is `undefined`) or requeue the child.
+ */
+export type ChildFailurePolicy = 'fail-parent' | 'ignore' | 'retry-child';
 
 export interface QueueJob<T = any> {
   id: string;
+  queue: string;
   type: string;
   data: T;
+  status: QueueJobStatus;
   priority: number;
   attempts: number;
   maxAttempts: number;
   delay: number;
+  /** Milliseconds an attempt may run before it is failed. */
+  timeout?: number;
+  backoff?: BackoffStrategy;
   createdAt: Date;
   processedAt?: Date;
   completedAt?: Date;
   failedAt?: Date;
+  nextAttemptAt?: Date;
+  /** Lease of an `active` job; once it passes, the job is recovered as a failed attempt. */
+  lockedUntil?: Date;
+  progress?: number;
+  progressData?: any;
+  result?: any;
   error?: string;
+  errorStack?: string;
+  parentId?: string;
+  childIds?: string[];
+  onChildFailure?: ChildFailurePolicy;
+  /** Times a failed child may be requeued under the `retry-child` policy. */
+  childRetries?: number;
+  /** Times this job was requeued by its parent's `retry-child` policy. */
+  requeues?: number;
+}
+
+export interface FlowJob<T = any> {
+  queue: string;
+  type: string;
+  data?: T;
+  options?: Partial<QueueJob>;
+  children?: FlowJob[];
+  onChildFailure?: ChildFailurePolicy;
+  childRetries?: number;
+}
+
+export interface JobFlowNode {
+  job: QueueJob;
+  children: JobFlowNode[];
+}
+
+export interface JobContext {
+  /** Records progress (0-100) on the job and publishes a `JobProgress` event. */
+  updateProgress(progress: number, data?: any): Promise<void>;
+  /** Results of the job's flow children, in the order they were declared. */
+  getChildResults<R = any>(): Promise<Array<R | undefined>>;
+  /** Aborted when the attempt times out; the job holds its worker slot until the handler returns. */
+  signal: AbortSignal;
+}
+
+export type JobWorker<T = any, R = any> = (job: QueueJob<T>, context: JobContext) => Promise<R>;
+
+export interface WorkerOptions {
+  /** Jobs of this type that may run at the same time. Defaults to 1. */
+  concurrency?: number;
+  /** Default attempt timeout for jobs that do not set their own. */
+  timeout?: number;
+}
+
+interface RegisteredWorker {
+  handler: JobWorker;
+  concurrency: number;
+  timeout?: number;
+  active: number;
+}
+
+/** Parent type used by `addBatch`; it completes without a worker. */
+export const BATCH_JOB_TYPE = '__batch';
+const DEFAULT_CHILD_RETRIES = 3;
+
+const DEFAULT_BACKOFF: Exclude<BackoffStrategy, { type: 'custom' }> = { type: 'fixed', delay: 5000 };
+// setTimeout overflows above 2^31 - 1 ms
+const MAX_TIMER_DELAY = 2147483647;
+// Lease of a job run by a worker; renewed at half this interval while it runs
+const WORKER_LOCK_MS = 30000;
+
+/** A job claimed with `claimJob`, until its holder settles it or the lock expires. */
+interface ManualLock {
+  job: QueueJob;
+  timer: NodeJS.Timeout;
+  settling: boolean;
+  released: Promise<void>;
+  release: () => void;
 }
 
 @Injectable()
-export class QueueService {
+export class QueueService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(QueueService.name);
-  private readonly queues = new Map<string, QueueJob[]>();
-  private readonly processing = new Map<string, boolean>();
-  private readonly workers = new Map<string, (job: QueueJob) => Promise<void>>();
+  private readonly store: QueueStore;
+  private readonly claiming = new Set<string>();
+  private readonly reclaim = new Set<string>();
+  private readonly activeJobs = new Map<string, number>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private closing = false;
+  private readonly pausedQueues = new Set<string>();
+  private readonly delayTimers = new Map<string, NodeJS.Timeout>();
+  private readonly queueOptions = new Map<string, QueueOptions>();
+  private readonly backoffStrategies = new Map<string, BackoffFunction>();
+  private readonly workers = new Map<string, RegisteredWorker>();
+  private readonly waiters = new Map<string, Array<{ resolve: (result: any) => void; reject: (error: Error) => void }>>();
+  private readonly flowLocks = new Map<string, Promise<void>>();
+  private readonly locks = new Map<string, ManualLock>();
+  private readonly lockWatchers = new Map<string, NodeJS.Timeout>();
 
   constructor(
     @Optional() private eventBus: EventBusService,
-    @Optional() private metricsService: MetricsService
+    @Optional() private metricsService: MetricsService,
+    @Optional() @Inject(QUEUE_STORE) store?: QueueStore,
+    @Optional() @Inject(OPERATION_INSTRUMENTER) private readonly instrumenter?: OperationInstrumenter
   ) {
+    this.store = store || new MemoryQueueStore();
     this.initializeMetrics();
   }
 
-  registerWorker<T>(jobType: string, worker: (job: QueueJob<T>) => Promise<void>): void {
-    this.workers.set(jobType, worker);
+  async onModuleInit(): Promise<void> {
+    await this.restoreJobs();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.close();
+  }
+
+  registerWorker<T, R = any>(
+    jobType: string,
+    worker: JobWorker<T, R>,
+    options: WorkerOptions = {}
+  ): void {
+    this.workers.set(jobType, {
+      handler: worker,
+      concurrency: Math.max(1, options.concurrency || 1),
+      timeout: options.timeout,
+      active: this.workers.get(jobType)?.active || 0,
+    });
+    this.processAllQueues();
+  }
+
+  /**
+   * Stops claiming jobs of a type. Jobs already running are left to finish.
+   */
+  unregisterWorker(jobType: string): boolean {
+    return this.workers.delete(jobType);
+  }
+
+  /**
+   * Stops picking up new jobs and waits for running ones to settle, and for
+   * jobs claimed with `claimJob` to be settled by their holders or expire.
+   * Jobs still running after `timeoutMs` stay `active` and are recovered
+   * once their lock expires.
+   */
+  async close(timeoutMs?: number): Promise<void> {
+    this.closing = true;
+    this.delayTimers.forEach(timer => clearTimeout(timer));
+    this.delayTimers.clear();
+    this.lockWatchers.forEach(timer => clearTimeout(timer));
+    this.lockWatchers.clear();
+
+    const pending = [...Array.from(this.inFlight), ...Array.from(this.locks.values(), lock => lock.released)];
+    if (pending.length === 0) return;
+
+    this.logger.log(`Waiting for ${pending.length} in-flight job(s) to finish`);
+    const drained = Promise.allSettled(pending).then(() => undefined);
+
+    if (timeoutMs === undefined) {
+      await drained;
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      drained,
+      new Promise<void>(resolve => {
+        timer = setTimeout(() => {
+          this.logger.warn(`Shutdown timeout reached with ${this.inFlight.size + this.locks.size} job(s) still running`);
+          resolve();
+        }, timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+    this.locks.forEach(lock => clearTimeout(lock.timer));
+    this.locks.clear();
+  }
+
+  /**
+   * Sets defaults for jobs of a queue. `retryAttempts` counts retries, so a
+   * job gets `retryAttempts + 1` attempts unless it sets `maxAttempts`.
+   */
+  setQueueOptions(queueName: string, options: QueueOptions): void {
+    this.queueOptions.set(queueName, { ...this.queueOptions.get(queueName), ...options });
+  }
+
+  registerBackoffStrategy(name: string, strategy: BackoffFunction): void {
+    this.backoffStrategies.set(name, strategy);
   }
 
   async addJob<T>(queueName: string, jobType: string, data: T, options: Partial<QueueJob> = {}): Promise<string> {
-    const job: QueueJob<T> = {
+    const job = this.buildJob(queueName, jobType, data, options);
+    await this.store.add(job);
+    this.enqueued(job);
+    return job.id;
+  }
+
+  /**
+   * Adds a tree of jobs where every parent waits in `waiting-children` until
+   * all of its children have settled. Returns the id of the root job.
+   */
+  async addFlow<T>(flow: FlowJob<T>): Promise<string> {
+    const jobs: QueueJob[] = [];
+    const rootId = this.buildFlow(flow, undefined, jobs);
+
+    // Parents are stored before their children so a fast child always finds its parent
+    for (const job of jobs) {
+      await this.store.add(job);
+    }
+    jobs.forEach(job => this.enqueued(job));
+    return rootId;
+  }
+
+  /**
+   * Fans `items` out to one `jobType` job each and fans them back in to a
+   * batch job whose result is the array of child results.
+   */
+  async addBatch<T>(
+    queueName: string,
+    jobType: string,
+    items: T[],
+    options: { onChildFailure?: ChildFailurePolicy; childRetries?: number; childOptions?: Partial<QueueJob> } = {}
+  ): Promise<string> {
+    return this.addFlow({
+      queue: queueName,
+      type: BATCH_JOB_TYPE,
+      data: { jobType, size: items.length },
+      onChildFailure: options.onChildFailure,
+      childRetries: options.childRetries,
+      children: items.map(item => ({ queue: queueName, type: jobType, data: item, options: options.childOptions })),
+    });
+  }
+
+  async getFlow(jobId: string): Promise<JobFlowNode | null> {
+    const job = await this.store.get(jobId);
+    if (!job) return null;
+
+    const children = await Promise.all((job.childIds || []).map(childId => this.getFlow(childId)));
+    return { job, children: children.filter((child): child is JobFlowNode => child !== null) };
+  }
+
+  pauseQueue(queueName: string): void {
+    this.pausedQueues.add(queueName);
+    this.logger.log(`Queue ${queueName} paused`);
+  }
+
+  resumeQueue(queueName: string): void {
+    if (this.pausedQueues.delete(queueName)) {
+      this.logger.log(`Queue ${queueName} resumed`);
+      this.processQueue(queueName);
+    }
+  }
+
+  isQueuePaused(queueName: string): boolean {
+    return this.pausedQueues.has(queueName);
+  }
+
+  async getQueues(): Promise<string[]> {
+    return this.store.queues();
+  }
+
+  /**
+   * Consumer groups of a message topic, kept in the store so every process
+   * sharing it copies published messages to the same groups.
+   */
+  async addConsumerGroup(topic: string, group: string): Promise<void> {
+    await this.store.addConsumerGroup(topic, group);
+  }
+
+  async getConsumerGroups(topic: string): Promise<string[]> {
+    return this.store.listConsumerGroups(topic);
+  }
+
+  async getJob(jobId: string): Promise<QueueJob | null> {
+    return this.store.get(jobId);
+  }
+
+  async getJobs(queueName: string, status?: QueueJobStatus): Promise<QueueJob[]> {
+    return this.store.list(queueName, status);
+  }
+
+  async getJobCounts(queueName: string): Promise<QueueStats> {
+    const counts: QueueStats = { waiting: 0, waitingChildren: 0, active: 0, delayed: 0, completed: 0, failed: 0 };
+    const jobs = await this.store.list(queueName);
+    for (const job of jobs) {
+      counts[job.status === 'waiting-children' ? 'waitingChildren' : job.status]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Resolves with the worker's result once the job completes, or rejects when
+   * it fails for good, is removed or `timeoutMs` elapses.
+   */
+  async waitForJob<R = any>(jobId: string, timeoutMs?: number): Promise<R> {
+    // Register before reading the job so a completion in between is not missed
+    const settled = new Promise<R>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const waiter = {
+        resolve: (result: R) => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        reject: (error: Error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.removeWaiter(jobId, waiter);
+          reject(new Error(`Timed out waiting for job ${jobId}`));
+        }, timeoutMs);
+      }
+
+      this.waiters.set(jobId, [...(this.waiters.get(jobId) || []), waiter]);
+    });
+
+    const job = await this.store.get(jobId);
+    if (!job) {
+      this.settleWaiters(jobId, new Error(`Job ${jobId} not found`));
+    } else if (job.status === 'completed') {
+      this.settleWaiters(jobId, null, job.result);
+    } else if (job.status === 'failed') {
+      this.settleWaiters(jobId, new Error(job.error || `Job ${jobId} failed`));
+    }
+
+    return settled;
+  }
+
+  /**
+   * Claims the next waiting job for processing outside of a registered
+   * worker. The caller must settle it with `completeJob`, `failJob` or
+   * `releaseJob` within `lockMs`, otherwise the attempt fails and the job is
+   * retried or dead-lettered like any other failure.
+   */
+  async claimJob(queueName: string, jobTypes?: string[], lockMs: number = 30000): Promise<QueueJob | null> {
+    if (this.closing || this.pausedQueues.has(queueName)) return null;
+
+    const job = await this.store.claimNext(queueName, jobTypes);
+    if (!job) return null;
+
+    job.processedAt = new Date();
+    job.lockedUntil = new Date(Date.now() + lockMs);
+    job.attempts++;
+    await this.persist(job);
+
+    let release!: () => void;
+    const released = new Promise<void>(resolve => (release = resolve));
+    const timer = setTimeout(() => this.settleLock(job.id, expired => this.expireLock(expired)), lockMs);
+    this.locks.set(job.id, { job, timer, settling: false, released, release });
+
+    return { ...job };
+  }
+
+  /**
+   * Settles a job claimed with `claimJob`. Returns false when the lock has
+   * already expired or the job was not claimed manually.
+   */
+  completeJob(jobId: string, result?: any): Promise<boolean> {
+    return this.settleLock(jobId, job => this.markCompleted(job, result));
+  }
+
+  failJob(jobId: string, error: unknown, options: { retry?: boolean } = {}): Promise<boolean> {
+    return this.settleLock(jobId, job => this.markFailed(job, error, options.retry !== false));
+  }
+
+  /**
+   * Hands a claimed job back without counting the attempt.
+   */
+  releaseJob(jobId: string, delay: number = 0): Promise<boolean> {
+    return this.settleLock(jobId, job => this.markReleased(job, delay));
+  }
+
+  /**
+   * Cancels a job that has not started yet. Returns false when the job is
+   * unknown, running or already finished.
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    const job = await this.store.get(jobId);
+    if (!job || (job.status !== 'waiting' && job.status !== 'delayed')) {
+      return false;
+    }
+
+    await this.discardJob(job);
+    this.settleWaiters(job.id, new Error(`Job ${job.id} was cancelled`));
+    await this.notifyParent(job, true);
+    this.metricsService?.incrementCounter('queue_job_cancelled', 1, { queue: job.queue, type: job.type });
+    return true;
+  }
+
+  /**
+   * Deletes a job in any state except `active`.
+   */
+  async removeJob(jobId: string): Promise<boolean> {
+    const job = await this.store.get(jobId);
+    if (!job || job.status === 'active') {
+      return false;
+    }
+
+    await this.discardJob(job);
+    this.settleWaiters(job.id, new Error(`Job ${job.id} was removed`));
+    await this.notifyParent(job, true);
+    return true;
+  }
+
+  async getDeadLetterJobs(queueName: string): Promise<QueueJob[]> {
+    return this.store.list(queueName, 'failed');
+  }
+
+  /**
+   * Moves a dead-lettered job back to `waiting` with a fresh attempt budget.
+   */
+  async requeueJob(jobId: string): Promise<boolean> {
+    const job = await this.store.get(jobId);
+    if (!job || job.status !== 'failed') {
+      return false;
+    }
+
+    job.status = 'waiting';
+    job.attempts = 0;
+    job.error = undefined;
+    job.errorStack = undefined;
+    job.failedAt = undefined;
+    job.nextAttemptAt = undefined;
+    job.progress = undefined;
+    job.progressData = undefined;
+    await this.store.update(job);
+
+    this.metricsService?.incrementCounter('queue_job_requeued', 1, { queue: job.queue, type: job.type });
+    this.processQueue(job.queue);
+    return true;
+  }
+
+  async requeueDeadLetterJobs(queueName: string): Promise<number> {
+    const jobs = await this.getDeadLetterJobs(queueName);
+    let requeued = 0;
+    for (const job of jobs) {
+      if (await this.requeueJob(job.id)) requeued++;
+    }
+    return requeued;
+  }
+
+  /**
+   * Claims jobs while the queue and worker concurrency limits allow it. Only
+   * one claim loop runs per queue; calls made meanwhile trigger another pass.
+   */
+  private async processQueue(queueName: string): Promise<void> {
+    if (this.closing || this.pausedQueues.has(queueName)) return;
+    if (this.claiming.has(queueName)) {
+      this.reclaim.add(queueName);
+      return;
+    }
+
+    this.claiming.add(queueName);
+    try {
+      do {
+        this.reclaim.delete(queueName);
+        await this.claimAvailable(queueName);
+      } while (this.reclaim.has(queueName) && !this.closing && !this.pausedQueues.has(queueName));
+    } finally {
+      this.claiming.delete(queueName);
+    }
+  }
+
+  private async claimAvailable(queueName: string): Promise<void> {
+    const limit = this.queueOptions.get(queueName)?.concurrency || Infinity;
+
+    while (!this.closing && !this.pausedQueues.has(queueName) && (this.activeJobs.get(queueName) || 0) < limit) {
+      const jobTypes = Array.from(this.workers.entries())
+        .filter(([, worker]) => worker.active < worker.concurrency)
+        .map(([jobType]) => jobType);
+      if (jobTypes.length === 0) return;
+
+      let job: QueueJob | null;
+      try {
+        job = await this.store.claimNext(queueName, jobTypes);
+      } catch (error) {
+        this.logger.error(`Failed to claim job from queue ${queueName}:`, error);
+        return;
+      }
+      if (!job) return;
+
+      const run = this.runJob(job).catch(error => {
+        this.logger.error(`Unexpected error while running job ${job!.id}:`, error);
+      });
+      this.inFlight.add(run);
+      run.finally(() => {
+        this.inFlight.delete(run);
+        this.processQueue(queueName);
+      });
+    }
+  }
+
+  private async runJob(job: QueueJob): Promise<void> {
+    const queueName = job.queue;
+    const worker = this.workers.get(job.type)!;
+
+    worker.active++;
+    this.activeJobs.set(queueName, (this.activeJobs.get(queueName) || 0) + 1);
+
+    const renewal = setInterval(() => {
+      job.lockedUntil = new Date(Date.now() + WORKER_LOCK_MS);
+      this.persist(job);
+    }, WORKER_LOCK_MS / 2);
+    let handler: Promise<unknown> | undefined;
+
+    try {
+      job.processedAt = new Date();
+      job.lockedUntil = new Date(Date.now() + WORKER_LOCK_MS);
+      job.attempts++;
+      await this.persist(job);
+      const result = await this.execute(job, worker, started => (handler = started));
+      await this.markCompleted(job, result);
+    } catch (error) {
+      if (error instanceof RequeueJobException) {
+        await this.markReleased(job, error.delay);
+      } else {
+        await this.markFailed(job, error, !(error instanceof UnrecoverableJobException));
+      }
+    } finally {
+      clearInterval(renewal);
+      // A timed-out handler may still be running, so its slot stays taken until it returns
+      await handler?.catch(() => undefined);
+      worker.active--;
+      this.activeJobs.set(queueName, (this.activeJobs.get(queueName) || 1) - 1);
+    }
+  }
+
+  private async markCompleted(job: QueueJob, result: any): Promise<void> {
+    job.status = 'completed';
+    job.completedAt = new Date();
+    job.result = result;
+    await this.persist(job);
+    if (this.metricsService) {
+      this.metricsService.incrementCounter('queue_job_completed', 1, { queue: job.queue, type: job.type });
+    }
+    this.publishJobEvent('JobCompleted', job, { result });
+    this.settleWaiters(job.id, null, result);
+    await this.notifyParent(job, false);
+  }
+
+  private async markFailed(job: QueueJob, error: unknown, retryable: boolean = true): Promise<void> {
+    job.error = String(error);
+    job.errorStack = error instanceof Error ? error.stack : undefined;
+    job.failedAt = new Date();
+    if (this.metricsService) {
+      this.metricsService.incrementCounter('queue_job_failed', 1, { queue: job.queue, type: job.type });
+    }
+
+    if (retryable && job.attempts < job.maxAttempts) {
+      const backoff = this.computeBackoff(job, error);
+      job.status = 'delayed';
+      job.nextAttemptAt = new Date(Date.now() + backoff);
+      await this.persist(job);
+      this.metricsService?.incrementCounter('queue_job_retried', 1, { queue: job.queue, type: job.type });
+      this.publishJobEvent('JobFailed', job, { error: job.error, willRetry: true, nextAttemptAt: job.nextAttemptAt });
+      if (!this.closing) this.scheduleDelayed(job);
+    } else {
+      job.nextAttemptAt = undefined;
+      job.status = 'failed';
+      await this.persist(job);
+      this.metricsService?.incrementCounter('queue_job_dead_lettered', 1, { queue: job.queue, type: job.type });
+      this.logger.warn(`Job ${job.id} moved to dead-letter after ${job.attempts} attempt(s)`);
+      this.publishJobEvent('JobFailed', job, { error: job.error, willRetry: false });
+      this.settleWaiters(job.id, new Error(job.error));
+      await this.notifyParent(job, true);
+    }
+  }
+
+  private async markReleased(job: QueueJob, delay: number): Promise<void> {
+    job.attempts = Math.max(0, job.attempts - 1);
+
+    if (delay > 0) {
+      job.status = 'delayed';
+      job.nextAttemptAt = new Date(Date.now() + delay);
+      await this.persist(job);
+      if (!this.closing) this.scheduleDelayed(job);
+    } else {
+      job.status = 'waiting';
+      await this.persist(job);
+      this.processQueue(job.queue);
+    }
+  }
+
+  /**
+   * Fails the attempt of a job whose lock expired, so it is retried or
+   * dead-lettered like any other failure.
+   */
+  private expireLock(job: QueueJob): Promise<void> {
+    this.metricsService?.incrementCounter('queue_job_lock_expired', 1, { queue: job.queue, type: job.type });
+    const since = job.lockedUntil ? ` at ${job.lockedUntil.toISOString()}` : '';
+    return this.markFailed(job, new Error(`Lock on job ${job.id} expired${since}`)).catch(error =>
+      this.logger.error(`Failed to expire lock on job ${job.id}:`, error)
+    );
+  }
+
+  /**
+   * Re-reads an `active` job held by another process, or by this one before
+   * a restart, when its lock is due and expires it unless it was renewed or
+   * settled in the meantime.
+   */
+  private watchLock(job: QueueJob): void {
+    const delayMs = Math.min(Math.max(0, (job.lockedUntil?.getTime() ?? 0) - Date.now()), MAX_TIMER_DELAY);
+
+    const timer = setTimeout(async () => {
+      this.lockWatchers.delete(job.id);
+      try {
+        const current = await this.store.get(job.id);
+        if (!current || current.status !== 'active' || this.closing) return;
+
+        if (current.lockedUntil && current.lockedUntil.getTime() > Date.now()) {
+          this.watchLock(current);
+        } else {
+          this.expireLock(current);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to check lock on job ${job.id}:`, error);
+      }
+    }, delayMs);
+    this.lockWatchers.set(job.id, timer);
+  }
+
+  /**
+   * Settles a job claimed with `claimJob`, keeping its lock until `settle`
+   * has finished so `close` waits for it. Returns false when the job holds
+   * no lock or is already being settled.
+   */
+  private async settleLock(jobId: string, settle: (job: QueueJob) => Promise<void>): Promise<boolean> {
+    const lock = this.locks.get(jobId);
+    if (!lock || lock.settling) return false;
+
+    lock.settling = true;
+    clearTimeout(lock.timer);
+    try {
+      await settle(lock.job);
+    } finally {
+      this.locks.delete(jobId);
+      lock.release();
+    }
+    return true;
+  }
+
+  private createContext(job: QueueJob, signal: AbortSignal): JobContext {
+    return {
+      signal,
+      updateProgress: async (progress: number, data?: any) => {
+        job.progress = Math.min(100, Math.max(0, progress));
+        job.progressData = data;
+        await this.persist(job);
+        this.publishJobEvent('JobProgress', job, { progress: job.progress, data });
+      },
+      getChildResults: async () => this.getChildResults(job),
+    };
+  }
+
+  private buildJob<T>(queueName: string, jobType: string, data: T, options: Partial<QueueJob> = {}): QueueJob<T> {
+    const queueOptions = this.queueOptions.get(queueName) || {};
+    const now = new Date();
+    const delay = options.delay || 0;
+
+    // Options come first so they cannot overwrite the identity or state of the new job
+    return {
+      ...options,
       id: this.generateJobId(),
+      queue: queueName,
       type: jobType,
       data,
+      status: delay > 0 ? 'delayed' : 'waiting',
       priority: options.priority || 0,
       attempts: 0,
-      maxAttempts: options.maxAttempts || 3,
-      delay: options.delay || 0,
-      createdAt: new Date(),
-      ...options
+      maxAttempts: options.maxAttempts || (queueOptions.retryAttempts !== undefined ? queueOptions.retryAttempts + 1 : 3),
+      delay,
+      createdAt: now,
+      nextAttemptAt: delay > 0 ? new Date(now.getTime() + delay) : undefined,
     };
+  }
 
-    if (!this.queues.has(queueName)) {
-      this.queues.set(queueName, []);
-    }
+  /**
+   * Builds `flow` and its descendants into `jobs`, parents first, and
+   * returns the id of the flow's root job.
+   */
+  private buildFlow(flow: FlowJob, parentId: string | undefined, jobs: QueueJob[]): string {
+    const job = this.buildJob(flow.queue, flow.type, flow.data, { ...flow.options, parentId });
+    jobs.push(job);
 
-    this.queues.get(queueName)!.push(job);
-    this.sortQueue(queueName);
+    if (flow.children && flow.children.length > 0) {
+      job.status = 'waiting-children';
+      job.nextAttemptAt = undefined;
+      job.onChildFailure = flow.onChildFailure || 'fail-parent';
+      job.childRetries = flow.childRetries ?? DEFAULT_CHILD_RETRIES;
+      job.childIds = flow.children.map(child => this.buildFlow(child, job.id, jobs));
+    }
+    return job.id;
+  }
 
+  private enqueued(job: QueueJob): void {
     if (this.metricsService) {
-      this.metricsService.incrementCounter('queue_job_added', 1, { queue: queueName, type: jobType });
+      this.metricsService.incrementCounter('queue_job_added', 1, { queue: job.queue, type: job.type });
+    }
+
+    if (job.status === 'delayed') {
+      this.metricsService?.incrementCounter('queue_job_delayed', 1, { queue: job.queue, type: job.type });
+      if (!this.closing) this.scheduleDelayed(job);
+    } else if (job.status === 'waiting') {
+      this.processQueue(job.queue);
     }
-    this.processQueue(queueName);
-    return job.id;
   }
 
-  private async processQueue(queueName: string): Promise<void> {
-    if (this.processing.get(queueName)) return;
-    
-    this.processing.set(queueName, true);
-    const queue = this.queues.get(queueName);
-    
-    if (!queue || queue.length === 0) {
-      this.processing.set(queueName, false);
-      return;
+  private async getChildResults(job: QueueJob): Promise<any[]> {
+    const children = await Promise.all((job.childIds || []).map(childId => this.store.get(childId)));
+    return children.map(child => (child && child.status === 'completed' ? child.result : undefined));
+  }
+
+  /**
+   * Applies a settled child's outcome to its parent. Runs serialized per
+   * parent so siblings finishing together release the parent only once.
+   */
+  private notifyParent(child: QueueJob, failed: boolean): Promise<void> {
+    if (!child.parentId) return Promise.resolve();
+
+    const parentId = child.parentId;
+    const previous = this.flowLocks.get(parentId) || Promise.resolve();
+    const next = previous
+      .then(() => this.settleChild(parentId, child, failed))
+      .catch(error => this.logger.error(`Failed to update parent job ${parentId}:`, error));
+
+    this.flowLocks.set(parentId, next);
+    next.finally(() => {
+      if (this.flowLocks.get(parentId) === next) this.flowLocks.delete(parentId);
+    });
+    return next;
+  }
+
+  private async settleChild(parentId: string, child: QueueJob, failed: boolean): Promise<void> {
+    const parent = await this.store.get(parentId);
+    if (!parent || parent.status !== 'waiting-children') return;
+
+    if (failed) {
+      const policy = parent.onChildFailure || 'fail-parent';
+      const current = await this.store.get(child.id);
+
+      if (policy === 'retry-child' && current && (current.requeues || 0) < (parent.childRetries ?? DEFAULT_CHILD_RETRIES)) {
+        current.requeues = (current.requeues || 0) + 1;
+        current.status = 'waiting';
+        current.attempts = 0;
+        current.nextAttemptAt = undefined;
+        await this.store.update(current);
+        this.logger.log(`Requeued child job ${current.id} of ${parentId} (${current.requeues}/${parent.childRetries})`);
+        this.processQueue(current.queue);
+        return;
+      }
+
+      if (policy !== 'ignore') {
+        await this.failParent(parent, `Child job ${child.id} failed: ${child.error || 'removed'}`);
+        return;
+      }
     }
 
-    const job = queue.shift()!;
-    const worker = this.workers.get(job.type);
+    await this.releaseParentIfReady(parent);
+  }
+
+  private async releaseParentIfReady(parent: QueueJob): Promise<void> {
+    const children = await Promise.all((parent.childIds || []).map(childId => this.store.get(childId)));
+    // Failed children only count as settled when ignored; otherwise their own notification decides
+    const ignoreFailures = parent.onChildFailure === 'ignore';
+    const settled = children.every(child =>
+      child ? child.status === 'completed' || (child.status === 'failed' && ignoreFailures) : ignoreFailures
+    );
+    if (!settled) return;
 
-    if (!worker) {
-      this.processing.set(queueName, false);
+    if (parent.type === BATCH_JOB_TYPE) {
+      const result = await this.getChildResults(parent);
+      parent.status = 'completed';
+      parent.completedAt = new Date();
+      parent.result = result;
+      await this.persist(parent);
+      this.metricsService?.incrementCounter('queue_job_completed', 1, { queue: parent.queue, type: parent.type });
+      this.publishJobEvent('JobCompleted', parent, { result });
+      this.settleWaiters(parent.id, null, result);
+      await this.notifyParent(parent, false);
       return;
     }
 
+    parent.status = 'waiting';
+    await this.persist(parent);
+    this.processQueue(parent.queue);
+  }
+
+  private async failParent(parent: QueueJob, reason: string): Promise<void> {
+    parent.status = 'failed';
+    parent.error = reason;
+    parent.failedAt = new Date();
+    await this.persist(parent);
+    this.metricsService?.incrementCounter('queue_job_dead_lettered', 1, { queue: parent.queue, type: parent.type });
+    this.logger.warn(`Job ${parent.id} failed: ${reason}`);
+    this.publishJobEvent('JobFailed', parent, { error: reason, willRetry: false });
+    this.settleWaiters(parent.id, new Error(reason));
+    await this.notifyParent(parent, true);
+  }
+
+  private publishJobEvent(eventType: 'JobProgress' | 'JobCompleted' | 'JobFailed', job: QueueJob, data: Record<string, any>): void {
+    if (!this.eventBus) return;
+
     try {
-      job.processedAt = new Date();
-      job.attempts++;
-      await worker(job);
-      job.completedAt = new Date();
-      if (this.metricsService) {
-        this.metricsService.incrementCounter('queue_job_completed', 1, { queue: queueName, type: job.type });
-      }
+      this.eventBus.publish({
+        id: this.generateEventId(),
+        type: eventType,
+        aggregateId: job.id,
+        aggregateType: 'QueueJob',
+        version: job.attempts,
+        occurredOn: new Date(),
+        data: { queue: job.queue, type: job.type, attempts: job.attempts, ...data },
+        metadata: { source: 'queue' },
+      });
     } catch (error) {
-      job.error = String(error);
-      job.failedAt = new Date();
-      if (this.metricsService) {
-        this.metricsService.incrementCounter('queue_job_failed', 1, { queue: queueName, type: job.type });
+      this.logger.warn(`Failed to publish ${eventType} for job ${job.id}: ${error}`);
+    }
+  }
+
+  private removeWaiter(jobId: string, waiter: object): void {
+    const remaining = (this.waiters.get(jobId) || []).filter(w => w !== waiter);
+    if (remaining.length > 0) this.waiters.set(jobId, remaining);
+    else this.waiters.delete(jobId);
+  }
+
+  private settleWaiters(jobId: string, error: Error | null, result?: any): void {
+    const waiters = this.waiters.get(jobId);
+    if (!waiters) return;
+
+    this.waiters.delete(jobId);
+    waiters.forEach(waiter => (error ? waiter.reject(error) : waiter.resolve(result)));
+  }
+
+  /**
+   * Runs the worker, through the `OPERATION_INSTRUMENTER` when one is
+   * registered.
+   */
+  private execute(job: QueueJob, worker: RegisteredWorker, onStart: (handler: Promise<unknown>) => void): Promise<any> {
+    const run = () => {
+      const controller = new AbortController();
+      const handler = worker.handler(job, this.createContext(job, controller.signal));
+      onStart(handler);
+      return this.withTimeout(job, handler, controller, job.timeout ?? worker.timeout);
+    };
+    if (!this.instrumenter) return run();
+
+    return this.instrumenter.instrument(
+      {
+        component: 'queue',
+        operation: 'process',
+        target: job.queue,
+        attributes: { 'job.id': job.id, 'job.type': job.type, 'job.attempt': job.attempts },
+      },
+      run
+    );
+  }
+
+  /**
+   * Rejects when the attempt outlives its timeout and aborts the handler's
+   * signal. The handler itself cannot be interrupted, so its eventual
+   * outcome is ignored.
+   */
+  private withTimeout<T>(job: QueueJob, work: Promise<T>, controller: AbortController, timeoutMs?: number): Promise<T> {
+    if (!timeoutMs) return work;
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        this.metricsService?.incrementCounter('queue_job_timed_out', 1, { queue: job.queue, type: job.type });
+        const error = new Error(`Job ${job.id} timed out after ${timeoutMs}ms`);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+
+    return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Moves a delayed job to `waiting` once its `nextAttemptAt` has passed.
+   */
+  private scheduleDelayed(job: QueueJob): void {
+    const dueAt = job.nextAttemptAt ? job.nextAttemptAt.getTime() : Date.now();
+    const delayMs = Math.max(0, dueAt - Date.now());
+
+    const timer = setTimeout(async () => {
+      this.delayTimers.delete(job.id);
+      if (delayMs > MAX_TIMER_DELAY) {
+        this.scheduleDelayed(job);
+        return;
       }
-      
-      if (job.attempts < job.maxAttempts) {
-        setTimeout(() => {
-          queue.unshift(job);
-          this.sortQueue(queueName);
-        }, 5000);
+
+      const current = await this.store.get(job.id);
+      if (!current || current.status !== 'delayed') return;
+
+      current.status = 'waiting';
+      current.nextAttemptAt = undefined;
+      await this.persist(current);
+      this.processQueue(current.queue);
+    }, Math.min(delayMs, MAX_TIMER_DELAY));
+
+    this.delayTimers.set(job.id, timer);
+  }
+
+  private computeBackoff(job: QueueJob, error: unknown): number {
+    const queueBackoff = this.queueOptions.get(job.queue)?.backoff;
+    const retryDelay = this.queueOptions.get(job.queue)?.retryDelay;
+    const strategy = job.backoff || queueBackoff || (retryDelay !== undefined ? { type: 'fixed', delay: retryDelay } : DEFAULT_BACKOFF);
+
+    if (typeof strategy === 'function') {
+      return Math.max(0, strategy(job.attempts, error));
+    }
+
+    if (strategy.type === 'custom') {
+      const custom = this.backoffStrategies.get(strategy.name);
+      if (!custom) {
+        this.logger.warn(`Unknown backoff strategy "${strategy.name}", using default`);
+        return this.computeDelay(DEFAULT_BACKOFF, job.attempts);
       }
+      return Math.max(0, custom(job.attempts, error));
+    }
+
+    return this.computeDelay(strategy, job.attempts);
+  }
+
+  private computeDelay(strategy: Exclude<BackoffStrategy, { type: 'custom' }>, attempt: number): number {
+    let delay = strategy.type === 'exponential'
+      ? strategy.delay * Math.pow(2, Math.max(0, attempt - 1))
+      : strategy.delay;
+
+    if (strategy.maxDelay !== undefined) {
+      delay = Math.min(delay, strategy.maxDelay);
+    }
+    if (strategy.jitter) {
+      delay -= delay * Math.min(1, strategy.jitter) * Math.random();
+    }
+    return Math.round(delay);
+  }
+
+  private async discardJob(job: QueueJob): Promise<void> {
+    const timer = this.delayTimers.get(job.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.delayTimers.delete(job.id);
+    }
+    await this.store.remove(job.id);
+  }
+
+  private async processAllQueues(): Promise<void> {
+    try {
+      const queueNames = await this.store.queues();
+      queueNames.forEach(queueName => this.processQueue(queueName));
+    } catch (error) {
+      this.logger.error('Failed to list queues:', error);
     }
+  }
+
+  /**
+   * Puts jobs interrupted by a restart back on their queues: running jobs
+   * whose lock has expired count as a failed attempt, those still locked are
+   * watched until it expires, and delayed jobs get their timers re-armed.
+   */
+  private async restoreJobs(): Promise<void> {
+    try {
+      const queueNames = await this.store.queues();
+
+      for (const queueName of queueNames) {
+        const jobs = await this.store.list(queueName);
+        const now = Date.now();
+        const active = jobs.filter(job => job.status === 'active');
+        const interrupted = active.filter(job => !job.lockedUntil || job.lockedUntil.getTime() <= now);
+
+        interrupted.forEach(job => this.expireLock(job));
+        active.filter(job => !interrupted.includes(job)).forEach(job => this.watchLock(job));
+
+        jobs.filter(job => job.status === 'delayed').forEach(job => this.scheduleDelayed(job));
+
+        // A crash between a child settling and its parent being updated leaves the parent stuck
+        for (const parent of jobs.filter(job => job.status === 'waiting-children')) {
+          const children = await Promise.all((parent.childIds || []).map(childId => this.store.get(childId)));
+          const failedChild = children.find(child => child && child.status === 'failed');
+          if (failedChild && parent.onChildFailure !== 'ignore') {
+            await this.notifyParent(failedChild, true);
+          } else {
+            await this.releaseParentIfReady(parent);
+          }
+        }
 
-    this.processing.set(queueName, false);
-    if (queue.length > 0) {
-      setImmediate(() => this.processQueue(queueName));
+        if (interrupted.length > 0) {
+          this.logger.log(`Recovered ${interrupted.length} job(s) with expired locks on queue ${queueName}`);
+        }
+        this.processQueue(queueName);
+      }
+    } catch (error) {
+      this.logger.error('Failed to restore persisted jobs:', error);
     }
   }
 
-  private sortQueue(queueName: string): void {
-    const queue = this.queues.get(queueName);
-    if (queue) {
-      queue.sort((a, b) => b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime());
+  private async persist(job: QueueJob): Promise<void> {
+    try {
+      await this.store.update(job);
+    } catch (error) {
+      this.logger.error(`Failed to persist job ${job.id}:`, error);
     }
   }
 
@@ -122,10 +1044,21 @@ export class QueueService {
       this.metricsService.createCounter('queue_job_added', 'Jobs added to queue');
       this.metricsService.createCounter('queue_job_completed', 'Jobs completed successfully');
       this.metricsService.createCounter('queue_job_failed', 'Jobs that failed');
+      this.metricsService.createCounter('queue_job_delayed', 'Jobs added with a delay');
+      this.metricsService.createCounter('queue_job_retried', 'Failed jobs scheduled for another attempt');
+      this.metricsService.createCounter('queue_job_timed_out', 'Job attempts that exceeded their timeout');
+      this.metricsService.createCounter('queue_job_lock_expired', 'Manually claimed jobs whose lock expired');
+      this.metricsService.createCounter('queue_job_cancelled', 'Jobs cancelled before running');
+      this.metricsService.createCounter('queue_job_dead_lettered', 'Jobs moved to dead-letter after exhausting attempts');
+      this.metricsService.createCounter('queue_job_requeued', 'Dead-lettered jobs requeued');
     }
   }
 
   private generateJobId(): string {
     return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
-}
\ No newline at end of file
+
+  private generateEventId(): string {
+    return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { SagaScheduler, SagaTimeout } from '@katarsaad/events';
+import { QueueService } from './queue.service';
+
+export const SAGA_TIMEOUT_QUEUE = 'saga-timeouts';
+const SAGA_TIMEOUT_JOB = 'saga.timeout';
+
+/**
+ * `SagaScheduler` backed by delayed jobs, so saga timeouts survive a
+ * restart when the queue store is persistent.
+ */
+@Injectable()
+export class SagaSchedulerService implements SagaScheduler {
+  constructor(private readonly queueService: QueueService) {}
+
+  schedule(timeout: SagaTimeout, delay: number): Promise<string> {
+    return this.queueService.addJob(SAGA_TIMEOUT_QUEUE, SAGA_TIMEOUT_JOB, timeout, { delay });
+  }
+
+  async cancel(timeoutId: string): Promise<void> {
+    await this.queueService.cancelJob(timeoutId);
+  }
+
+  onDue(handler: (timeout: SagaTimeout, timeoutId: string) => Promise<void>): void {
+    this.queueService.registerWorker<SagaTimeout>(SAGA_TIMEOUT_JOB, job => handler(job.data, job.id));
+  }
+}
@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileQueueStore } from './file-queue.store';
+import { QueueJob } from '../services/queue.service';
+
+function job(id: string): QueueJob {
+  return {
+    id,
+    queue: 'default',
+    type: 'test',
+    data: {},
+    status: 'waiting',
+    priority: 0,
+    attempts: 0,
+    maxAttempts: 3,
+    delay: 0,
+    createdAt: new Date(),
+  };
+}
+
+describe('FileQueueStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'queue-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('hands one waiting job to only one of two concurrent claims', async () => {
+    const store = new FileQueueStore(path.join(dir, 'jobs.log'));
+    await store.add(job('a'));
+
+    const claims = await Promise.all([store.claimNext('default'), store.claimNext('default')]);
+
+    expect(claims.filter(claimed => claimed !== null).map(claimed => claimed!.id)).toEqual(['a']);
+  });
+
+  it('replays the claimed job as active after a restart', async () => {
+    const filePath = path.join(dir, 'jobs.log');
+    const store = new FileQueueStore(filePath);
+    await store.add(job('a'));
+    await store.claimNext('default');
+
+    const restarted = new FileQueueStore(filePath);
+    expect((await restarted.get('a'))?.status).toBe('active');
+  });
+});
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MemoryQueueStore } from './memory-queue.store';
+import { QueueJob, QueueJobStatus } from '../services/queue.service';
+
+type LogEntry =
+  | { op: 'put'; job: QueueJob }
+  | { op: 'remove'; id: string }
+  | { op: 'group'; topic: string; group: string };
+
+const DATE_FIELDS = ['createdAt', 'processedAt', 'completedAt', 'failedAt', 'nextAttemptAt', 'lockedUntil'] as const;
+
+/**
+ * Append-only log driver. Every change is appended as one JSON line and the
+ * log is replayed into memory on first access, so jobs survive restarts.
+ */
+export class FileQueueStore extends MemoryQueueStore {
+  private loading?: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async add(job: QueueJob): Promise<void> {
+    await this.load();
+    await super.add(job);
+    await this.append({ op: 'put', job });
+  }
+
+  async update(job: QueueJob): Promise<void> {
+    await this.load();
+    await super.update(job);
+    await this.append({ op: 'put', job });
+  }
+
+  async get(jobId: string): Promise<QueueJob | null> {
+    await this.load();
+    return super.get(jobId);
+  }
+
+  async remove(jobId: string): Promise<void> {
+    await this.load();
+    await super.remove(jobId);
+    await this.append({ op: 'remove', id: jobId });
+  }
+
+  async list(queueName: string, status?: QueueJobStatus): Promise<QueueJob[]> {
+    await this.load();
+    return super.list(queueName, status);
+  }
+
+  async claimNext(queueName: string, jobTypes?: string[]): Promise<QueueJob | null> {
+    await this.load();
+    return super.claimNext(queueName, jobTypes);
+  }
+
+  async queues(): Promise<string[]> {
+    await this.load();
+    return super.queues();
+  }
+
+  async addConsumerGroup(topic: string, group: string): Promise<void> {
+    await this.load();
+    if (this.consumerGroups.get(topic)?.has(group)) return;
+    await super.addConsumerGroup(topic, group);
+    await this.append({ op: 'group', topic, group });
+  }
+
+  async listConsumerGroups(topic: string): Promise<string[]> {
+    await this.load();
+    return super.listConsumerGroups(topic);
+  }
+
+  /**
+   * Rewrites the log so it only holds the current state of each job and
+   * the registered consumer groups.
+   */
+  async compact(): Promise<void> {
+    await this.load();
+    await this.enqueueWrite(async () => {
+      const groups = Array.from(this.consumerGroups.entries()).flatMap(([topic, names]) =>
+        Array.from(names).map(group => JSON.stringify({ op: 'group', topic, group } as LogEntry))
+      );
+      const lines = Array.from(this.jobs.values())
+        .map(job => JSON.stringify({ op: 'put', job } as LogEntry))
+        .concat(groups)
+        .join('\n');
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, lines ? `${lines}\n` : '');
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.replay();
+    }
+    return this.loading;
+  }
+
+  private async replay(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let content = '';
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A torn write from a crash can only affect the last line
+        continue;
+      }
+
+      if (entry.op === 'put') {
+        this.jobs.set(entry.job.id, this.reviveJob(entry.job));
+      } else if (entry.op === 'group') {
+        await super.addConsumerGroup(entry.topic, entry.group);
+      } else {
+        this.jobs.delete(entry.id);
+      }
+    }
+  }
+
+  private append(entry: LogEntry): Promise<void> {
+    return this.enqueueWrite(() =>
+      fs.promises.appendFile(this.filePath, `${JSON.stringify(entry)}\n`)
+    );
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(write);
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+
+  private reviveJob(job: QueueJob): QueueJob {
+    const revived: any = { ...job };
+    for (const field of DATE_FIELDS) {
+      if (revived[field]) revived[field] = new Date(revived[field]);
+    }
+    return revived;
+  }
+}
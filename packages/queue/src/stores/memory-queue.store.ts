@@ -0,0 +1,68 @@
+import { QueueStore } from '../interfaces/queue-store.interface';
+import { QueueJob, QueueJobStatus } from '../services/queue.service';
+
+export class MemoryQueueStore implements QueueStore {
+  protected readonly jobs = new Map<string, QueueJob>();
+  protected readonly consumerGroups = new Map<string, Set<string>>();
+
+  async add(job: QueueJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async update(job: QueueJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(jobId: string): Promise<QueueJob | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async remove(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+
+  async list(queueName: string, status?: QueueJobStatus): Promise<QueueJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.queue === queueName && (!status || job.status === status))
+      .sort(compareJobs)
+      .map(job => ({ ...job }));
+  }
+
+  async claimNext(queueName: string, jobTypes?: string[]): Promise<QueueJob | null> {
+    const next = Array.from(this.jobs.values())
+      .filter(job =>
+        job.queue === queueName &&
+        job.status === 'waiting' &&
+        (!jobTypes || jobTypes.includes(job.type))
+      )
+      .sort(compareJobs)[0];
+
+    if (!next) return null;
+
+    const claimed: QueueJob = { ...next, status: 'active' };
+    // Marked before the first await so a concurrent claim cannot pick it too
+    this.jobs.set(claimed.id, { ...claimed });
+    await this.update(claimed);
+    return { ...claimed };
+  }
+
+  async queues(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.jobs.values()).map(job => job.queue)));
+  }
+
+  async addConsumerGroup(topic: string, group: string): Promise<void> {
+    if (!this.consumerGroups.has(topic)) {
+      this.consumerGroups.set(topic, new Set());
+    }
+    this.consumerGroups.get(topic)!.add(group);
+  }
+
+  async listConsumerGroups(topic: string): Promise<string[]> {
+    return Array.from(this.consumerGroups.get(topic) || []);
+  }
+}
+
+export function compareJobs(a: QueueJob, b: QueueJob): number {
+  return b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime();
+}
@@ -0,0 +1,160 @@
+import { QueueStore } from '../interfaces/queue-store.interface';
+import { QueueJob, QueueJobStatus } from '../services/queue.service';
+
+export interface IPrismaQueueClient {
+  queueJob: {
+    create(args: any): Promise<any>;
+    update(args: any): Promise<any>;
+    updateMany(args: any): Promise<{ count: number }>;
+    findUnique(args: any): Promise<any>;
+    findFirst(args: any): Promise<any>;
+    findMany(args: any): Promise<any[]>;
+    delete(args: any): Promise<any>;
+  };
+  queueConsumerGroup: {
+    upsert(args: any): Promise<any>;
+    findMany(args: any): Promise<any[]>;
+  };
+}
+
+const JOB_ORDER = [{ priority: 'desc' }, { createdAt: 'asc' }];
+const CLAIM_ATTEMPTS = 5;
+
+/**
+ * SQL driver backed by the `QueueJob` and `QueueConsumerGroup` Prisma models. Claims use a conditional
+ * update so several processes can share one table without double-processing.
+ */
+export class PrismaQueueStore implements QueueStore {
+  constructor(private readonly prisma: IPrismaQueueClient) {}
+
+  async add(job: QueueJob): Promise<void> {
+    await this.prisma.queueJob.create({ data: this.toRow(job) });
+  }
+
+  async update(job: QueueJob): Promise<void> {
+    const { id, ...data } = this.toRow(job);
+    await this.prisma.queueJob.update({ where: { id }, data });
+  }
+
+  async get(jobId: string): Promise<QueueJob | null> {
+    const row = await this.prisma.queueJob.findUnique({ where: { id: jobId } });
+    return row ? this.toJob(row) : null;
+  }
+
+  async remove(jobId: string): Promise<void> {
+    await this.prisma.queueJob.delete({ where: { id: jobId } });
+  }
+
+  async list(queueName: string, status?: QueueJobStatus): Promise<QueueJob[]> {
+    const rows = await this.prisma.queueJob.findMany({
+      where: { queue: queueName, ...(status && { status }) },
+      orderBy: JOB_ORDER,
+    });
+    return rows.map(row => this.toJob(row));
+  }
+
+  async claimNext(queueName: string, jobTypes?: string[]): Promise<QueueJob | null> {
+    for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+      const row = await this.prisma.queueJob.findFirst({
+        where: { queue: queueName, status: 'waiting', ...(jobTypes && { type: { in: jobTypes } }) },
+        orderBy: JOB_ORDER,
+      });
+      if (!row) return null;
+
+      const { count } = await this.prisma.queueJob.updateMany({
+        where: { id: row.id, status: 'waiting' },
+        data: { status: 'active' },
+      });
+      if (count === 1) {
+        return this.toJob({ ...row, status: 'active' });
+      }
+      // Another process claimed it first, try the next one
+    }
+    return null;
+  }
+
+  async queues(): Promise<string[]> {
+    const rows = await this.prisma.queueJob.findMany({
+      select: { queue: true },
+      distinct: ['queue'],
+    });
+    return rows.map(row => row.queue);
+  }
+
+  async addConsumerGroup(topic: string, group: string): Promise<void> {
+    await this.prisma.queueConsumerGroup.upsert({
+      where: { topic_group: { topic, group } },
+      create: { topic, group },
+      update: {},
+    });
+  }
+
+  async listConsumerGroups(topic: string): Promise<string[]> {
+    const rows = await this.prisma.queueConsumerGroup.findMany({ where: { topic }, orderBy: { createdAt: 'asc' } });
+    return rows.map(row => row.group);
+  }
+
+  private toRow(job: QueueJob): Record<string, any> {
+    return {
+      id: job.id,
+      queue: job.queue,
+      type: job.type,
+      data: JSON.stringify(job.data ?? null),
+      status: job.status,
+      priority: job.priority,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      delay: job.delay,
+      timeout: job.timeout ?? null,
+      backoff: job.backoff ? JSON.stringify(job.backoff) : null,
+      error: job.error ?? null,
+      errorStack: job.errorStack ?? null,
+      createdAt: job.createdAt,
+      processedAt: job.processedAt ?? null,
+      completedAt: job.completedAt ?? null,
+      failedAt: job.failedAt ?? null,
+      nextAttemptAt: job.nextAttemptAt ?? null,
+      lockedUntil: job.lockedUntil ?? null,
+      progress: job.progress ?? null,
+      progressData: job.progressData !== undefined ? JSON.stringify(job.progressData) : null,
+      result: job.result !== undefined ? JSON.stringify(job.result) : null,
+      parentId: job.parentId ?? null,
+      childIds: job.childIds ? JSON.stringify(job.childIds) : null,
+      onChildFailure: job.onChildFailure ?? null,
+      childRetries: job.childRetries ?? null,
+      requeues: job.requeues ?? null,
+    };
+  }
+
+  private toJob(row: any): QueueJob {
+    return {
+      id: row.id,
+      queue: row.queue,
+      type: row.type,
+      data: typeof row.data === 'string' ? JSON.parse(row.data) : row.data,
+      status: row.status,
+      priority: row.priority,
+      attempts: row.attempts,
+      maxAttempts: row.maxAttempts,
+      delay: row.delay,
+      timeout: row.timeout ?? undefined,
+      backoff: row.backoff ? JSON.parse(row.backoff) : undefined,
+      error: row.error ?? undefined,
+      errorStack: row.errorStack ?? undefined,
+      createdAt: new Date(row.createdAt),
+      processedAt: row.processedAt ? new Date(row.processedAt) : undefined,
+      completedAt: row.completedAt ? new Date(row.completedAt) : undefined,
+      failedAt: row.failedAt ? new Date(row.failedAt) : undefined,
+      nextAttemptAt: row.nextAttemptAt ? new Date(row.nextAttemptAt) : undefined,
+      lockedUntil: row.lockedUntil ? new Date(row.lockedUntil) : undefined,
+      progress: row.progress ?? undefined,
+      progressData: row.progressData ? JSON.parse(row.progressData) : undefined,
+      result: row.result ? JSON.parse(row.result) : undefined,
+      parentId: row.parentId ?? undefined,
+      childIds: row.childIds ? JSON.parse(row.childIds) : undefined,
+      onChildFailure: row.onChildFailure ?? undefined,
+      childRetries: row.childRetries ?? undefined,
+      requeues: row.requeues ?? undefined,
+    };
+  }
+}
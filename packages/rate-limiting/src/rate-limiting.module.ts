@@ -7,7 +7,7 @@ import { CoreModule } from '@katarsaad/core';
 
 @Global()
 @Module({
-  imports: [MonitoringModule.forRoot(), CoreModule],
+  imports: [MonitoringModule, CoreModule],
   providers: [
     RateLimiterService,
     RateLimitGuard,
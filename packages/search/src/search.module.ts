@@ -6,7 +6,7 @@ import { InfrastructureModule } from '@katarsaad/infrastructure';
 
 @Global()
 @Module({
-  imports: [MonitoringModule.forRoot(), InfrastructureModule],
+  imports: [MonitoringModule, InfrastructureModule],
   providers: [SearchService, IndexingService],
   exports: [SearchService, IndexingService],
 })
@@ -1,5 +1,6 @@
 // Utils exports
 export * from './utils/file.utils';
+export * from './utils/http.utils';
 export * from './utils/number.utils';
 export * from './utils/performance.utils';
 
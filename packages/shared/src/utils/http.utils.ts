@@ -1,4 +1,44 @@
+/**
+ * Wraps every request made through `HttpUtils.request`, e.g. to trace it
+ * and propagate its trace context. It may add to `init.headers` before
+ * calling `next`, which runs the remaining interceptors and the request.
+ */
+export type RequestInterceptor = (
+  url: string,
+  init: RequestInit & { headers: Record<string, string> },
+  next: () => Promise<Response>
+) => Promise<Response>;
+
 export class HttpUtils {
+  private static interceptors = new Set<RequestInterceptor>();
+
+  /**
+   * Registers a request interceptor. Returns a function removing it.
+   */
+  static addInterceptor(interceptor: RequestInterceptor): () => void {
+    this.interceptors.add(interceptor);
+    return () => this.interceptors.delete(interceptor);
+  }
+
+  /**
+   * `fetch` through the registered interceptors, in registration order.
+   * Header names are lowercased before the interceptors see them.
+   */
+  static async request(url: string, init: RequestInit = {}): Promise<Response> {
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+    const request = { ...init, headers };
+
+    const interceptors = Array.from(this.interceptors);
+    const call = (index: number): Promise<Response> =>
+      index < interceptors.length
+        ? interceptors[index](url, request, () => call(index + 1))
+        : fetch(url, request);
+    return call(0);
+  }
+
   static async retry<T>(
     fn: () => Promise<T>,
     maxAttempts = 3,
@@ -46,7 +46,7 @@ import { SharedModule } from '@katarsaad/shared';
     DatabaseModule.forRoot(),
 
      SecurityModule,
-    MonitoringModule,
+    MonitoringModule.forRoot({ metrics: { defaultMetrics: true } }),
      ValidationModule,
      AuditModule,
    RateLimitingModule,
@@ -63,14 +63,8 @@ import { FileUploadService } from './services/file-upload.service';
         ['minLength', 'Value is too short'],
       ]),
     }),
-    MonitoringModule.forRoot({
-      metrics: {
-        enabled: true,
-        prefix: 'example_api',
-        defaultLabels: { service: 'example' },
-        exportInterval: 30000,
-      },
-    }),
+    // The application module calls forRoot and owns the metrics registry
+    MonitoringModule,
     InfrastructureModule.forRoot(),
 
     // Feature modules
@@ -2,38 +2,50 @@ import { ApiProperty } from '@nestjs/swagger';
 
 export class HealthCheckDto {
   @ApiProperty({
-    description: 'Service name',
+    description: 'Check name',
     example: 'database'
   })
-  service: string;
+  name: string;
 
   @ApiProperty({
-    description: 'Service status',
-    example: 'healthy',
-    enum: ['healthy', 'unhealthy', 'degraded']
+    description: 'Check status',
+    example: 'up',
+    enum: ['up', 'down', 'degraded']
   })
-  status: 'healthy' | 'unhealthy' | 'degraded';
+  status: 'up' | 'down' | 'degraded';
 
   @ApiProperty({
-    description: 'Response time in milliseconds',
+    description: 'Check duration in milliseconds',
     example: 25
   })
-  responseTime: number;
+  duration: number;
+
+  @ApiProperty({
+    description: 'Whether the check going down makes the whole report down',
+    example: true
+  })
+  critical: boolean;
+
+  @ApiProperty({
+    description: 'Why the check is not up',
+    required: false
+  })
+  message?: string;
 
   @ApiProperty({
-    description: 'Additional service details',
-    example: { version: '1.0.0', uptime: 3600 }
+    description: 'Additional check details',
+    example: { usagePercent: 42 }
   })
-  details?: any;
+  metadata?: any;
 }
 
 export class HealthResponseDto {
   @ApiProperty({
     description: 'Overall system status',
-    example: 'healthy',
-    enum: ['healthy', 'unhealthy', 'degraded']
+    example: 'up',
+    enum: ['up', 'down', 'degraded']
   })
-  status: 'healthy' | 'unhealthy' | 'degraded';
+  status: 'up' | 'down' | 'degraded';
 
   @ApiProperty({
     description: 'Health check timestamp',
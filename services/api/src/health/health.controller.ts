@@ -1,6 +1,7 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { Response } from 'express';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
-import { HealthService } from '@katarsaad/health';
+import { HealthReport, HealthService, HealthStatus } from '@katarsaad/health';
 import { MetricsService } from '@katarsaad/monitoring';
 import { ApiResponseDto } from '@katarsaad/core';
 import { Public } from '../auth/decorators/public.decorator';
@@ -28,6 +29,28 @@ export class HealthController {
     return ApiResponseDto.success(health, 'Detailed health check completed');
   }
 
+  @Public()
+  @Get('live')
+  @ApiOperation({ summary: 'Liveness probe' })
+  @ApiResponse({ status: 200, description: 'The process is running' })
+  @ApiResponse({ status: 503, description: 'The process should be restarted' })
+  async live(@Res({ passthrough: true }) response: Response): Promise<HealthReport> {
+    const report = await this.healthService.checkLiveness();
+    response.status(report.status === HealthStatus.DOWN ? HttpStatus.SERVICE_UNAVAILABLE : HttpStatus.OK);
+    return report;
+  }
+
+  @Public()
+  @Get('ready')
+  @ApiOperation({ summary: 'Readiness probe' })
+  @ApiResponse({ status: 200, description: 'Ready to serve traffic, possibly degraded' })
+  @ApiResponse({ status: 503, description: 'A critical dependency is down' })
+  async ready(@Res({ passthrough: true }) response: Response): Promise<HealthReport> {
+    const report = await this.healthService.checkReadiness();
+    response.status(report.status === HealthStatus.DOWN ? HttpStatus.SERVICE_UNAVAILABLE : HttpStatus.OK);
+    return report;
+  }
+
   @Public()
   @Get('metrics')
   @ApiOperation({ summary: 'Get application metrics' })
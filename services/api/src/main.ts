@@ -2,7 +2,8 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
-import { MetricsService } from '@katarsaad/monitoring';
+import { MetricsService, MetricsServer } from '@katarsaad/monitoring';
+import { ConfigService } from '@katarsaad/config';
 import { HealthService } from '@katarsaad/health';
 // Swagger configuration
 const swaggerConfig = {
@@ -65,6 +66,14 @@ async function bootstrap() {
     metricsService.createCounter('app_starts', 'Application start count');
     metricsService.incrementCounter('app_starts', 1);
 
+    // Prometheus scrapes its own port, outside the API prefix and auth guards
+    const configService = app.get(ConfigService);
+    const metricsEnabled = configService.get<boolean>('monitoring.metrics_enabled');
+    const prometheusPort = configService.get<number>('monitoring.prometheus_port');
+    if (metricsEnabled) {
+      await app.get(MetricsServer).listen(prometheusPort);
+    }
+
     // Graceful shutdown
     process.on('SIGTERM', async () => {
       logger.log('SIGTERM received, shutting down gracefully');
@@ -85,6 +94,9 @@ async function bootstrap() {
     logger.log(`📚 API Documentation: http://localhost:${port}/api/docs`);
     logger.log(`🏥 Health Check: http://localhost:${port}/api/v1/health`);
     logger.log(`📊 Metrics: http://localhost:${port}/api/v1/health/metrics`);
+    if (metricsEnabled) {
+      logger.log(`📈 Prometheus: http://localhost:${prometheusPort}/metrics`);
+    }
 
   } catch (error) {
     logger.error('Failed to start application', error);
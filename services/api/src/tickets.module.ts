@@ -1,6 +1,6 @@
 import { Module } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
-import { PrismaTicketService, TicketService } from '@katarsaad/core';
+import { EVENT_OUTBOX, EventBusService, EventOutbox, PrismaTicketService, TicketService } from '@katarsaad/core';
 import { TicketsController } from './tickets.controller';
 
 @Module({
@@ -12,8 +12,8 @@ import { TicketsController } from './tickets.controller';
     },
     {
       provide: TicketService,
-      useFactory: (prisma: any) => new PrismaTicketService(prisma),
-      inject: ['PRISMA_CLIENT']
+      useFactory: (prisma: any, eventBus?: EventBusService, outbox?: EventOutbox) => new PrismaTicketService(prisma, eventBus, outbox),
+      inject: ['PRISMA_CLIENT', { token: EventBusService, optional: true }, { token: EVENT_OUTBOX, optional: true }]
     }
   ],
   exports: [TicketService]